@@ -0,0 +1,99 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/allowlist/lists.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { Request } from "express";
+import { AllowlistStore } from "./lists.js";
+import { clientIp } from "../util/ip.js";
+
+const fakeReq = (remote: string, xff?: string) =>
+  ({ headers: xff ? { "x-forwarded-for": xff } : {}, socket: { remoteAddress: remote } }) as unknown as Request;
+
+test("client IP honours the trusted hop count and ignores spoofed X-Forwarded-For entries", () => {
+  // istemci "10.0.0.1" yazdı, gerçek adresi 203.0.113.5, tek proxy 198.51.100.2
+  const req = fakeReq("198.51.100.2", "10.0.0.1, 203.0.113.5");
+  assert.equal(clientIp(req, 0), "198.51.100.2");
+  assert.equal(clientIp(req, 1), "203.0.113.5");
+  assert.equal(clientIp(req, 2), "10.0.0.1");
+  assert.equal(clientIp(fakeReq("::ffff:192.0.2.1"), 3), "192.0.2.1"); // zincir kısa → en soldaki
+});
+
+test("named lists match CIDRs, prefer file over env and reload without restart", async () => {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "allow-")), "allowlists.json");
+  process.env.ALLOWLIST_INGEST = "192.0.2.7";
+  process.env.ALLOWLIST_ADMIN = "10.0.0.0/8, 2001:db8::/32, not-a-cidr";
+  const store = new AllowlistStore(null, file);
+
+  assert.equal(store.get("ingest")?.source, "env");
+  assert.ok(store.allows("ingest", "192.0.2.7"));
+  assert.ok(!store.allows("ingest", "192.0.2.8"));
+  assert.ok(store.allows("admin", "10.200.0.1"));
+  assert.ok(store.allows("admin", "2001:db8::42"));
+  assert.ok(!store.allows("admin", "2001:db9::1"));
+  assert.deepEqual(store.get("admin")?.set.invalid, ["not-a-cidr"]);
+  assert.ok(store.allows("unknown", "203.0.113.1")); // liste yok → serbest
+  // fallback’li liste (ör. admin → loopback) yalnız hiçbir kaynakta yokken geçerli
+  assert.ok(!store.allows("unknown", "203.0.113.1", undefined, ["127.0.0.1", "::1"]));
+  assert.ok(store.allows("unknown", "::ffff:127.0.0.1", undefined, ["127.0.0.1", "::1"]));
+  assert.ok(store.allows("admin", "10.200.0.1", undefined, ["127.0.0.1"]));
+
+  fs.writeFileSync(file, JSON.stringify({ ingest: ["198.51.100.0/24"] }));
+  await store.reload();
+  assert.equal(store.get("ingest")?.source, "file");
+  assert.ok(store.allows("ingest", "198.51.100.77"));
+  assert.ok(!store.allows("ingest", "192.0.2.7"));
+
+  fs.writeFileSync(file, JSON.stringify({ ingest: ["192.0.2.0/28"] }));
+  fs.utimesSync(file, new Date(), new Date(Date.now() + 5000)); // mtime kesin değişsin
+  await store.reload();
+  assert.ok(store.allows("ingest", "192.0.2.8"));
+  assert.ok(!store.allows("ingest", "198.51.100.77"));
+
+  fs.writeFileSync(file, "{ broken");
+  fs.utimesSync(file, new Date(), new Date(Date.now() + 10_000));
+  await store.reload(); // okunamayan dosya → son geçerli liste korunur
+  assert.ok(store.allows("ingest", "192.0.2.8"));
+
+  delete process.env.ALLOWLIST_INGEST;
+  delete process.env.ALLOWLIST_ADMIN;
+});
+
+test("a configured list that is empty or has no valid entries never opens up", async () => {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "allow-")), "allowlists.json");
+  const touch = (n: number) => fs.utimesSync(file, new Date(), new Date(Date.now() + n * 5000));
+  process.env.ALLOWLIST_METRICS = "10.0.0.1";
+  process.env.ALLOWLIST_BOGUS = "not-a-cidr, also-bad";
+  process.env.ALLOWLIST_BLANK = "  ";
+  const store = new AllowlistStore(null, file);
+
+  // ENV: hiç geçerli girdi yok → önceki hali yok → herkes reddedilir; boş değer "tanımsız" sayılır
+  assert.ok(!store.allows("bogus", "203.0.113.1"));
+  assert.ok(store.allows("blank", "203.0.113.1"));
+
+  // dosyada boş / ayrıştırılamayan liste ENV’i ezer ama açmaz
+  fs.writeFileSync(file, JSON.stringify({ metrics: [], ingest: "[broken", admin: { a: 1 } }));
+  touch(1);
+  await store.reload();
+  for (const name of ["metrics", "ingest", "admin"]) {
+    assert.equal(store.get(name)?.source, "file");
+    assert.ok(!store.allows(name, "10.0.0.1"), name);
+  }
+
+  // geçerli liste yüklendikten sonra bozulursa önceki hali korunur
+  fs.writeFileSync(file, JSON.stringify({ metrics: ["192.0.2.0/24"] }));
+  touch(2);
+  await store.reload();
+  assert.ok(store.allows("metrics", "192.0.2.9"));
+  fs.writeFileSync(file, JSON.stringify({ metrics: ["", "nope"] }));
+  touch(3);
+  await store.reload();
+  assert.ok(store.allows("metrics", "192.0.2.9"));
+  assert.ok(!store.allows("metrics", "10.0.0.1"));
+
+  delete process.env.ALLOWLIST_METRICS;
+  delete process.env.ALLOWLIST_BOGUS;
+  delete process.env.ALLOWLIST_BLANK;
+});
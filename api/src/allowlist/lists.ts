@@ -0,0 +1,155 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/allowlist/lists.ts
+// Adlandırılmış IP allowlist’leri (ör. "ingest", "metrics", "admin"); girdiler tek IP ya da IPv4/IPv6 CIDR.
+// Kaynaklar (öncelik sırasıyla, liste ilk bulunduğu kaynaktan alınır):
+// 1) Redis hash privora:allowlists (alan = liste adı, değer = JSON dizi ya da "a,b,c")
+// 2) ALLOWLIST_FILE: { "<ad>": ["10.0.0.0/8", ...] } JSON dosyası
+// 3) ENV ALLOWLIST_<AD> (ya da middleware’e verilen ENV anahtarı) — virgülle ayrılmış
+// Redis ve dosya ALLOWLIST_RELOAD_MS’de bir yeniden okunur (dosya yalnız mtime değişince); restart gerekmez.
+// Okuma hatasında son başarılı liste korunur. Yalnız hiçbir kaynakta olmayan liste herkese açıktır (dev ortamı;
+// boş ENV değeri "yok" sayılır). Tanımlı ama boş / ayrıştırılamayan / hiç geçerli girdisi olmayan liste
+// açılmaz: önceki derlenmiş hali korunur, o da yoksa herkes reddedilir; her iki durum da loglanır.
+import { Redis } from "ioredis";
+import fs from "node:fs";
+import { CidrSet, isValidCidr } from "../util/ip.js";
+
+const ALLOWLIST_FILE = process.env.ALLOWLIST_FILE || "";
+const RELOAD_MS = Number(process.env.ALLOWLIST_RELOAD_MS || 10_000);
+const LISTS_HASH = "privora:allowlists";
+
+export type AllowlistSource = "redis" | "file" | "env";
+
+/** null: ayrıştırılamadı */
+function parseEntries(v: unknown): string[] | null {
+  if (Array.isArray(v)) return v.map(String);
+  if (v !== null && typeof v === "object") return null;
+  const s = String(v ?? "").trim();
+  if (s.startsWith("[")) {
+    try {
+      return parseEntries(JSON.parse(s));
+    } catch {
+      return null;
+    }
+  }
+  return s.split(",");
+}
+
+/** "ingest" → ALLOWLIST_INGEST, "partner-api" → ALLOWLIST_PARTNER_API */
+export function allowlistEnvKey(name: string) {
+  return `ALLOWLIST_${name.toUpperCase().replace(/[^A-Z0-9]+/g, "_")}`;
+}
+
+export class AllowlistStore {
+  private redisLists = new Map<string, CidrSet>();
+  private fileLists = new Map<string, CidrSet>();
+  private envLists = new Map<string, CidrSet>();
+  private fileMtime = -1;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private redis: Redis | null, private file: string = ALLOWLIST_FILE) {
+    this.loadFile();
+  }
+
+  /** Listenin geçerli hali ve kaynağı; hiçbir kaynakta yoksa null */
+  get(name: string, envKey = allowlistEnvKey(name)): { set: CidrSet; source: AllowlistSource } | null {
+    const r = this.redisLists.get(name);
+    if (r) return { set: r, source: "redis" };
+    const f = this.fileLists.get(name);
+    if (f) return { set: f, source: "file" };
+    const raw = process.env[envKey];
+    if (!raw?.trim()) return null;
+    let e = this.envLists.get(envKey);
+    if (!e) {
+      e = this.compile(`env:${envKey}`, parseEntries(raw));
+      this.envLists.set(envKey, e);
+    }
+    return { set: e, source: "env" };
+  }
+
+  /** Olmayan liste serbest (fallback verilmişse onun yerine o geçer); tanımlı ama boş liste kimseyi geçirmez */
+  allows(name: string, ip: string, envKey?: string, fallback?: string[]) {
+    const l = this.get(name, envKey);
+    if (!l) return !fallback || new CidrSet(fallback).has(ip);
+    return l.set.has(ip);
+  }
+
+  async reload() {
+    this.loadFile();
+    if (!this.redis) return;
+    try {
+      const h = await this.redis.hgetall(LISTS_HASH);
+      const next = new Map<string, CidrSet>();
+      for (const [name, v] of Object.entries(h)) {
+        next.set(name, this.compile(`redis:${name}`, parseEntries(v), this.redisLists.get(name)));
+      }
+      this.redisLists = next;
+    } catch (e) {
+      // eslint-disable-next-line no-console
+      console.error("[allowlist] redis reload failed, keeping previous lists", e);
+    }
+  }
+
+  /** Periyodik yeniden yükleme; timer süreci ayakta tutmaz */
+  start() {
+    if (this.timer || RELOAD_MS <= 0) return this;
+    void this.reload();
+    this.timer = setInterval(() => void this.reload(), RELOAD_MS);
+    this.timer.unref();
+    return this;
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private loadFile() {
+    if (!this.file) return;
+    try {
+      const mtime = fs.statSync(this.file).mtimeMs;
+      if (mtime === this.fileMtime) return;
+      const json = JSON.parse(fs.readFileSync(this.file, "utf8"));
+      if (!json || typeof json !== "object" || Array.isArray(json)) throw new Error("expected { name: [cidr, ...] }");
+      const next = new Map<string, CidrSet>();
+      for (const [name, v] of Object.entries(json)) {
+        next.set(name, this.compile(`file:${name}`, parseEntries(v), this.fileLists.get(name)));
+      }
+      this.fileLists = next;
+      this.fileMtime = mtime;
+    } catch (e: any) {
+      if (e?.code === "ENOENT" && this.fileMtime === -1) return; // dosya henüz yok
+      // eslint-disable-next-line no-console
+      console.error(`[allowlist] ${this.file} unreadable, keeping previous lists`, e?.message || e);
+    }
+  }
+
+  /** Geçerli girdisi olmayan liste: önceki hali (prev), yoksa boş küme (herkes reddedilir) */
+  private compile(where: string, entries: string[] | null, prev?: CidrSet) {
+    const set = new CidrSet(entries ?? []);
+    // eslint-disable-next-line no-console
+    if (set.invalid.length) console.warn(`[allowlist] ${where}: skipped invalid entries`, set.invalid);
+    if (set.size > 0) return set;
+    // eslint-disable-next-line no-console
+    console.error(
+      `[allowlist] ${where}: ${entries ? "no valid entries" : "unparseable"}, ${prev ? "keeping previous list" : "denying everyone"}`
+    );
+    return prev ?? set;
+  }
+}
+
+let store: AllowlistStore | null = null;
+
+/** Süreç genelinde tek store: REDIS_URL varsa Redis + dosya + ENV, yoksa dosya + ENV */
+export function allowlists(): AllowlistStore {
+  store ??= new AllowlistStore(process.env.REDIS_URL ? new Redis(process.env.REDIS_URL) : null).start();
+  return store;
+}
+
+/** Ops için: listeyi Redis’e yazar (tüm instance’lar bir sonraki yeniden yüklemede görür) */
+export async function putAllowlist(redis: Redis, name: string, entries: string[]) {
+  const bad = entries.filter((c) => !isValidCidr(c));
+  if (bad.length) throw new Error(`bad cidr: ${bad.join(", ")}`);
+  // boş liste herkesi reddeder; listeyi kaldırmak için alan silinmeli (HDEL)
+  if (!entries.length) throw new Error("empty allowlist");
+  await redis.hset(LISTS_HASH, name, JSON.stringify(entries.map((c) => c.trim())));
+}
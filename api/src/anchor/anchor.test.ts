@@ -0,0 +1,86 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/anchor/anchor.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import { anchorRoot } from "./anchor.js";
+import { anchorTargetsFromEnv, localFileProvider, otsProvider, webhookProvider } from "./providers.js";
+import { readReceipts } from "./receipts.js";
+import type { AnchorProvider } from "./provider.js";
+
+const ROOT = "0x" + "ab".repeat(32);
+
+function flaky(name: string, failures: number): AnchorProvider & { calls: number } {
+  return {
+    name,
+    kind: "webhook",
+    calls: 0,
+    async anchor() {
+      this.calls++;
+      if (this.calls <= failures) throw new Error("boom");
+      return { httpStatus: 200, responseDigest: "0x01" };
+    },
+  };
+}
+
+test("one failing target does not hide the others and is retried alone", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "anchors-"));
+  process.env.ANCHOR_ENABLE = "true";
+  try {
+    const file = localFileProvider("local", { file: path.join(dir, "anchors.ndjson") });
+    const hook = flaky("hook", 1);
+    const meta = { day: "2026-01-02", merkleRoot: ROOT, leafCount: 3, treeVer: 2 };
+
+    const first = await anchorRoot(meta, { anchorsDir: dir, targets: [file, hook] });
+    assert.deepEqual(first.map((r) => [r.target, r.ok]), [["hook", false], ["local", true]]);
+    assert.match(first[1].lineHash!, /^0x[0-9a-f]{64}$/);
+
+    await anchorRoot(meta, { anchorsDir: dir, targets: [file, hook] });
+    const receipts = await readReceipts(dir, "2026-01-02");
+    assert.deepEqual(receipts.map((r) => [r.target, r.ok]), [["hook", true], ["local", true]]);
+    // local zaten başarılıydı: ikinci turda tekrar yazılmamalı
+    assert.equal(fs.readFileSync(path.join(dir, "anchors.ndjson"), "utf8").trim().split("\n").length, 1);
+  } finally {
+    delete process.env.ANCHOR_ENABLE;
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("ANCHOR_TARGETS resolves named targets with per-target settings", () => {
+  const ts = anchorTargetsFromEnv("/tmp/a", {
+    ANCHOR_TARGETS: "base=evm,arb=evm,ots,file",
+    ANCHOR_PRIVATE_KEY: "0x01",
+    ANCHOR_BASE_RPC_URL: "http://base",
+    ANCHOR_BASE_CONTRACT_ADDRESS: "0xb",
+    ANCHOR_ARB_RPC_URL: "http://arb",
+    ANCHOR_ARB_CONTRACT_ADDRESS: "0xa",
+  });
+  assert.deepEqual(ts.map((t) => [t.name, t.kind]), [["base", "evm"], ["arb", "evm"], ["ots", "ots"], ["file", "file"]]);
+  assert.throws(() => anchorTargetsFromEnv("/tmp/a", { ANCHOR_TARGETS: "evm" }), /RPC_URL missing/);
+  assert.throws(() => anchorTargetsFromEnv("/tmp/a", { ANCHOR_TARGETS: "ipfs" }), /unknown anchor target/);
+  // ANCHOR_TARGETS yoksa eski tek-hedef davranışı
+  assert.deepEqual(anchorTargetsFromEnv("/tmp/a", { ANCHOR_WEBHOOK_URL: "http://h" }).map((t) => t.kind), ["webhook"]);
+});
+
+test("webhook and OTS calendar requests time out instead of hanging the anchor run", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "anchors-"));
+  // yanıt vermeyen sunucu
+  const srv = http.createServer(() => {});
+  await new Promise<void>((res) => srv.listen(0, "127.0.0.1", res));
+  const url = `http://127.0.0.1:${(srv.address() as any).port}`;
+  try {
+    const meta = { day: "2026-01-02", merkleRoot: ROOT, leafCount: 3, treeVer: 2 };
+    await assert.rejects(webhookProvider("hook", { url, timeoutMs: 100 }).anchor(meta), /timeout after 100ms/);
+    await assert.rejects(
+      otsProvider("ots", { calendars: [url, url], outDir: dir, timeoutMs: 100 }).anchor(meta),
+      /no calendar accepted.*timeout after 100ms.*timeout after 100ms/
+    );
+  } finally {
+    srv.closeAllConnections();
+    srv.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
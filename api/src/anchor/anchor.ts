@@ -1,56 +1,57 @@
 // SPDX-License-Identifier: Apache-2.0
 // api/src/anchor/anchor.ts
 import { anchorOk, anchorFail } from "../metrics.js";
+import type { AnchorProvider, AnchorReceipt } from "./provider.js";
+import { anchorTargetsFromEnv } from "./providers.js";
+import { readReceipts, writeReceipts } from "./receipts.js";
+import { emitEvent } from "../webhooks/bus.js";
+import { DEFAULT_TENANT } from "../keys/scopes.js";
 
-/** Minimal pluggable anchor: webhook veya EVM (opsiyonel). */
-export async function anchorRoot(meta: {
-  day: string;
-  merkleRoot: string | null;
-  leafCount: number;
-}) {
-  if (!process.env.ANCHOR_ENABLE || process.env.ANCHOR_ENABLE === "false") return;
+const ANCHOR_DIR = process.env.ANCHOR_DIR || ".anchors";
 
-  try {
-    const root = meta.merkleRoot;
-    if (!root) return;
+/**
+ * Kökü yapılandırılmış tüm hedeflere (ANCHOR_TARGETS) paralel gönderir ve hedef başına
+ * receipt’i .anchors/<day>.receipts.json’a yazar. Bir hedefin hatası diğerlerinin
+ * başarısını gizlemez; aynı kök için zaten başarılı olan hedefler tekrar denenmez.
+ */
+export async function anchorRoot(
+  meta: { day: string; merkleRoot: string | null; leafCount: number; treeVer?: number },
+  opts: { anchorsDir?: string; targets?: AnchorProvider[]; tenant?: string } = {}
+): Promise<AnchorReceipt[]> {
+  if (!process.env.ANCHOR_ENABLE || process.env.ANCHOR_ENABLE === "false") return [];
+  const root = meta.merkleRoot;
+  if (!root) return [];
 
-    // 1) Webhook (varsayılan)
-    const hook = process.env.ANCHOR_WEBHOOK_URL;
-    if (hook) {
-      // eslint-disable-next-line no-undef
-      const fetchFn = (await import("node-fetch")).default as any;
-      const r = await fetchFn(hook, {
-        method: "POST",
-        headers: { "content-type": "application/json" },
-        body: JSON.stringify({ type: "anchor", ...meta }),
-      });
-      if (!r.ok) throw new Error(`webhook ${r.status}`);
-      anchorOk.inc();
-      return;
-    }
+  const anchorsDir = opts.anchorsDir || ANCHOR_DIR;
+  const targets = opts.targets ?? anchorTargetsFromEnv(anchorsDir);
+  if (!targets.length) return []; // No target configured → noop
 
-    // 2) EVM (opsiyonel)
-    const rpc = process.env.ANCHOR_RPC_URL;
-    const pk = process.env.ANCHOR_PRIVATE_KEY;
-    const addr = process.env.ANCHOR_CONTRACT_ADDRESS;
-    if (rpc && pk && addr) {
-      const { ethers } = await import("ethers");
-      const abi = [
-        "function anchor(bytes32 root, string day, uint256 leafCount) public",
-      ];
-      const provider = new ethers.JsonRpcProvider(rpc);
-      const wallet = new ethers.Wallet(pk, provider);
-      const c = new ethers.Contract(addr, abi, wallet);
-      const tx = await c.anchor(root, meta.day, BigInt(meta.leafCount));
-      await tx.wait();
-      anchorOk.inc();
-      return;
-    }
+  const done = new Set(
+    (await readReceipts(anchorsDir, meta.day)).filter((r) => r.ok && r.merkleRoot === root).map((r) => r.target)
+  );
+  const req = { day: meta.day, merkleRoot: root, leafCount: meta.leafCount, treeVer: meta.treeVer ?? 1 };
 
-    // No target configured → noop
-  } catch (e) {
-    anchorFail.inc();
-    // eslint-disable-next-line no-console
-    console.error("[anchor] failed", e);
-  }
+  const receipts = await Promise.all(
+    targets
+      .filter((t) => !done.has(t.name))
+      .map(async (t): Promise<AnchorReceipt> => {
+        const base = { target: t.name, kind: t.kind, ...req };
+        try {
+          const ev = await t.anchor(req);
+          anchorOk.inc();
+          return { ...base, ...ev, ok: true, at: Date.now() };
+        } catch (e: any) {
+          anchorFail.inc();
+          // eslint-disable-next-line no-console
+          console.error(`[anchor] ${t.name} failed`, e);
+          return { ...base, ok: false, at: Date.now(), error: String(e?.message || e) };
+        }
+      })
+  );
+  if (!receipts.length) return [];
+  const all = await writeReceipts(anchorsDir, meta.day, receipts);
+  const fresh = receipts.filter((r) => r.ok);
+  const tenant = opts.tenant ?? DEFAULT_TENANT;
+  if (fresh.length) emitEvent("root.anchored", { ...req, tenant, receipts: fresh }, tenant);
+  return all;
 }
@@ -0,0 +1,73 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/anchor/dlq.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { AnchorDlq, backoffMs } from "./dlq.js";
+import { readReceipts } from "./receipts.js";
+import type { AnchorReceipt } from "./provider.js";
+
+const failed = (day: string): AnchorReceipt => ({
+  target: "file",
+  kind: "file",
+  ok: false,
+  day,
+  merkleRoot: "0x" + "cd".repeat(32),
+  leafCount: 2,
+  treeVer: 2,
+  at: Date.now(),
+  error: "rpc down",
+});
+
+test("backoff grows exponentially with bounded jitter", () => {
+  assert.equal(backoffMs(1, () => 0), 30_000);
+  assert.equal(backoffMs(1, () => 1), 60_000);
+  assert.equal(backoffMs(3, () => 1), 240_000);
+  assert.equal(backoffMs(50, () => 1), 6 * 3600 * 1000);
+});
+
+test("entries carry day/root/target, retry when due and poison after max attempts", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "dlq-"));
+  process.env.ANCHOR_ENABLE = "true";
+  try {
+    const dlq = new AnchorDlq(null, dir);
+    const e = await dlq.pushFailed(failed("2026-01-02"));
+    assert.equal(e.id, "2026-01-02:file");
+    assert.equal(e.attempts, 1);
+    assert.ok(e.nextAt > Date.now());
+    assert.deepEqual(await dlq.processDue(), []); // henüz vakti gelmedi
+
+    // anchoring kapalıyken deneme yapılmaz: kayıt silinmez, deneme sayılmaz
+    process.env.ANCHOR_TARGETS = "file";
+    process.env.ANCHOR_ENABLE = "false";
+    assert.deepEqual(await dlq.processDue(e.nextAt), [{ id: e.id, result: "skipped" }]);
+    const kept = (await dlq.list("pending"))[0];
+    assert.equal(kept.attempts, 1);
+    assert.ok(kept.nextAt > Date.now()); // tekrar ileri planlandı
+    process.env.ANCHOR_ENABLE = "true";
+
+    // anchoring açık, hedef yapılandırılmış (ANCHOR_TARGETS=file): tekrar başarılı olur
+    assert.deepEqual(await dlq.processDue(kept.nextAt), [{ id: e.id, result: "ok" }]);
+    assert.equal((await dlq.list("pending")).length, 0);
+    assert.ok((await readReceipts(dir, "2026-01-02")).every((r) => r.ok));
+    // tamamlanmış bir kök için tekrar itilen kayıt, hedef yeniden denenmeden silinir
+    const again = await dlq.pushFailed(failed("2026-01-02"));
+    assert.deepEqual(await dlq.processDue(again.nextAt), [{ id: again.id, result: "ok" }]);
+
+    // yapılandırılmamış hedef hemen poison’a düşer; replay geri alır
+    delete process.env.ANCHOR_TARGETS;
+    const p = await dlq.pushFailed(failed("2026-01-03"));
+    assert.deepEqual(await dlq.processDue(p.nextAt), [{ id: p.id, result: "poison" }]);
+    assert.equal((await dlq.list("poison"))[0].lastErr, "target-not-configured");
+    const back = await dlq.replay(p.id);
+    assert.equal(back?.attempts, 0);
+    assert.equal((await dlq.list("poison")).length, 0);
+    assert.equal((await dlq.list("pending")).length, 1);
+  } finally {
+    delete process.env.ANCHOR_ENABLE;
+    delete process.env.ANCHOR_TARGETS;
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,241 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/anchor/dlq.ts
+// Başarısız anchor hedefleri için dead-letter kuyruğu: backoff + jitter ile tekrar, max denemede poison.
+// Redis varsa hash + zset, yoksa .anchors/dlq.json (tek instance). Tenant başına ayrı kuyruk
+// (anchorsDir tenant’ın anchor dizini, Redis anahtarları tenantRedisKey önekli).
+import fs from "node:fs";
+import path from "node:path";
+import client from "prom-client";
+import { registry } from "../metrics/registry.js";
+import { anchorRoot } from "./anchor.js";
+import { anchorTargetsFromEnv } from "./providers.js";
+import { readReceipts } from "./receipts.js";
+import type { AnchorReceipt } from "./provider.js";
+import { DEFAULT_TENANT } from "../keys/scopes.js";
+import { tenantRedisKey } from "../tenant/namespace.js";
+
+export type DlqEntry = {
+  id: string;          // `${day}:${target}`
+  day: string;
+  root: string;
+  leafCount: number;
+  treeVer: number;
+  target: string;
+  attempts: number;    // yapılmış deneme sayısı (ilk anchor dahil)
+  nextAt: number;      // ms
+  lastErr: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type DlqQueue = "pending" | "poison";
+
+/** skipped: anchoring kapalı olduğu için denenmedi */
+export type RetryResult = "ok" | "retry" | "poison" | "skipped";
+
+const BASE_SEC = Number(process.env.ANCHOR_RETRY_BASE_SEC || 60);
+const MAX_SEC = Number(process.env.ANCHOR_RETRY_MAX_SEC || 6 * 3600);
+const MAX_ATTEMPTS = Number(process.env.ANCHOR_RETRY_MAX_ATTEMPTS || 8);
+
+const retryCounter = new client.Counter({
+  name: "privora_anchor_retry_total",
+  help: "Anchor DLQ retry outcomes",
+  labelNames: ["target", "result"], // result: ok | retry | poison | skipped
+  registers: [registry],
+});
+const depthGauge = new client.Gauge({
+  name: "privora_anchor_dlq_depth",
+  help: "Anchor DLQ entries",
+  labelNames: ["queue", "tenant"],
+  registers: [registry],
+});
+
+/** attempts. denemeden sonraki bekleme: base·2^(n-1), üst sınır MAX; yarısı sabit yarısı rastgele (equal jitter) */
+export function backoffMs(attempts: number, rnd: () => number = Math.random) {
+  const exp = Math.min(MAX_SEC, BASE_SEC * 2 ** Math.max(0, attempts - 1)) * 1000;
+  return Math.round(exp / 2 + rnd() * (exp / 2));
+}
+
+interface DlqBackend {
+  put(q: DlqQueue, e: DlqEntry): Promise<void>;
+  get(q: DlqQueue, id: string): Promise<DlqEntry | null>;
+  del(q: DlqQueue, id: string): Promise<void>;
+  list(q: DlqQueue): Promise<DlqEntry[]>;
+  count(q: DlqQueue): Promise<number>;
+  due(now: number, limit: number): Promise<DlqEntry[]>;
+}
+
+class RedisBackend implements DlqBackend {
+  constructor(private redis: any, private tenant: string) {}
+  // eski sürümdeki "privora:anchor:dlq" listesiyle çakışmasın diye ayrı anahtarlar
+  private key(q: DlqQueue) {
+    return tenantRedisKey(this.tenant, q === "pending" ? "privora:anchor:dlq:items" : "privora:anchor:poison");
+  }
+  private get dueKey() { return tenantRedisKey(this.tenant, "privora:anchor:dlq:due"); }
+  async put(q: DlqQueue, e: DlqEntry) {
+    const m = this.redis.multi().hset(this.key(q), e.id, JSON.stringify(e));
+    if (q === "pending") m.zadd(this.dueKey, e.nextAt, e.id);
+    await m.exec();
+  }
+  async get(q: DlqQueue, id: string) {
+    const raw = await this.redis.hget(this.key(q), id);
+    return raw ? (JSON.parse(raw) as DlqEntry) : null;
+  }
+  async del(q: DlqQueue, id: string) {
+    const m = this.redis.multi().hdel(this.key(q), id);
+    if (q === "pending") m.zrem(this.dueKey, id);
+    await m.exec();
+  }
+  async count(q: DlqQueue) {
+    return Number(await this.redis.hlen(this.key(q)));
+  }
+  async list(q: DlqQueue) {
+    const all = await this.redis.hvals(this.key(q));
+    return (all as string[]).map((s) => JSON.parse(s) as DlqEntry).sort((a, b) => a.nextAt - b.nextAt);
+  }
+  async due(now: number, limit: number) {
+    const ids: string[] = await this.redis.zrangebyscore(this.dueKey, 0, now, "LIMIT", 0, limit);
+    if (!ids.length) return [];
+    const raws: (string | null)[] = await this.redis.hmget(this.key("pending"), ...ids);
+    return raws.filter(Boolean).map((s) => JSON.parse(s!) as DlqEntry);
+  }
+}
+
+class FileBackend implements DlqBackend {
+  private tail: Promise<unknown> = Promise.resolve();
+  constructor(private file: string) {}
+  private read(): Record<DlqQueue, Record<string, DlqEntry>> {
+    try {
+      const j = JSON.parse(fs.readFileSync(this.file, "utf8"));
+      return { pending: j.pending || {}, poison: j.poison || {} };
+    } catch {
+      return { pending: {}, poison: {} };
+    }
+  }
+  private mutate(fn: (s: Record<DlqQueue, Record<string, DlqEntry>>) => void) {
+    const run = this.tail.then(async () => {
+      const s = this.read();
+      fn(s);
+      await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+      await fs.promises.writeFile(this.file + ".tmp", JSON.stringify(s, null, 2));
+      await fs.promises.rename(this.file + ".tmp", this.file);
+    });
+    this.tail = run.catch(() => {});
+    return run;
+  }
+  async put(q: DlqQueue, e: DlqEntry) { await this.mutate((s) => { s[q][e.id] = e; }); }
+  async get(q: DlqQueue, id: string) { await this.tail; return this.read()[q][id] ?? null; }
+  async del(q: DlqQueue, id: string) { await this.mutate((s) => { delete s[q][id]; }); }
+  async list(q: DlqQueue) {
+    await this.tail;
+    return Object.values(this.read()[q]).sort((a, b) => a.nextAt - b.nextAt);
+  }
+  async count(q: DlqQueue) { return (await this.list(q)).length; }
+  async due(now: number, limit: number) {
+    return (await this.list("pending")).filter((e) => e.nextAt <= now).slice(0, limit);
+  }
+}
+
+export class AnchorDlq {
+  private backend: DlqBackend;
+
+  constructor(redis: any | null, private anchorsDir: string, readonly tenant = DEFAULT_TENANT) {
+    this.backend = redis ? new RedisBackend(redis, tenant) : new FileBackend(path.join(anchorsDir, "dlq.json"));
+  }
+
+  /** Başarısız receipt’i kuyruğa alır (aynı gün+hedef için tek kayıt; deneme sayısı korunur) */
+  async pushFailed(r: AnchorReceipt, now = Date.now()) {
+    const id = `${r.day}:${r.target}`;
+    const prev = await this.backend.get("pending", id);
+    const attempts = prev && prev.root === r.merkleRoot ? prev.attempts + 1 : 1;
+    const e: DlqEntry = {
+      id,
+      day: r.day,
+      root: r.merkleRoot,
+      leafCount: r.leafCount,
+      treeVer: r.treeVer,
+      target: r.target,
+      attempts,
+      nextAt: now + backoffMs(attempts),
+      lastErr: r.error || "unknown",
+      createdAt: prev?.createdAt ?? now,
+      updatedAt: now,
+    };
+    if (attempts >= MAX_ATTEMPTS) await this.toPoison(e);
+    else await this.backend.put("pending", e);
+    await this.refreshDepth();
+    return e;
+  }
+
+  list(q: DlqQueue) {
+    return this.backend.list(q);
+  }
+
+  /** Kaydı deneme sayısını sıfırlayarak hemen tekrar denenmek üzere pending’e alır */
+  async replay(id: string, now = Date.now()) {
+    const e = (await this.backend.get("poison", id)) ?? (await this.backend.get("pending", id));
+    if (!e) return null;
+    await this.backend.del("poison", id);
+    const next = { ...e, attempts: 0, nextAt: now, updatedAt: now };
+    await this.backend.put("pending", next);
+    await this.refreshDepth();
+    return next;
+  }
+
+  /** Zamanı gelen kayıtları ilgili hedefe tekrar gönderir */
+  async processDue(now = Date.now(), limit = 20) {
+    const due = await this.backend.due(now, limit);
+    const out: { id: string; result: RetryResult }[] = [];
+    for (const e of due) {
+      const result = await this.retryOne(e);
+      retryCounter.inc({ target: e.target, result });
+      out.push({ id: e.id, result });
+    }
+    if (due.length) await this.refreshDepth();
+    return out;
+  }
+
+  private async retryOne(e: DlqEntry): Promise<RetryResult> {
+    const target = anchorTargetsFromEnv(this.anchorsDir).find((t) => t.name === e.target);
+    if (!target) {
+      await this.toPoison({ ...e, lastErr: "target-not-configured", updatedAt: Date.now() });
+      return "poison";
+    }
+    const receipts = await anchorRoot(
+      { day: e.day, merkleRoot: e.root, leafCount: e.leafCount, treeVer: e.treeVer },
+      { anchorsDir: this.anchorsDir, targets: [target], tenant: this.tenant }
+    );
+    // kayıt yalnız bu kök için diskte başarılı bir receipt varsa silinir
+    const stored = (await readReceipts(this.anchorsDir, e.day)).find((r) => r.target === e.target && r.merkleRoot === e.root);
+    if (stored?.ok) {
+      await this.backend.del("pending", e.id);
+      return "ok";
+    }
+    const failed = receipts.find((r) => r.target === e.target && !r.ok && r.merkleRoot === e.root);
+    // deneme yapılmadı (ANCHOR_ENABLE kapalı): deneme sayılmaz, kayıt bekleyen kalır
+    if (!failed) {
+      await this.backend.put("pending", { ...e, nextAt: Date.now() + backoffMs(Math.max(1, e.attempts)), updatedAt: Date.now() });
+      return "skipped";
+    }
+    const attempts = e.attempts + 1;
+    const next = { ...e, attempts, lastErr: failed.error || "unknown", updatedAt: Date.now() };
+    if (attempts >= MAX_ATTEMPTS) {
+      await this.toPoison(next);
+      return "poison";
+    }
+    await this.backend.put("pending", { ...next, nextAt: Date.now() + backoffMs(attempts) });
+    return "retry";
+  }
+
+  private async toPoison(e: DlqEntry) {
+    await this.backend.del("pending", e.id);
+    await this.backend.put("poison", e);
+    // eslint-disable-next-line no-console
+    console.error(`[anchor-dlq] poisoned ${e.id} after ${e.attempts} attempts: ${e.lastErr}`);
+  }
+
+  private async refreshDepth() {
+    depthGauge.set({ queue: "pending", tenant: this.tenant }, await this.backend.count("pending"));
+    depthGauge.set({ queue: "poison", tenant: this.tenant }, await this.backend.count("poison"));
+  }
+}
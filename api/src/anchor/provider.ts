@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/anchor/provider.ts
+// Anchor hedefleri için ortak sözleşme; implementasyonlar anchor/providers.ts’de
+
+export type AnchorKind = "webhook" | "evm" | "ots" | "file";
+
+export type AnchorRequest = {
+  day: string;
+  merkleRoot: string;
+  leafCount: number;
+  treeVer: number;
+};
+
+/** Hedefe özgü kanıt alanları (hangisi dolu olduğu kind’a bağlı) */
+export type AnchorEvidence = {
+  txHash?: string;
+  blockNumber?: number;
+  chainId?: string;
+  contract?: string;
+  calendarUrl?: string;
+  calendars?: { url: string; otsFile: string }[];
+  httpStatus?: number;
+  responseDigest?: string; // webhook yanıt gövdesinin sha256’sı
+  file?: string;
+  lineHash?: string;
+};
+
+/** .anchors/<day>.receipts.json içinde hedef başına bir kayıt */
+export type AnchorReceipt = AnchorEvidence & {
+  target: string;
+  kind: AnchorKind;
+  ok: boolean;
+  day: string;
+  merkleRoot: string;
+  leafCount: number;
+  treeVer: number;
+  at: number;
+  error?: string;
+};
+
+export interface AnchorProvider {
+  /** ANCHOR_TARGETS içindeki ad (aynı kind’dan birden fazla hedef olabilir) */
+  readonly name: string;
+  readonly kind: AnchorKind;
+  /** Başarısızlıkta throw eder; receipt’i çağıran (anchorRoot) kurar */
+  anchor(req: AnchorRequest): Promise<AnchorEvidence>;
+}
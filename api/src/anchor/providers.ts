@@ -0,0 +1,199 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/anchor/providers.ts
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+import type { AnchorEvidence, AnchorKind, AnchorProvider, AnchorRequest } from "./provider.js";
+import { fromHex0x } from "../crypto/merkle.js";
+
+const sha256hex = (b: Buffer | string) => crypto.createHash("sha256").update(b).digest("hex");
+
+const TIMEOUT_MS = Number(process.env.ANCHOR_TIMEOUT_MS || 10000);
+
+/** POST + yanıt gövdesinin okunması tek süre sınırı içinde; aşılırsa istek iptal edilir */
+async function postWithTimeout<T>(url: string, init: Record<string, unknown>, timeoutMs: number, read: (r: any) => Promise<T>) {
+  // eslint-disable-next-line no-undef
+  const fetchFn = (await import("node-fetch")).default as any;
+  const ctl = new AbortController();
+  const timer = setTimeout(() => ctl.abort(), timeoutMs);
+  try {
+    return await read(await fetchFn(url, { method: "POST", ...init, signal: ctl.signal }));
+  } catch (e) {
+    if (ctl.signal.aborted) throw new Error(`timeout after ${timeoutMs}ms`);
+    throw e;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/* ---------------------------
+ * Webhook: POST {type:"anchor", ...} → yanıt gövdesinin özeti
+ * --------------------------*/
+export function webhookProvider(name: string, opts: { url: string; timeoutMs?: number }): AnchorProvider {
+  return {
+    name,
+    kind: "webhook",
+    async anchor(req) {
+      const { status, ok, body } = await postWithTimeout(
+        opts.url,
+        { headers: { "content-type": "application/json" }, body: JSON.stringify({ type: "anchor", ...req }) },
+        opts.timeoutMs ?? TIMEOUT_MS,
+        async (r) => ({ status: r.status as number, ok: r.ok as boolean, body: (await r.text()) as string })
+      );
+      if (!ok) throw new Error(`webhook ${status}`);
+      return { httpStatus: status, responseDigest: "0x" + sha256hex(body) };
+    },
+  };
+}
+
+/* ---------------------------
+ * EVM: anchor(bytes32 root, string day, uint256 leafCount)
+ * --------------------------*/
+export function evmProvider(
+  name: string,
+  opts: { rpcUrl: string; privateKey: string; contract: string; confirmations?: number }
+): AnchorProvider {
+  return {
+    name,
+    kind: "evm",
+    async anchor(req) {
+      const { ethers } = await import("ethers");
+      const abi = ["function anchor(bytes32 root, string day, uint256 leafCount) public"];
+      const provider = new ethers.JsonRpcProvider(opts.rpcUrl);
+      const wallet = new ethers.Wallet(opts.privateKey, provider);
+      const c = new ethers.Contract(opts.contract, abi, wallet);
+      // v1 kökleri çıplak hex; bytes32 için 0x önekini garanti et
+      const root = "0x" + fromHex0x(req.merkleRoot).toString("hex");
+      const tx = await c.anchor(root, req.day, BigInt(req.leafCount));
+      const rc = await tx.wait(opts.confirmations ?? 1);
+      const net = await provider.getNetwork();
+      return {
+        txHash: tx.hash,
+        blockNumber: rc?.blockNumber,
+        chainId: net.chainId.toString(),
+        contract: opts.contract,
+      };
+    },
+  };
+}
+
+/* ---------------------------
+ * OpenTimestamps: kök (32 bayt) calendar’lara gönderilir, dönen bekleyen
+ * timestamp’ler .ots dosyası olarak kaydedilir (`ots upgrade` ile tamamlanır)
+ * --------------------------*/
+const OTS_HEADER = Buffer.concat([
+  Buffer.from("004f70656e54696d657374616d7073000050726f6f6600bf89e2e884e89294", "hex"), // magic
+  Buffer.from([0x01]), // major version
+  Buffer.from([0x08]), // file hash op: sha256
+]);
+
+export function otsProvider(name: string, opts: { calendars: string[]; outDir: string; timeoutMs?: number }): AnchorProvider {
+  return {
+    name,
+    kind: "ots",
+    async anchor(req) {
+      const digest = fromHex0x(req.merkleRoot);
+      if (digest.length !== 32) throw new Error("ots requires a 32-byte root");
+      const calendars: { url: string; otsFile: string }[] = [];
+      const errors: string[] = [];
+      for (const [i, url] of opts.calendars.entries()) {
+        try {
+          // süre sınırı calendar başına: yavaş bir calendar diğerlerini bekletmez
+          const ts = await postWithTimeout(
+            `${url.replace(/\/$/, "")}/digest`,
+            {
+              headers: {
+                accept: "application/vnd.opentimestamps.v1",
+                "content-type": "application/x-www-form-urlencoded",
+              },
+              body: digest,
+            },
+            opts.timeoutMs ?? TIMEOUT_MS,
+            async (r) => {
+              if (!r.ok) throw new Error(`${r.status}`);
+              return Buffer.from(await r.arrayBuffer());
+            }
+          );
+          const otsFile = path.join(opts.outDir, `${req.day}.${name}.${i}.ots`);
+          await fs.promises.writeFile(otsFile, Buffer.concat([OTS_HEADER, digest, ts]));
+          calendars.push({ url, otsFile });
+        } catch (e: any) {
+          errors.push(`${url}: ${e?.message || e}`);
+        }
+      }
+      if (!calendars.length) throw new Error(`ots: no calendar accepted (${errors.join("; ")})`);
+      return { calendarUrl: calendars[0].url, calendars };
+    },
+  };
+}
+
+/* ---------------------------
+ * Local file: append-only NDJSON (offline / test ortamı)
+ * --------------------------*/
+export function localFileProvider(name: string, opts: { file: string }): AnchorProvider {
+  return {
+    name,
+    kind: "file",
+    async anchor(req: AnchorRequest): Promise<AnchorEvidence> {
+      await fs.promises.mkdir(path.dirname(opts.file), { recursive: true });
+      const line = JSON.stringify({ ...req, at: Date.now() });
+      await fs.promises.appendFile(opts.file, line + "\n");
+      return { file: opts.file, lineHash: "0x" + sha256hex(line) };
+    },
+  };
+}
+
+/* ---------------------------
+ * Env → hedef listesi
+ *   ANCHOR_TARGETS=webhook,evm,ots,file   veya   ANCHOR_TARGETS=base=evm,arb=evm,ots
+ *   Hedef ayarı önce ANCHOR_<NAME>_<VAR>, sonra ANCHOR_<VAR> olarak okunur
+ *   (ör. ANCHOR_BASE_RPC_URL, yoksa ANCHOR_RPC_URL).
+ *   ANCHOR_TARGETS boşsa eski davranış: webhook URL’i varsa webhook, yoksa EVM ayarları.
+ * --------------------------*/
+const KINDS: AnchorKind[] = ["webhook", "evm", "ots", "file"];
+const DEFAULT_OTS_CALENDARS = "https://a.pool.opentimestamps.org,https://b.pool.opentimestamps.org";
+
+export function anchorTargetsFromEnv(anchorsDir: string, env: NodeJS.ProcessEnv = process.env): AnchorProvider[] {
+  let specs = String(env.ANCHOR_TARGETS || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  if (!specs.length) {
+    if (env.ANCHOR_WEBHOOK_URL) specs = ["webhook"];
+    else if (env.ANCHOR_RPC_URL && env.ANCHOR_PRIVATE_KEY && env.ANCHOR_CONTRACT_ADDRESS) specs = ["evm"];
+  }
+
+  const out: AnchorProvider[] = [];
+  for (const spec of specs) {
+    const [name, kindRaw] = spec.includes("=") ? spec.split("=", 2) : [spec, spec];
+    const kind = kindRaw as AnchorKind;
+    if (!KINDS.includes(kind)) throw new Error(`unknown anchor target kind: ${spec}`);
+    if (out.some((p) => p.name === name)) throw new Error(`duplicate anchor target: ${name}`);
+    const get = (v: string) => env[`ANCHOR_${name.toUpperCase()}_${v}`] || env[`ANCHOR_${v}`] || "";
+    const need = (v: string) => {
+      const x = get(v);
+      if (!x) throw new Error(`anchor target ${name}: ANCHOR_${v} missing`);
+      return x;
+    };
+
+    const timeoutMs = Number(get("TIMEOUT_MS") || TIMEOUT_MS);
+
+    if (kind === "webhook") out.push(webhookProvider(name, { url: need("WEBHOOK_URL"), timeoutMs }));
+    else if (kind === "evm") {
+      out.push(
+        evmProvider(name, {
+          rpcUrl: need("RPC_URL"),
+          privateKey: need("PRIVATE_KEY"),
+          contract: need("CONTRACT_ADDRESS"),
+          confirmations: Number(get("CONFIRMATIONS") || 1),
+        })
+      );
+    } else if (kind === "ots") {
+      const calendars = (get("OTS_CALENDARS") || DEFAULT_OTS_CALENDARS).split(",").map((s) => s.trim()).filter(Boolean);
+      out.push(otsProvider(name, { calendars, outDir: anchorsDir, timeoutMs }));
+    } else {
+      out.push(localFileProvider(name, { file: get("FILE") || path.join(anchorsDir, "anchors.ndjson") }));
+    }
+  }
+  return out;
+}
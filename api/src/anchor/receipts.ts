@@ -0,0 +1,72 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/anchor/receipts.ts
+// .anchors/<day>.root.json + .anchors/<day>.receipts.json okuma/yazma yardımcıları
+import fs from "node:fs";
+import path from "node:path";
+import type { AnchorReceipt } from "./provider.js";
+import { superRootDir } from "../tenant/namespace.js";
+
+const ANCHOR_DIR = process.env.ANCHOR_DIR || ".anchors";
+
+export function rootRecordPath(anchorsDir: string, day: string) {
+  return path.join(anchorsDir, `${day}.root.json`);
+}
+
+export function receiptsPath(anchorsDir: string, day: string) {
+  return path.join(anchorsDir, `${day}.receipts.json`);
+}
+
+async function readJson(fp: string): Promise<any | null> {
+  const raw = await fs.promises.readFile(fp, "utf8").catch(() => "");
+  if (!raw) return null;
+  try { return JSON.parse(raw); } catch { return null; }
+}
+
+/** Günün hedef başına receipt’leri (hedef adına göre tekil) */
+export async function readReceipts(anchorsDir: string, day: string): Promise<AnchorReceipt[]> {
+  const j = await readJson(receiptsPath(anchorsDir, day));
+  return Array.isArray(j?.receipts) ? j.receipts : [];
+}
+
+/**
+ * Receipt’leri hedef adına göre birleştirir. Aynı kök için başarılı bir receipt,
+ * sonraki başarısız denemeyle ezilmez.
+ */
+export async function writeReceipts(anchorsDir: string, day: string, incoming: AnchorReceipt[]) {
+  const byTarget = new Map<string, AnchorReceipt>();
+  for (const r of await readReceipts(anchorsDir, day)) byTarget.set(r.target, r);
+  for (const r of incoming) {
+    const prev = byTarget.get(r.target);
+    if (prev?.ok && !r.ok && prev.merkleRoot === r.merkleRoot) continue;
+    byTarget.set(r.target, r);
+  }
+  const receipts = [...byTarget.values()].sort((a, b) => a.target.localeCompare(b.target));
+  const fp = receiptsPath(anchorsDir, day);
+  await fs.promises.mkdir(anchorsDir, { recursive: true });
+  await fs.promises.writeFile(fp + ".tmp", JSON.stringify({ day, receipts }, null, 2));
+  await fs.promises.rename(fp + ".tmp", fp);
+  return receipts;
+}
+
+/**
+ * root.json kaydının receipt’leri. Kayıt super-root’a bağlıysa (SUPER_ROOT_ENABLE) hedeflere
+ * giden super-root’tur: receipt’ler super-root dizininden, super köke ait olanlar.
+ */
+export async function receiptsForRecord(
+  anchorsDir: string,
+  rec: { day: string; merkleRoot: string | null; superRoot?: { merkleRoot: string } }
+) {
+  const [dir, root] = rec.superRoot ? [superRootDir(ANCHOR_DIR), rec.superRoot.merkleRoot] : [anchorsDir, rec.merkleRoot];
+  return (await readReceipts(dir, rec.day)).filter((r) => r.merkleRoot === root);
+}
+
+/**
+ * Gün için anchor kayıtları (root.json + hedef receipt’leri). merkleRoot verilirse
+ * sadece o köke ait olanlar döner (gün içi kök ile gün sonu anchor’ı karışmasın).
+ */
+export async function readAnchorRecords(anchorsDir: string, day: string, merkleRoot?: string | null) {
+  const rec = await readJson(rootRecordPath(anchorsDir, day));
+  if (!rec) return [];
+  if (merkleRoot && rec.merkleRoot !== merkleRoot) return [];
+  return [{ ...rec, receipts: await receiptsForRecord(anchorsDir, rec) }];
+}
@@ -0,0 +1,46 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/anchor/super-root.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { ProofStore } from "../store/proof-store.js";
+import { anchorSuperRoot } from "../cron/daily-anchor.js";
+import { rootRecordPath } from "./receipts.js";
+import { verifySuperRootLink } from "./super-root.js";
+
+test("super-root commits every tenant root and each tenant can verify its own link", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "super-"));
+  try {
+    const tenants = ["acme", "globex", "initech"].map((id) => ({
+      id,
+      dataDir: path.join(dir, "data", id),
+      anchorsDir: path.join(dir, "anchors", id),
+    }));
+    for (const [i, t] of tenants.entries()) {
+      const store = new ProofStore(t.dataDir);
+      for (let n = 0; n <= i; n++) {
+        await store.append({ jobId: `${t.id}-${n}`, proofHash: "0x" + (i * 10 + n).toString(16).padStart(64, "0"), createdAt: 1 });
+      }
+    }
+    const day = new Date().toISOString().slice(0, 10);
+    const superDir = path.join(dir, "anchors", "super");
+    const out = await anchorSuperRoot(tenants, day, superDir);
+    assert.ok(out);
+    assert.equal(out.root.leafCount, 3);
+    assert.deepEqual(out.root.tenants.map((t) => t.tenant), ["acme", "globex", "initech"]);
+    assert.equal(JSON.parse(fs.readFileSync(rootRecordPath(superDir, day), "utf8")).merkleRoot, out.root.merkleRoot);
+
+    for (const t of tenants) {
+      const rec = JSON.parse(fs.readFileSync(rootRecordPath(t.anchorsDir, day), "utf8"));
+      assert.equal(rec.superRoot.merkleRoot, out.root.merkleRoot);
+      assert.ok(verifySuperRootLink(rec, rec.superRoot));
+      // başka tenant’ın kökü bu bağlantıyla doğrulanamaz
+      assert.ok(!verifySuperRootLink({ ...rec, merkleRoot: "0x" + "0".repeat(64) }, rec.superRoot));
+      assert.ok(!verifySuperRootLink({ ...rec, tenant: "mallory" }, rec.superRoot));
+    }
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
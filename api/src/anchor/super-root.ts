@@ -0,0 +1,55 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/anchor/super-root.ts
+// Super-root: günün tüm tenant köklerini tek bir RFC 6962 ağacında toplar; hedeflere yalnız bu kök
+// anchor’lanır (anchor maliyeti tenant sayısından bağımsız). Yapraklar tenant adına göre sıralıdır.
+// Her tenant’ın <day>.root.json’una kendi bağlantısı (superRoot) yazılır; doğrulayan
+// tenant kökü → super-root → receipt zincirini başka tenant’ın verisini görmeden kurar.
+import {
+  leafHash,
+  merklePath,
+  merkleRoot,
+  toHex0x,
+  verifyMerkleProof,
+  type MerkleBranch,
+} from "../crypto/merkle.js";
+
+export type TenantRoot = { tenant: string; day: string; treeVer: number; leafCount: number; merkleRoot: string };
+
+export type SuperRootLink = {
+  merkleRoot: `0x${string}`; // super-root
+  treeVer: 2;
+  treeSize: number;          // kökü olan tenant sayısı
+  leafIndex: number;
+  leafHash: `0x${string}`;
+  branch: MerkleBranch;
+};
+
+/** Tenant kökünün super-root yaprağı; alanlar sabit sırada, satır sonuyla ayrılmış */
+export function superRootLeaf(r: TenantRoot): Buffer {
+  return leafHash(["privora-tenant-root:v1", r.tenant, r.day, r.treeVer, r.leafCount, r.merkleRoot.toLowerCase()].join("\n"));
+}
+
+export function buildSuperRoot(roots: TenantRoot[]) {
+  const sorted = [...roots].sort((a, b) => (a.tenant < b.tenant ? -1 : a.tenant > b.tenant ? 1 : 0));
+  if (new Set(sorted.map((r) => r.tenant)).size !== sorted.length) throw new Error("duplicate tenant in super-root");
+  const leaves = sorted.map(superRootLeaf);
+  const root = toHex0x(merkleRoot(leaves));
+  const links = new Map<string, SuperRootLink>();
+  sorted.forEach((r, i) =>
+    links.set(r.tenant, {
+      merkleRoot: root,
+      treeVer: 2,
+      treeSize: leaves.length,
+      leafIndex: i,
+      leafHash: toHex0x(leaves[i]),
+      branch: merklePath(leaves, i),
+    })
+  );
+  return { merkleRoot: root, treeSize: leaves.length, tenants: sorted, links };
+}
+
+/** Tenant kökünün super-root’a dahil olduğunu doğrular */
+export function verifySuperRootLink(r: TenantRoot, link: SuperRootLink) {
+  const leaf = toHex0x(superRootLeaf(r));
+  return leaf === link.leafHash && verifyMerkleProof(leaf, link.branch, link.merkleRoot, 2);
+}
@@ -1,17 +1,24 @@
 // SPDX-License-Identifier: Apache-2.0
 // api/src/cron/anchor-retry.ts
 import cron from "node-cron";
+import type { AnchorDlq } from "../anchor/dlq.js";
 
-export function scheduleAnchorRetry(redis: any) {
-  if (!redis) return;
-  cron.schedule("*/5 * * * *", async () => {
-    try {
-      const item = await redis.lpop("privora:anchor:dlq");
-      if (!item) return;
-      // Şimdilik sadece logla; ileride zincire yazma/harici servis çağrısı eklenebilir
-      console.warn("[anchor-dlq] retry placeholder", item);
-    } catch {
-      // ignore
+const RETRY_SCHEDULE = process.env.ANCHOR_RETRY_SCHEDULE || "* * * * *"; // her dakika; backoff nextAt’e göre
+
+/** dlqs: tenant DLQ’ları + super-root DLQ’su (her çalışmada güncel liste) */
+export function scheduleAnchorRetry(dlqs: () => Promise<AnchorDlq[]>) {
+  return cron.schedule(RETRY_SCHEDULE, async () => {
+    for (const dlq of await dlqs().catch(() => [] as AnchorDlq[])) {
+      try {
+        const done = await dlq.processDue();
+        for (const d of done) {
+          // eslint-disable-next-line no-console
+          if (d.result !== "ok") console.warn(`[anchor-dlq] ${dlq.tenant}/${d.id} → ${d.result}`);
+        }
+      } catch (e) {
+        // eslint-disable-next-line no-console
+        console.error(`[anchor-dlq] ${dlq.tenant} error`, e);
+      }
     }
-  });
+  }, { timezone: "UTC" });
 }
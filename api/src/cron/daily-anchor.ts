@@ -1,35 +1,127 @@
 // SPDX-License-Identifier: Apache-2.0
 // api/src/cron/daily-anchor.ts
 import fs from "node:fs";
-import path from "node:path";
 import cron from "node-cron";
-import type { ProofStore } from "../store/proof-store.js";
-
-let redis: any = null;
-export function setAnchorRedis(r: any) { redis = r; }
+import { computeDayRoot } from "../store/day-file.js";
+import { dayFilePath } from "../store/proof-store.js";
+import { anchorRoot } from "../anchor/anchor.js";
+import { rootRecordPath } from "../anchor/receipts.js";
+import { buildSuperRoot, type SuperRootLink } from "../anchor/super-root.js";
+import type { AnchorDlq } from "../anchor/dlq.js";
+import { DEFAULT_TENANT } from "../keys/scopes.js";
+import { SUPER_ROOT_TENANT, superRootDir } from "../tenant/namespace.js";
 
 const ANCHOR_DIR = process.env.ANCHOR_DIR || ".anchors";
 const ANCHOR_SCHEDULE = process.env.ANCHOR_SCHEDULE || "5 0 * * *"; // UTC 00:05
+// true: tenant kökleri tek tek değil, tek super-root altında anchor’lanır
+const SUPER_ROOT = (process.env.SUPER_ROOT_ENABLE || "").toLowerCase() === "true";
+
+export type AnchorTenant = { id: string; dataDir: string; anchorsDir: string; dlq: AnchorDlq };
+
+type RootRecord = {
+  day: string;
+  tenant: string;
+  treeVer: number;
+  merkleRoot: string | null;
+  leafCount: number;
+  file: string;
+  createdAt: number;
+  superRoot?: SuperRootLink;
+};
+
+async function dayRootRecord(dataDir: string, day: string, tenant: string): Promise<RootRecord | null> {
+  const fp = dayFilePath(dataDir, day);
+  if (!fs.existsSync(fp)) return null;
+  const res = await computeDayRoot(fp);
+  return {
+    day,
+    tenant,
+    treeVer: res.treeVer,
+    merkleRoot: res.merkleRoot,
+    leafCount: res.leafCount,
+    file: fp,
+    createdAt: Date.now(),
+  };
+}
+
+async function writeRootRecord(anchorsDir: string, rec: { day: string; [k: string]: unknown }) {
+  await fs.promises.mkdir(anchorsDir, { recursive: true });
+  await fs.promises.writeFile(rootRecordPath(anchorsDir, rec.day), JSON.stringify(rec, null, 2));
+}
 
-export function scheduleDailyAnchor(store: ProofStore) {
+/** Biten günün kökünü dosyadan hesaplar, root.json yazar ve hedeflere anchor’lar */
+export async function anchorDay(dataDir: string, day: string, opts: { anchorsDir?: string; tenant?: string } = {}) {
+  const anchorsDir = opts.anchorsDir || ANCHOR_DIR;
+  const tenant = opts.tenant || DEFAULT_TENANT;
+  const out = await dayRootRecord(dataDir, day, tenant);
+  if (!out) return null;
+  await writeRootRecord(anchorsDir, out);
+  const receipts = await anchorRoot(out, { anchorsDir, tenant });
+  return { root: out, receipts };
+}
+
+/**
+ * Günün tüm tenant köklerini super-root’ta toplar: her tenant’ın root.json’u kendi bağlantısıyla,
+ * super-root kaydı (tenant kökleri listesiyle) superDir’e yazılır; yalnız super-root anchor’lanır.
+ */
+export async function anchorSuperRoot(
+  tenants: Pick<AnchorTenant, "id" | "dataDir" | "anchorsDir">[],
+  day: string,
+  superDir = superRootDir(ANCHOR_DIR)
+) {
+  const recs: { t: (typeof tenants)[number]; rec: RootRecord & { merkleRoot: string } }[] = [];
+  for (const t of tenants) {
+    const rec = await dayRootRecord(t.dataDir, day, t.id);
+    if (rec?.merkleRoot) recs.push({ t, rec: rec as RootRecord & { merkleRoot: string } });
+  }
+  if (!recs.length) return null;
+
+  const sup = buildSuperRoot(recs.map(({ rec }) => rec));
+  for (const { t, rec } of recs) await writeRootRecord(t.anchorsDir, { ...rec, superRoot: sup.links.get(rec.tenant) });
+
+  const out = {
+    day,
+    treeVer: 2,
+    merkleRoot: sup.merkleRoot,
+    leafCount: sup.treeSize,
+    tenants: sup.tenants.map(({ tenant, treeVer, leafCount, merkleRoot }) => ({ tenant, treeVer, leafCount, merkleRoot })),
+    createdAt: Date.now(),
+  };
+  await writeRootRecord(superDir, out);
+  const receipts = await anchorRoot(out, { anchorsDir: superDir, tenant: SUPER_ROOT_TENANT });
+  return { root: out, receipts };
+}
+
+/** superDlq: super-root modunda başarısız hedefler (tenant modunda her tenant’ın kendi DLQ’su) */
+export function scheduleDailyAnchor(tenants: () => Promise<AnchorTenant[]>, superDlq: AnchorDlq) {
   fs.mkdirSync(ANCHOR_DIR, { recursive: true });
-  cron.schedule(ANCHOR_SCHEDULE, async () => {
-    try {
-      const snap = store.currentRoot();
-      const day = snap?.day || new Date().toISOString().slice(0,10);
-      const out = {
-        day,
-        merkleRoot: snap?.merkleRoot ?? null,
-        leafCount: snap?.leafCount ?? 0,
-        file: snap?.file ?? null,
-        createdAt: Date.now()
-      };
-      const fp = path.join(ANCHOR_DIR, `${day}.root.json`);
-      await fs.promises.writeFile(fp, JSON.stringify(out, null, 2));
-    } catch (e) {
-      // DLQ: Redis varsa kuyruğa at
-      if (redis) {
-        await redis.rpush("privora:anchor:dlq", JSON.stringify({ ts: Date.now(), err: String(e) }));
+  return cron.schedule(ANCHOR_SCHEDULE, async () => {
+    // 00:05’te bugünün dosyası yeni açılmıştır; anchor’lanan dün (kapanmış gün)
+    const day = new Date(Date.now() - 86_400_000).toISOString().slice(0, 10);
+    const list = await tenants().catch((e) => {
+      // eslint-disable-next-line no-console
+      console.error(`[anchor-cron] ${day} tenants unavailable`, e);
+      return [] as AnchorTenant[];
+    });
+    if (SUPER_ROOT) {
+      try {
+        const r = await anchorSuperRoot(list, day);
+        for (const f of r?.receipts.filter((x) => !x.ok) ?? []) await superDlq.pushFailed(f);
+      } catch (e) {
+        // eslint-disable-next-line no-console
+        console.error(`[anchor-cron] ${day} super-root failed`, e);
+      }
+      return;
+    }
+    for (const t of list) {
+      try {
+        const r = await anchorDay(t.dataDir, day, { anchorsDir: t.anchorsDir, tenant: t.id });
+        // hedef bazlı hatalar kaybolmasın: day/root/target ile DLQ’ya (backoff’lu tekrar, bkz. cron/anchor-retry.ts)
+        for (const f of r?.receipts.filter((x) => !x.ok) ?? []) await t.dlq.pushFailed(f);
+      } catch (e) {
+        // kök hesaplanamadı / receipt yazılamadı: DLQ’ya konacak kök yok, yüksek sesle logla
+        // eslint-disable-next-line no-console
+        console.error(`[anchor-cron] ${t.id} ${day} failed`, e);
       }
     }
   }, { timezone: "UTC" });
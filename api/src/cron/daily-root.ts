@@ -2,12 +2,12 @@
 import fs from "node:fs";
 import path from "node:path";
 import cron from "node-cron";
-import { computeRootFromNdjsonStream, todayNdjson } from "../lib/proofStream.js";
+import { computeDayRoot } from "../store/day-file.js";
+import { dayFilePath } from "../store/proof-store.js";
 import { notifyAlert } from "../lib/alerts.js";
 import { dualAnchorForDay } from "../anchor/dual.js";
 
 const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), "api/.data");
-const ROOT_ALGO = (process.env.MERKLE_LEAF_HASH || "sha256") as "sha256" | "keccak";
 const CRON_EXPR = process.env.ROOT_SCHEDULE || "5 0 * * *"; // 00:05 UTC
 const TZ = process.env.TZ || "UTC";
 const MAX_RETRY = parseInt(process.env.ROOT_RETRY || "2", 10);
@@ -23,33 +23,30 @@ async function doOnce(dayFile: string) {
   const dayKey = dayStr.replace(/-/g, "");
 
   console.log(`[cron] computing daily root for ${path.basename(dayFile)}…`);
-  const res = await computeRootFromNdjsonStream({
-    file: dayFile,
-    leafHash: ROOT_ALGO,
-    progressEvery: 200_000,
-  });
+  // Kök, dosyanın header’ındaki treeVer ile hesaplanır (bkz. crypto/merkle.ts)
+  const res = await computeDayRoot(dayFile);
 
-  fs.writeFileSync(outRootFile, (res.rootHex ?? "") + "\n", { encoding: "utf8", mode: 0o600 });
+  fs.writeFileSync(outRootFile, (res.merkleRoot ?? "") + "\n", { encoding: "utf8", mode: 0o600 });
   fs.writeFileSync(
     outMetaFile,
     JSON.stringify(
-      { day: dayStr, algo: res.algo, count: res.count, root: res.rootHex, at: new Date().toISOString() },
+      { day: dayStr, treeVer: res.treeVer, count: res.leafCount, root: res.merkleRoot, at: new Date().toISOString() },
       null, 2),
     { encoding: "utf8", mode: 0o600 }
   );
 
   lastRootAt = Date.now();
-  lastRootHex = res.rootHex ?? null;
+  lastRootHex = res.merkleRoot ?? null;
 
-  console.log(`[cron] root=${res.rootHex} count=${res.count}`);
-  if (!res.rootHex || res.count === 0) {
-    await notifyAlert("warn", `Daily root computed with anomalies (root=${res.rootHex}, count=${res.count})`);
+  console.log(`[cron] root=${res.merkleRoot} count=${res.leafCount} treeVer=${res.treeVer}`);
+  if (!res.merkleRoot || res.leafCount === 0) {
+    await notifyAlert("warn", `Daily root computed with anomalies (root=${res.merkleRoot}, count=${res.leafCount})`);
     return;
   }
 
   // Dual-anchor (L2 + OTS) — env sağlanmışsa L2 tx atılır, OTS stub kaydı yazılır
   try {
-    const anchor = await dualAnchorForDay(dayKey, res.rootHex!, res.count);
+    const anchor = await dualAnchorForDay(dayKey, res.merkleRoot, res.leafCount);
     console.log(`[cron] dual-anchor ok`, anchor);
   } catch (e: any) {
     console.error("[cron] dual-anchor failed:", e?.message || e);
@@ -58,7 +55,7 @@ async function doOnce(dayFile: string) {
 }
 
 export async function runDailyRootNow(): Promise<void> {
-  const dayFile = todayNdjson(DATA_DIR);
+  const dayFile = dayFilePath(DATA_DIR, new Date().toISOString().slice(0, 10));
   if (!fs.existsSync(dayFile)) {
     console.warn(`[cron] no NDJSON for today: ${dayFile}`);
     await notifyAlert("info", `No NDJSON for today (${path.basename(dayFile)}); skipping root.`);
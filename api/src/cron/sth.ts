@@ -0,0 +1,46 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/cron/sth.ts
+import cron from "node-cron";
+import type { ProofStore } from "../store/proof-store.js";
+import { signTreeHead, type SthLog } from "../store/sth.js";
+import { loadSigningKey } from "../keys/keyProvider.js";
+import { merkleRoot, toHex0x } from "../crypto/merkle.js";
+import { DEFAULT_TENANT } from "../keys/scopes.js";
+
+const STH_SCHEDULE = process.env.STH_SCHEDULE || "*/10 * * * *"; // 10 dakikada bir
+
+/** Anlık ağaç başını imzalayıp STH log’una ekler */
+export async function publishTreeHead(store: ProofStore, log: SthLog, tenant = DEFAULT_TENANT) {
+  const key = await loadSigningKey();
+  if (!key) throw new Error("sth signing key unavailable");
+  const snap = store.currentRoot();
+  const sth = signTreeHead(
+    {
+      day: snap.day,
+      treeVer: snap.treeVer,
+      treeSize: snap.leafCount,
+      rootHash: snap.merkleRoot ?? (snap.treeVer === 2 ? toHex0x(merkleRoot([])) : ""),
+      timestamp: Date.now(),
+      keyId: key.keyId,
+      ...(tenant === DEFAULT_TENANT ? {} : { tenant }),
+    },
+    key.privateKey
+  );
+  await log.append(sth);
+  return sth;
+}
+
+/** tenants: her çalışmada açık tenant’ların güncel listesi */
+export function scheduleSignedTreeHeads(tenants: () => Promise<{ id: string; store: ProofStore; sthLog: SthLog }[]>) {
+  if (process.env.STH_ENABLE === "false") return;
+  return cron.schedule(STH_SCHEDULE, async () => {
+    for (const t of await tenants().catch(() => [])) {
+      try {
+        await publishTreeHead(t.store, t.sthLog, t.id);
+      } catch (e) {
+        // eslint-disable-next-line no-console
+        console.error(`[sth-cron] ${t.id} error`, e);
+      }
+    }
+  }, { timezone: "UTC" });
+}
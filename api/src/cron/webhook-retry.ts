@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/cron/webhook-retry.ts
+import cron from "node-cron";
+import type { WebhookDispatcher } from "../webhooks/dispatcher.js";
+
+const RETRY_SCHEDULE = process.env.WEBHOOK_RETRY_SCHEDULE || "*/15 * * * * *"; // 15 sn; backoff nextAt’e göre
+
+export function scheduleWebhookRetry(dispatcher: WebhookDispatcher) {
+  return cron.schedule(RETRY_SCHEDULE, async () => {
+    try {
+      const done = await dispatcher.processDue();
+      for (const a of done) {
+        // eslint-disable-next-line no-console
+        if (a.state === "failed") console.warn(`[webhooks] ${a.deliveryId} (${a.type}) gave up after ${a.attempt} attempts`);
+      }
+    } catch (e) {
+      // eslint-disable-next-line no-console
+      console.error("[webhooks] retry error", e);
+    }
+  }, { timezone: "UTC" });
+}
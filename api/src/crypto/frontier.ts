@@ -0,0 +1,57 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/crypto/frontier.ts
+/**
+ * Incremental append-only Merkle accumulator (treeVer 2).
+ * Sadece sağ kenar (frontier) tutulur: nodes[i] = 2^i yapraklı tam alt ağacın kökü
+ * (size’ın i. biti 1 ise). append ve root O(log n); tüm yaprak listesi bellekte durmaz.
+ * Kök, crypto/merkle.ts merkleRoot ile birebir aynıdır (bkz. frontier.test.ts).
+ */
+import { nodeHash, sha256Buf, toHex0x, fromHex0x } from "./merkle.js";
+
+export type FrontierState = { size: number; nodes: (string | null)[] };
+
+export class MerkleFrontier {
+  private nodes: (Buffer | null)[] = [];
+  private _size = 0;
+
+  get size() { return this._size; }
+
+  /** leaf = yaprak hash’i (leafHash çıktısı) */
+  append(leaf: Buffer) {
+    let carry = leaf;
+    let i = 0;
+    // ikili sayaç gibi: dolu seviyeleri birleştirip yukarı taşı
+    while (i < this.nodes.length && this.nodes[i]) {
+      carry = nodeHash(this.nodes[i]!, carry);
+      this.nodes[i] = null;
+      i++;
+    }
+    this.nodes[i] = carry;
+    this._size++;
+  }
+
+  /** MTH; boş ağaç = SHA256("") */
+  root(): Buffer {
+    let acc: Buffer | null = null;
+    // küçükten büyüğe: root = node(S_büyük, node(..., S_küçük))
+    for (const n of this.nodes) {
+      if (!n) continue;
+      acc = acc ? nodeHash(n, acc) : n;
+    }
+    return acc ?? sha256Buf(Buffer.alloc(0));
+  }
+
+  toJSON(): FrontierState {
+    return { size: this._size, nodes: this.nodes.map((n) => (n ? toHex0x(n) : null)) };
+  }
+
+  static fromJSON(st: FrontierState): MerkleFrontier {
+    const f = new MerkleFrontier();
+    f.nodes = st.nodes.map((n) => (n ? fromHex0x(n) : null));
+    f._size = st.size;
+    // size’ın bitleri ile dolu seviyeler örtüşmeli; bozuk snapshot’ı reddet
+    const bits = f.nodes.reduce((acc, n, i) => acc + (n ? 2 ** i : 0), 0);
+    if (bits !== st.size) throw new Error("frontier snapshot inconsistent with size");
+    return f;
+  }
+}
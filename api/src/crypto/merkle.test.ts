@@ -0,0 +1,82 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/crypto/merkle.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import {
+  leafHash,
+  nodeHash,
+  merkleRoot,
+  merklePath,
+  verifyMerkleProof,
+  legacyRootV1,
+  legacyPathV1,
+  legacyLeafHashV1,
+  rootForVersion,
+  toHex0x,
+  consistencyProof,
+  verifyConsistency,
+} from "./merkle.js";
+
+const leaves = (n: number) => Array.from({ length: n }, (_, i) => "0x" + crypto.createHash("sha256").update(String(i)).digest("hex"));
+
+// RFC 6962 §2.1 referans tanımı: k = n’den küçük en büyük 2’nin kuvveti
+function mth(hs: Buffer[]): Buffer {
+  if (hs.length === 1) return hs[0];
+  let k = 1;
+  while (k * 2 < hs.length) k *= 2;
+  return nodeHash(mth(hs.slice(0, k)), mth(hs.slice(k)));
+}
+
+test("v2 root matches the RFC 6962 recursive definition", () => {
+  for (let n = 1; n <= 33; n++) {
+    const hs = leaves(n).map((l) => leafHash(l));
+    assert.deepEqual(merkleRoot(hs), mth(hs), `n=${n}`);
+  }
+});
+
+test("v2 audit paths verify for every index and fail for a wrong leaf", () => {
+  for (const n of [1, 2, 3, 5, 8, 13]) {
+    const hs = leaves(n).map((l) => leafHash(l));
+    const root = toHex0x(merkleRoot(hs));
+    for (let i = 0; i < n; i++) {
+      const branch = merklePath(hs, i);
+      assert.ok(verifyMerkleProof(toHex0x(hs[i]), branch, root), `n=${n} i=${i}`);
+      assert.ok(!verifyMerkleProof(toHex0x(leafHash("other")), branch, root));
+    }
+  }
+});
+
+test("v2 leaf and node hashing are domain separated", () => {
+  const [a, b] = leaves(2).map((l) => leafHash(l));
+  // iç düğüm, 64 baytlık bir yaprak gibi yeniden yorumlanamaz
+  assert.notDeepEqual(nodeHash(a, b), leafHash(Buffer.concat([a, b])));
+});
+
+test("legacy v1 root stays verifiable under its original algorithm", () => {
+  const ls = leaves(7);
+  const root = legacyRootV1(ls)!;
+  assert.equal(rootForVersion(1, ls), root);
+  assert.notEqual(rootForVersion(2, ls), root);
+  for (let i = 0; i < ls.length; i++) {
+    const branch = legacyPathV1(ls, i);
+    assert.ok(verifyMerkleProof(("0x" + legacyLeafHashV1(ls[i])) as `0x${string}`, branch, root as `0x${string}`, 1));
+  }
+});
+
+test("consistency proofs verify for every (m, n) and reject rewritten history", () => {
+  const hs = leaves(20).map((l) => leafHash(l));
+  for (let n = 1; n <= hs.length; n++) {
+    const newRoot = toHex0x(merkleRoot(hs.slice(0, n)));
+    for (let m = 1; m <= n; m++) {
+      const oldRoot = toHex0x(merkleRoot(hs.slice(0, m)));
+      const proof = consistencyProof(hs, m, n);
+      assert.ok(verifyConsistency(m, n, oldRoot, newRoot, proof), `m=${m} n=${n}`);
+      if (m < n) {
+        // eski ağaçta tek yaprak değişmişse kanıt tutmamalı
+        const forged = hs.slice(0, m).map((h, i) => (i === m - 1 ? leafHash("forged") : h));
+        assert.ok(!verifyConsistency(m, n, toHex0x(merkleRoot(forged)), newRoot, proof), `forged m=${m} n=${n}`);
+      }
+    }
+  }
+});
@@ -1,7 +1,28 @@
 // SPDX-License-Identifier: Apache-2.0
 // api/src/crypto/merkle.ts
+/**
+ * Privora Merkle ağacı spesifikasyonu (store, daily-root cron, proof-pack ve SDK aynı kodu izler)
+ *
+ * treeVer 2 (güncel, RFC 6962 tarzı domain separation):
+ *   leaf  = SHA256(0x00 || utf8(leafData))        leafData = proofHash string’i (diskteki haliyle)
+ *   node  = SHA256(0x01 || left || right)
+ *   MTH   = RFC 6962 ağacı; tek kalan düğüm kopyalanmaz, bir üst seviyeye aynen taşınır
+ *           (en büyük 2^k bölmesiyle tanımlanan MTH ile birebir aynı sonuç)
+ *   root  = "0x" + hex
+ *
+ * treeVer 1 (legacy, header’da treeVer olmayan dosyalar):
+ *   leaf  = sha256hex(leafData), node = sha256hex(leftHex + rightHex), tek düğüm taşınır,
+ *   root  = çıplak hex. Eski günlerin kökleri bu algoritmayla doğrulanmaya devam eder.
+ */
 import crypto from "node:crypto";
 
+export const TREE_VERSION = 2;
+export const LEGACY_TREE_VERSION = 1;
+export type TreeVersion = 1 | 2;
+
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+
 export function sha256Buf(data: Buffer | string): Buffer {
   const d = typeof data === "string" ? Buffer.from(data) : data;
   return crypto.createHash("sha256").update(d).digest();
@@ -9,16 +30,37 @@ export function sha256Buf(data: Buffer | string): Buffer {
 export function sha256Hex(data: Buffer | string): `0x${string}` {
   return ("0x" + sha256Buf(data).toString("hex")) as `0x${string}`;
 }
+export function toHex0x(b: Buffer): `0x${string}` {
+  return ("0x" + b.toString("hex")) as `0x${string}`;
+}
+export function fromHex0x(h: string): Buffer {
+  return Buffer.from(h.startsWith("0x") ? h.slice(2) : h, "hex");
+}
+
+/** Header’dan ağaç sürümü; treeVer alanı yoksa legacy (1) */
+export function treeVersionOf(header: { treeVer?: unknown } | null | undefined): TreeVersion {
+  return header?.treeVer === 2 ? 2 : 1;
+}
+
+/* ---------------------------
+ * treeVer 2 (RFC 6962)
+ * --------------------------*/
+export function leafHash(data: Buffer | string): Buffer {
+  const d = typeof data === "string" ? Buffer.from(data, "utf8") : data;
+  return sha256Buf(Buffer.concat([LEAF_PREFIX, d]));
+}
+export function nodeHash(left: Buffer, right: Buffer): Buffer {
+  return sha256Buf(Buffer.concat([NODE_PREFIX, left, right]));
+}
 
-export function merkleRoot(leaves: Buffer[]): Buffer {
-  if (leaves.length === 0) return Buffer.alloc(32);
-  let level = leaves.slice();
+/** MTH(leafHashes); boş ağaç = SHA256("") (RFC 6962 §2.1) */
+export function merkleRoot(leafHashes: Buffer[]): Buffer {
+  if (leafHashes.length === 0) return sha256Buf(Buffer.alloc(0));
+  let level = leafHashes.slice();
   while (level.length > 1) {
     const next: Buffer[] = [];
     for (let i = 0; i < level.length; i += 2) {
-      const L = level[i];
-      const R = i + 1 < level.length ? level[i + 1] : L;
-      next.push(sha256Buf(Buffer.concat([L, R])));
+      next.push(i + 1 < level.length ? nodeHash(level[i], level[i + 1]) : level[i]);
     }
     level = next;
   }
@@ -26,23 +68,23 @@ export function merkleRoot(leaves: Buffer[]): Buffer {
 }
 
 export type MerkleBranch = { hash: `0x${string}`; side: "L" | "R" }[];
-export function merklePath(leaves: Buffer[], index: number): MerkleBranch {
-  let level = leaves.slice();
+
+/** Audit path (yapraktan köke); side = kardeşin konumu */
+export function merklePath(leafHashes: Buffer[], index: number): MerkleBranch {
+  if (index < 0 || index >= leafHashes.length) throw new Error("leaf index out of range");
+  let level = leafHashes.slice();
   let idx = index;
   const branch: MerkleBranch = [];
   while (level.length > 1) {
     const isRight = idx % 2 === 1;
     const pairIdx = isRight ? idx - 1 : idx + 1;
-    const sibling = pairIdx < level.length ? level[pairIdx] : level[idx];
-    branch.push({
-      hash: ("0x" + sibling.toString("hex")) as `0x${string}`,
-      side: isRight ? "L" : "R",
-    });
+    // kardeşi olmayan son düğüm bu seviyeyi adım eklemeden geçer
+    if (pairIdx < level.length) {
+      branch.push({ hash: toHex0x(level[pairIdx]), side: isRight ? "L" : "R" });
+    }
     const next: Buffer[] = [];
     for (let i = 0; i < level.length; i += 2) {
-      const L = level[i];
-      const R = i + 1 < level.length ? level[i + 1] : L;
-      next.push(sha256Buf(Buffer.concat([L, R])));
+      next.push(i + 1 < level.length ? nodeHash(level[i], level[i + 1]) : level[i]);
     }
     level = next;
     idx = Math.floor(idx / 2);
@@ -50,17 +92,165 @@ export function merklePath(leaves: Buffer[], index: number): MerkleBranch {
   return branch;
 }
 
+/** leaf = yaprak hash’i (leafHash çıktısı), root = "0x.." */
 export function verifyMerkleProof(
   leaf: `0x${string}`,
   branch: MerkleBranch,
-  expectedRoot: `0x${string}`
+  expectedRoot: `0x${string}`,
+  treeVer: TreeVersion = TREE_VERSION as TreeVersion
+): boolean {
+  if (treeVer === 1) return verifyLegacyProofV1(leaf, branch, expectedRoot);
+  let acc = fromHex0x(leaf);
+  for (const step of branch) {
+    const sib = fromHex0x(step.hash);
+    acc = step.side === "L" ? nodeHash(sib, acc) : nodeHash(acc, sib);
+  }
+  return toHex0x(acc).toLowerCase() === normalizeRoot(expectedRoot);
+}
+
+/* ---------------------------
+ * Consistency proofs (RFC 6962 §2.1.2 / RFC 9162 §2.1.4) — sadece treeVer 2
+ * --------------------------*/
+function largestPow2Below(n: number) {
+  let k = 1;
+  while (k * 2 < n) k *= 2;
+  return k;
+}
+
+function subproof(m: number, d: Buffer[], complete: boolean): Buffer[] {
+  const n = d.length;
+  if (m === n) return complete ? [] : [merkleRoot(d)];
+  const k = largestPow2Below(n);
+  if (m <= k) return [...subproof(m, d.slice(0, k), complete), merkleRoot(d.slice(k))];
+  return [...subproof(m - k, d.slice(k), false), merkleRoot(d.slice(0, k))];
+}
+
+/** İlk m yapraklı ağacın, ilk n yapraklı ağacın öneki olduğunu kanıtlar (0 < m <= n) */
+export function consistencyProof(leafHashes: Buffer[], m: number, n: number): `0x${string}`[] {
+  if (!(Number.isInteger(m) && Number.isInteger(n)) || m < 1 || m > n || n > leafHashes.length) {
+    throw new Error("bad consistency range");
+  }
+  if (m === n) return [];
+  return subproof(m, leafHashes.slice(0, n), true).map(toHex0x);
+}
+
+/** RFC 9162 §2.1.4.2 doğrulama algoritması */
+export function verifyConsistency(
+  m: number,
+  n: number,
+  oldRoot: string,
+  newRoot: string,
+  proof: string[]
 ): boolean {
-  let acc = Buffer.from(leaf.slice(2), "hex");
+  if (m < 1 || m > n) return false;
+  const first = fromHex0x(oldRoot);
+  const second = fromHex0x(newRoot);
+  if (m === n) return proof.length === 0 && first.equals(second);
+  if (proof.length === 0) return false;
+
+  let path = proof.map(fromHex0x);
+  if ((m & (m - 1)) === 0) path = [first, ...path]; // m 2’nin kuvvetiyse eski kök yolun başıdır
+  let fn = m - 1;
+  let sn = n - 1;
+  while (fn & 1) { fn >>= 1; sn >>= 1; }
+
+  let fr = path[0];
+  let sr = path[0];
+  for (const c of path.slice(1)) {
+    if (sn === 0) return false;
+    if (fn & 1 || fn === sn) {
+      fr = nodeHash(c, fr);
+      sr = nodeHash(c, sr);
+      if (!(fn & 1)) {
+        while (!(fn & 1) && fn !== 0) { fn >>= 1; sn >>= 1; }
+      }
+    } else {
+      sr = nodeHash(sr, c);
+    }
+    fn >>= 1;
+    sn >>= 1;
+  }
+  return fr.equals(first) && sr.equals(second) && sn === 0;
+}
+
+/* ---------------------------
+ * treeVer 1 (legacy ProofStore algoritması)
+ * --------------------------*/
+const hexSha = (s: string) => crypto.createHash("sha256").update(s).digest("hex");
+
+export function legacyLeafHashV1(data: string): string {
+  return hexSha(data);
+}
+
+export function legacyRootV1(leaves: string[]): string | null {
+  let nodes = leaves.map(legacyLeafHashV1);
+  if (nodes.length === 0) return null;
+  while (nodes.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < nodes.length; i += 2) {
+      next.push(i + 1 < nodes.length ? hexSha(nodes[i] + nodes[i + 1]) : nodes[i]);
+    }
+    nodes = next;
+  }
+  return nodes[0];
+}
+
+export function legacyPathV1(leaves: string[], index: number): MerkleBranch {
+  if (index < 0 || index >= leaves.length) throw new Error("leaf index out of range");
+  let nodes = leaves.map(legacyLeafHashV1);
+  let idx = index;
+  const branch: MerkleBranch = [];
+  while (nodes.length > 1) {
+    const isRight = idx % 2 === 1;
+    const pairIdx = isRight ? idx - 1 : idx + 1;
+    if (pairIdx < nodes.length) {
+      branch.push({ hash: ("0x" + nodes[pairIdx]) as `0x${string}`, side: isRight ? "L" : "R" });
+    }
+    const next: string[] = [];
+    for (let i = 0; i < nodes.length; i += 2) {
+      next.push(i + 1 < nodes.length ? hexSha(nodes[i] + nodes[i + 1]) : nodes[i]);
+    }
+    nodes = next;
+    idx = Math.floor(idx / 2);
+  }
+  return branch;
+}
+
+function verifyLegacyProofV1(leaf: string, branch: MerkleBranch, expectedRoot: string): boolean {
+  let acc = strip0x(leaf);
   for (const step of branch) {
-    const sib = Buffer.from(step.hash.slice(2), "hex");
-    const pair =
-      step.side === "L" ? Buffer.concat([sib, acc]) : Buffer.concat([acc, sib]);
-    acc = sha256Buf(pair);
+    const sib = strip0x(step.hash);
+    acc = step.side === "L" ? hexSha(sib + acc) : hexSha(acc + sib);
   }
-  return "0x" + acc.toString("hex") === expectedRoot;
+  return acc === strip0x(expectedRoot).toLowerCase();
+}
+
+/* ---------------------------
+ * Sürüm bağımsız yardımcılar
+ * --------------------------*/
+function strip0x(h: string) {
+  return h.startsWith("0x") ? h.slice(2) : h;
+}
+function normalizeRoot(h: string) {
+  return ("0x" + strip0x(h)).toLowerCase();
+}
+
+/** Yaprak verisinden (proofHash string’leri) sürüme uygun yaprak hash’i */
+export function leafHashFor(treeVer: TreeVersion, data: string): `0x${string}` {
+  return treeVer === 1
+    ? (("0x" + legacyLeafHashV1(data)) as `0x${string}`)
+    : toHex0x(leafHash(data));
+}
+
+/** Yaprak verisinden kök (boşsa null); v2 "0x.." , v1 çıplak hex döner */
+export function rootForVersion(treeVer: TreeVersion, leaves: string[]): string | null {
+  if (leaves.length === 0) return null;
+  if (treeVer === 1) return legacyRootV1(leaves);
+  return toHex0x(merkleRoot(leaves.map((l) => leafHash(l))));
+}
+
+/** Yaprak verisinden audit path */
+export function pathForVersion(treeVer: TreeVersion, leaves: string[], index: number): MerkleBranch {
+  if (treeVer === 1) return legacyPathV1(leaves, index);
+  return merklePath(leaves.map((l) => leafHash(l)), index);
 }
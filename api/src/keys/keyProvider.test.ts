@@ -0,0 +1,164 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/keys/keyProvider.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { KeyProvider, keyProvider } from "./keyProvider.js";
+import { requireHmac } from "../mw/requireHmac.js";
+
+async function withDir(fn: (dir: string) => Promise<void>) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "keys-"));
+  try { await fn(dir); } finally { fs.rmSync(dir, { recursive: true, force: true }); }
+}
+
+const admin = { keyId: "ops" };
+const eq = (secret: string) => (s: string) => s === secret;
+
+test("after rotation both versions verify during the grace period, then only the new one", () =>
+  withDir(async (dir) => {
+    const keys = new KeyProvider(null, dir);
+    const created = await keys.create({ id: "partner", secret: "a".repeat(32) }, admin);
+    assert.ok(!("error" in created));
+    const rotated = await keys.rotate("partner", { secret: "b".repeat(32), graceSec: 60 }, admin);
+    assert.ok(!("error" in rotated) && rotated.ver === 2);
+
+    assert.deepEqual(await keys.verify("partner", null, eq("a".repeat(32))), { ok: true, ver: 1 });
+    assert.deepEqual(await keys.verify("partner", 2, eq("b".repeat(32))), { ok: true, ver: 2 });
+    assert.deepEqual(await keys.verify("partner", 2, eq("a".repeat(32))), { ok: false, error: "invalid-signature" });
+
+    // graceSec 0: önceki sürümler hemen biter
+    await keys.rotate("partner", { secret: "c".repeat(32), graceSec: 0 }, admin);
+    assert.deepEqual(await keys.verify("partner", null, eq("b".repeat(32))), { ok: false, error: "invalid-signature" });
+    assert.deepEqual(await keys.verify("partner", 2, eq("b".repeat(32))), { ok: false, error: "key-version-inactive" });
+    assert.deepEqual(await keys.verify("partner", null, eq("c".repeat(32))), { ok: true, ver: 3 });
+
+    await keys.revoke("partner", null, admin);
+    assert.deepEqual(await keys.verify("partner", null, eq("c".repeat(32))), { ok: false, error: "unknown-key" });
+
+    // başka bir provider (ör. diğer instance) aynı kaydı görür; her değişiklik günlükte
+    const audit = await new KeyProvider(null, dir).audit(10, "partner");
+    assert.deepEqual(audit.map((a) => [a.action, a.ver, a.actor]), [
+      ["revoke", null, "ops"], ["rotate", 3, "ops"], ["rotate", 2, "ops"], ["create", 1, "ops"],
+    ]);
+  }));
+
+test("env keys verify as version 0 and move into the store on first rotation", () =>
+  withDir(async (dir) => {
+    process.env.HMAC_KEYS = "legacy=" + "e".repeat(32);
+    const keys = new KeyProvider(null, dir);
+    assert.deepEqual(await keys.verify("legacy", null, eq("e".repeat(32))), { ok: true, ver: 0 });
+    assert.deepEqual(await keys.create({ id: "legacy" }, admin), { error: "key-exists" });
+
+    const out = await keys.rotate("legacy", { graceSec: 60 }, admin);
+    assert.ok(!("error" in out));
+    assert.equal(out.rec.source, "store");
+    assert.deepEqual(out.rec.versions.map((v) => v.ver), [0, 1]);
+    assert.ok(out.rec.versions[0].notAfter! > Date.now());
+    assert.deepEqual(await keys.verify("legacy", 0, eq("e".repeat(32))), { ok: true, ver: 0 });
+    assert.deepEqual(await keys.rotate("nope", {}, admin), { error: "key-not-found" });
+  }));
+
+test("requireHmac honours x-key-ver and accepts the previous version during grace", () =>
+  withDir(async (dir) => {
+    delete process.env.REDIS_URL;
+    process.env.NODE_ENV = "test";
+    process.env.DATA_DIR = dir;
+    const keys = keyProvider();
+    await keys.create({ id: "w1", secret: "o".repeat(32) }, admin);
+    await keys.rotate("w1", { secret: "n".repeat(32), graceSec: 60 }, admin);
+
+    const app = express();
+    app.use(express.json({ verify: (req: any, _res, buf) => (req._raw = buf) }));
+    app.post("/proof", requireHmac(), (_req, res) => res.json({ ok: true }));
+    const srv = app.listen(0);
+    const base = `http://127.0.0.1:${(srv.address() as AddressInfo).port}`;
+    const call = async (secret: string, extra: Record<string, string> = {}) => {
+      const body = "{}";
+      const ts = String(Date.now());
+      const nonce = crypto.randomUUID();
+      const canon = ["POST", "/proof", crypto.createHash("sha256").update(body).digest("hex"), ts, nonce].join("\n");
+      const r = await fetch(base + "/proof", {
+        method: "POST",
+        body,
+        headers: {
+          "content-type": "application/json", "x-key-id": "w1", "x-ts": ts, "x-nonce": nonce,
+          "x-signature-256": crypto.createHmac("sha256", secret).update(canon).digest("hex"), ...extra,
+        },
+      });
+      return { status: r.status, body: await r.json() };
+    };
+    try {
+      assert.equal((await call("o".repeat(32))).status, 200);
+      assert.equal((await call("n".repeat(32), { "x-key-ver": "2" })).status, 200);
+      assert.equal((await call("o".repeat(32), { "x-key-ver": "2" })).body.error, "invalid-signature");
+      assert.equal((await call("o".repeat(32), { "x-key-ver": "7" })).body.error, "key-version-inactive");
+      assert.equal((await call("o".repeat(32), { "x-key-ver": "v2" })).status, 400);
+    } finally {
+      srv.close();
+    }
+  }));
+
+// WATCH bağlantı başına: EXEC yalnız kendi bağlantısının WATCH’ını temizler
+function fakeRedis(db = { hash: new Map<string, string>(), list: [] as string[], version: 0, open: 0 }): any {
+  let watched: number | null = null;
+  const tick = () => new Promise((r) => setImmediate(r));
+  const conn = {
+    db,
+    duplicate: () => {
+      db.open++;
+      return fakeRedis(db);
+    },
+    quit: async () => {
+      db.open--;
+      return "OK";
+    },
+    get: async () => null,
+    watch: async () => void (watched = db.version),
+    unwatch: async () => void (watched = null),
+    hget: async (_h: string, k: string) => {
+      const v = db.hash.get(k) ?? null;
+      await tick(); // yanıt gecikmesi: eşzamanlı çağrılar aynı eski kaydı okur
+      return v;
+    },
+    hgetall: async () => Object.fromEntries(db.hash),
+    lrange: async () => db.list,
+    multi: () => {
+      const ops: (() => void)[] = [];
+      const m = {
+        hset: (_h: string, k: string, v: string) => (ops.push(() => db.hash.set(k, v)), m),
+        lpush: (_k: string, v: string) => (ops.push(() => db.list.unshift(v)), m),
+        ltrim: () => m,
+        exec: async () => {
+          const stale = watched !== null && watched !== db.version;
+          watched = null;
+          if (stale) return null;
+          ops.forEach((f) => f());
+          db.version++;
+          return [];
+        },
+      };
+      return m;
+    },
+  };
+  return conn;
+}
+
+test("concurrent rotations on Redis both land instead of one overwriting the other", async () => {
+  const redis = fakeRedis();
+  const keys = new KeyProvider(redis, os.tmpdir());
+  await keys.create({ id: "partner", secret: "a".repeat(32) }, admin);
+  const [a, b] = await Promise.all([
+    keys.rotate("partner", { secret: "b".repeat(32) }, admin),
+    keys.rotate("partner", { secret: "c".repeat(32) }, admin),
+  ]);
+  assert.deepEqual([a, b].map((r) => ("error" in r ? r.error : r.ver)).sort(), [2, 3]);
+  const [rec] = await keys.list();
+  assert.deepEqual(rec.versions.map((v) => v.ver), [1, 2, 3]);
+  assert.deepEqual((await keys.audit(10, "partner")).map((x) => x.ver), [3, 2, 1]);
+  assert.equal(redis.db.open, 0); // her değişikliğin bağlantısı kapandı
+});
@@ -1,45 +1,414 @@
 // SPDX-License-Identifier: Apache-2.0
 // api/src/keys/keyProvider.ts
-import { createClient, Redis } from "ioredis";
+// Tek anahtar sağlayıcı (HMAC anahtarları + STH imza anahtarı).
+// - HMAC anahtarları sürümlüdür: privora:keys (hash, alan = keyId, değer = KeyRecord JSON).
+//   Her sürümün notBefore/notAfter’ı var; rotasyonda eski sürüm grace süresi boyunca yenisiyle
+//   birlikte doğrular, istemci x-key-ver ile hangi sürümü kullandığını bildirebilir.
+// - Eski kaynaklar sürüm 0 olarak okunur: privora:hmac:<keyId> (düz secret) → KMS hook →
+//   ENV HMAC_KEYS / API_SHARED_SECRET. İlk rotasyonda sürüm 0 kayda taşınır.
+// - Redis yoksa kayıtlar <dir>/keys.json’da (tek instance).
+// - Kayıt scope / tenant / CIDR taşır (bkz. keys/scopes.ts); yoksa KEY_SCOPES / KEY_DEFAULT_SCOPES geçerli.
+// - Her değişiklik audit log’a yazılır: privora:keys:audit (LTRIM’li) | <dir>/key-audit.ndjson
+import { Redis } from "ioredis";
+import crypto, { type KeyObject } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { KeyAccess } from "./scopes.js";
+
+export type KeyVersion = {
+  ver: number;
+  secret: string;
+  notBefore: number;
+  notAfter: number | null;   // null = süresiz
+  createdAt: number;
+  revokedAt: number | null;
+};
+
+export type KeyRecord = KeyAccess & {
+  id: string;
+  description?: string;
+  versions: KeyVersion[];
+  createdAt: number;
+  updatedAt: number;
+  source: "store" | "legacy" | "env";
+};
+
+export type KeyAction = "create" | "update" | "rotate" | "revoke";
+
+export type KeyAudit = {
+  at: number;
+  action: KeyAction;
+  keyId: string;
+  ver: number | null;
+  actor: string;             // değişikliği yapan isteğin x-key-id’si
+  ip?: string;
+};
+
+export type KeyVerifyResult =
+  | { ok: true; ver: number }
+  | { ok: false; error: "unknown-key" | "key-version-inactive" | "invalid-signature" };
+
+const CACHE_TTL_MS = Number(process.env.KEY_CACHE_TTL_MS || 60_000);
+// doğrulama tutmazsa kayıt Redis’ten yeniden okunur (başka instance rotasyon yapmış olabilir), en fazla bu sıklıkta
+const REFRESH_MIN_MS = Number(process.env.KEY_REFRESH_MIN_MS || 1000);
+const GRACE_SEC = Number(process.env.KEY_ROTATE_GRACE_SEC || 86_400);
+const AUDIT_MAX = Number(process.env.KEY_AUDIT_MAX || 1000);
+
+const KEYS_HASH = "privora:keys";
+const AUDIT_KEY = "privora:keys:audit";
+
+export function isActive(v: Pick<KeyVersion, "notBefore" | "notAfter" | "revokedAt">, now = Date.now()) {
+  return v.revokedAt === null && v.notBefore <= now && (v.notAfter === null || now < v.notAfter);
+}
+
+/** Yanıtlarda secret dönmez */
+export function publicKeyRecord({ versions, ...rec }: KeyRecord, now = Date.now()) {
+  return {
+    ...rec,
+    versions: versions.map(({ secret: _secret, ...v }) => ({ ...v, active: isActive(v, now) })),
+  };
+}
+
+export function newSecret() {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+function legacyRecord(id: string, secret: string, source: "legacy" | "env"): KeyRecord {
+  return {
+    id,
+    versions: [{ ver: 0, secret, notBefore: 0, notAfter: null, createdAt: 0, revokedAt: null }],
+    createdAt: 0,
+    updatedAt: 0,
+    source,
+  };
+}
+
+// ENV -> Map
+function parseEnvKeys(): Map<string, string> {
+  const map = new Map<string, string>();
+  const shared = process.env.API_SHARED_SECRET || "";
+  const csv = process.env.HMAC_KEYS || ""; // "id=secret,id2=secret2"
+  if (shared) map.set("default", shared);
+  for (const p of csv.split(",").map((s) => s.trim()).filter(Boolean)) {
+    const [id, sec] = p.split("=");
+    if (id && sec) map.set(id, sec);
+  }
+  return map;
+}
+
+// KMS/Secrets Manager HOOK (opsiyonel) — burada gerçek entegrasyonu yap
+async function fetchFromKMS(_keyId: string): Promise<string | null> {
+  // Örn: AWS/GCP/Azure SDK ile getSecretValue(...)
+  return null;
+}
+
+type Mutation =
+  | { rec: KeyRecord; ver: number | null }
+  | { error: "key-exists" | "key-not-found" | "version-not-found" };
 
-type KeyRecord = { id: string; secret: string; ver?: string; rotatedAt?: number };
 export class KeyProvider {
-  private cache = new Map<string, { secret: string; exp: number }>();
-  private ttlMs: number;
-  constructor(private redis: Redis | null, { ttlMs = 30_000 } = {}) { this.ttlMs = ttlMs; }
+  private cache = new Map<string, { rec: KeyRecord | null; loadedAt: number }>();
+  private keysFile: string;
+  private auditFile: string;
+  // dosya modunda oku-değiştir-yaz tek sırada
+  private tail: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly redis: Redis | null, dir: string) {
+    this.keysFile = path.join(dir, "keys.json");
+    this.auditFile = path.join(dir, "key-audit.ndjson");
+    if (!redis) fs.mkdirSync(dir, { recursive: true });
+  }
+
+  /** Kayıtlı (ya da eski kaynaklardan okunan) anahtar; önbellekli */
+  async get(keyId: string, opts: { refresh?: boolean } = {}): Promise<KeyRecord | null> {
+    const c = this.cache.get(keyId);
+    const maxAge = opts.refresh ? REFRESH_MIN_MS : CACHE_TTL_MS;
+    if (c && Date.now() - c.loadedAt < maxAge) return c.rec;
+    const rec = (await this.loadStored(keyId)) ?? (await this.loadLegacy(keyId));
+    this.cache.set(keyId, { rec, loadedAt: Date.now() });
+    return rec;
+  }
+
+  /**
+   * `check` keyId’nin geçerli sürümlerinden biriyle tutarsa o sürümü döndürür.
+   * verHint (x-key-ver) verilmişse yalnız o sürüm denenir. Önbellekteki kayıt tutmazsa bir kez tazelenir:
+   * başka instance’ta yapılan rotasyon önbellek süresini beklemeden görülür.
+   */
+  async verify(keyId: string, verHint: number | null, check: (secret: string) => boolean): Promise<KeyVerifyResult> {
+    let result: KeyVerifyResult = { ok: false, error: "unknown-key" };
+    for (const refresh of [false, true]) {
+      const rec = await this.get(keyId, { refresh });
+      const now = Date.now();
+      const active = (rec?.versions ?? []).filter((v) => isActive(v, now)).sort((a, b) => b.ver - a.ver);
+      if (!active.length) {
+        result = { ok: false, error: "unknown-key" };
+      } else if (verHint !== null) {
+        const v = active.find((x) => x.ver === verHint);
+        if (v && check(v.secret)) return { ok: true, ver: v.ver };
+        result = { ok: false, error: v ? "invalid-signature" : "key-version-inactive" };
+      } else {
+        const v = active.find((x) => check(x.secret));
+        if (v) return { ok: true, ver: v.ver };
+        result = { ok: false, error: "invalid-signature" };
+      }
+    }
+    return result;
+  }
+
+  async list(): Promise<KeyRecord[]> {
+    if (this.redis) {
+      const all = await this.redis.hgetall(KEYS_HASH);
+      return Object.values(all).map((v) => JSON.parse(v) as KeyRecord);
+    }
+    return Object.values(await this.readFile());
+  }
+
+  async create(
+    input: KeyAccess & { id: string; secret?: string; description?: string; notBefore?: number; notAfter?: number | null },
+    actor: { keyId: string; ip?: string }
+  ) {
+    // ENV / privora:hmac’teki anahtar sessizce ezilmesin; onun için rotate kullanılır
+    const legacy = await this.loadLegacy(input.id);
+    return this.mutate(input.id, "create", actor, (cur, now) => {
+      if (cur || legacy) return { error: "key-exists" };
+      return {
+        ver: 1,
+        rec: {
+          id: input.id,
+          description: input.description,
+          scopes: input.scopes,
+          tenant: input.tenant ?? null,
+          cidrs: input.cidrs,
+          versions: [{
+            ver: 1,
+            secret: input.secret ?? newSecret(),
+            notBefore: input.notBefore ?? now,
+            notAfter: input.notAfter ?? null,
+            createdAt: now,
+            revokedAt: null,
+          }],
+          createdAt: now,
+          updatedAt: now,
+          source: "store",
+        },
+      };
+    });
+  }
 
-  static fromEnv(redisUrl?: string) {
-    if (!redisUrl) return new KeyProvider(null);
-    const r = new createClient({ url: redisUrl });
-    r.connect().catch(()=>{});
-    return new KeyProvider(r);
+  /** Scope / tenant / CIDR / açıklama günceller (secret’a dokunmaz) */
+  async update(keyId: string, patch: KeyAccess & { description?: string }, actor: { keyId: string; ip?: string }) {
+    const legacy = await this.loadLegacy(keyId);
+    return this.mutate(keyId, "update", actor, (cur, now) => {
+      const base = cur ?? (legacy ? { ...legacy, source: "store" as const, createdAt: now } : null);
+      if (!base) return { error: "key-not-found" };
+      const defined = Object.fromEntries(Object.entries(patch).filter(([, v]) => v !== undefined));
+      return { ver: null, rec: { ...base, ...defined, updatedAt: now } };
+    });
   }
 
-  async get(keyId: string): Promise<string | null> {
-    const now = Date.now();
-    const hit = this.cache.get(keyId);
-    if (hit && hit.exp > now) return hit.secret;
+  /**
+   * Yeni sürüm ekler; hâlâ geçerli eski sürümler graceSec sonra sona erer (o zamana kadar ikisi de doğrular).
+   * Kayıtta olmayan eski (privora:hmac / ENV) anahtar sürüm 0 olarak kayda taşınır.
+   */
+  async rotate(
+    keyId: string,
+    opts: { secret?: string; graceSec?: number; notBefore?: number; notAfter?: number | null },
+    actor: { keyId: string; ip?: string }
+  ) {
+    const legacy = await this.loadLegacy(keyId);
+    return this.mutate(keyId, "rotate", actor, (cur, now) => {
+      const base = cur ?? (legacy ? { ...legacy, source: "store" as const, createdAt: now } : null);
+      if (!base) return { error: "key-not-found" };
+      const ver = Math.max(0, ...base.versions.map((v) => v.ver)) + 1;
+      const notBefore = opts.notBefore ?? now;
+      const until = Math.max(notBefore, now) + (opts.graceSec ?? GRACE_SEC) * 1000;
+      const versions = base.versions.map((v) =>
+        isActive(v, now) && (v.notAfter === null || v.notAfter > until) ? { ...v, notAfter: until } : v
+      );
+      versions.push({
+        ver,
+        secret: opts.secret ?? newSecret(),
+        notBefore,
+        notAfter: opts.notAfter ?? null,
+        createdAt: now,
+        revokedAt: null,
+      });
+      return { ver, rec: { ...base, versions, updatedAt: now } };
+    });
+  }
 
-    // 1) Redis (dinamik)
+  /** Sürümü (ver yoksa tüm sürümleri) hemen geçersiz kılar */
+  async revoke(keyId: string, ver: number | null, actor: { keyId: string; ip?: string }) {
+    const legacy = await this.loadLegacy(keyId);
+    return this.mutate(keyId, "revoke", actor, (cur, now) => {
+      const base = cur ?? (legacy ? { ...legacy, source: "store" as const, createdAt: now } : null);
+      if (!base) return { error: "key-not-found" };
+      if (ver !== null && !base.versions.some((v) => v.ver === ver)) return { error: "version-not-found" };
+      const versions = base.versions.map((v) =>
+        (ver === null || v.ver === ver) && v.revokedAt === null ? { ...v, revokedAt: now } : v
+      );
+      return { ver, rec: { ...base, versions, updatedAt: now } };
+    });
+  }
+
+  /** Yeniden eskiye; keyId verilirse yalnız o anahtarın kayıtları */
+  async audit(limit = 100, keyId?: string): Promise<KeyAudit[]> {
+    let items: KeyAudit[];
     if (this.redis) {
-      const raw = await this.redis.get(`privora:hmac:${keyId}`);
-      if (raw) {
-        const rec: KeyRecord = JSON.parse(raw);
-        this.cache.set(keyId, { secret: rec.secret, exp: now + this.ttlMs });
-        return rec.secret;
+      items = (await this.redis.lrange(AUDIT_KEY, 0, AUDIT_MAX - 1)).map((v) => JSON.parse(v));
+    } else {
+      const raw = await fs.promises.readFile(this.auditFile, "utf8").catch(() => "");
+      items = raw.split("\n").filter(Boolean).map((l) => JSON.parse(l) as KeyAudit).reverse();
+    }
+    return items.filter((a) => !keyId || a.keyId === keyId).slice(0, limit);
+  }
+
+  invalidate(keyId?: string) {
+    if (!keyId) this.cache.clear();
+    else this.cache.delete(keyId);
+  }
+
+  // ---------- storage ----------
+
+  private async loadStored(keyId: string): Promise<KeyRecord | null> {
+    if (this.redis) {
+      const v = await this.redis.hget(KEYS_HASH, keyId);
+      return v ? (JSON.parse(v) as KeyRecord) : null;
+    }
+    return (await this.readFile())[keyId] ?? null;
+  }
+
+  private async loadLegacy(keyId: string): Promise<KeyRecord | null> {
+    if (this.redis) {
+      const v = await this.redis.get(`privora:hmac:${keyId}`);
+      if (v) {
+        // eski keys/keyProvider.ts biçimi {id, secret, ...} JSON’du
+        let secret = v;
+        try { secret = JSON.parse(v).secret || v; } catch {}
+        return legacyRecord(keyId, secret, "legacy");
       }
     }
-    // 2) Env fallback (HMAC_KEYS = id=secret,id2=secret2)
-    const csv = process.env.HMAC_KEYS || "";
-    const map = new Map<string,string>();
-    for (const p of csv.split(",").map(s=>s.trim()).filter(Boolean)) {
-      const [id, sec] = p.split("="); if (id && sec) map.set(id, sec);
+    const kms = await fetchFromKMS(keyId);
+    if (kms) return legacyRecord(keyId, kms, "legacy");
+    // Prod’da REQUIRE_REDIS_KEYS=true ise ENV fallback devre dışı kalır
+    if ((process.env.REQUIRE_REDIS_KEYS || "").toLowerCase() === "true") return null;
+    const env = parseEnvKeys().get(keyId);
+    return env ? legacyRecord(keyId, env, "env") : null;
+  }
+
+  private async readFile(): Promise<Record<string, KeyRecord>> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.keysFile, "utf8"));
+    } catch {
+      return {};
+    }
+  }
+
+  /** Oku-değiştir-yaz + audit kaydı tek adımda (Redis: WATCH/MULTI, dosya: sıralı) */
+  private async mutate(
+    keyId: string,
+    action: KeyAction,
+    actor: { keyId: string; ip?: string },
+    fn: (cur: KeyRecord | null, now: number) => Mutation
+  ): Promise<Mutation> {
+    const entry = (ver: number | null): KeyAudit => ({ at: Date.now(), action, keyId, ver, actor: actor.keyId, ip: actor.ip });
+    if (this.redis) {
+      // WATCH bağlantıya aittir: paylaşılan bağlantıda eşzamanlı bir EXEC bu çağrının WATCH’ını da siler
+      // ve iki güncelleme birden yazılabilir. Her değişiklik kendi bağlantısında.
+      const conn = this.redis.duplicate();
+      try {
+        for (let i = 0; i < 5; i++) {
+          await conn.watch(KEYS_HASH);
+          const raw = await conn.hget(KEYS_HASH, keyId);
+          const out = fn(raw ? JSON.parse(raw) : null, Date.now());
+          if ("error" in out) {
+            await conn.unwatch();
+            return out;
+          }
+          const ok = await conn
+            .multi()
+            .hset(KEYS_HASH, keyId, JSON.stringify(out.rec))
+            .lpush(AUDIT_KEY, JSON.stringify(entry(out.ver)))
+            .ltrim(AUDIT_KEY, 0, AUDIT_MAX - 1)
+            .exec();
+          if (ok) {
+            this.cache.delete(keyId);
+            return out;
+          }
+        }
+        throw new Error("key update conflict");
+      } finally {
+        await conn.quit().catch(() => conn.disconnect());
+      }
     }
-    const shared = process.env.API_SHARED_SECRET || "";
-    if (shared && !map.has("default")) map.set("default", shared);
+    const run = this.tail.then(async () => {
+      const all = await this.readFile();
+      const out = fn(all[keyId] ?? null, Date.now());
+      if ("error" in out) return out;
+      all[keyId] = out.rec;
+      const tmp = this.keysFile + ".tmp";
+      await fs.promises.writeFile(tmp, JSON.stringify(all, null, 2), { mode: 0o600 });
+      await fs.promises.rename(tmp, this.keysFile);
+      await fs.promises.appendFile(this.auditFile, JSON.stringify(entry(out.ver)) + "\n");
+      this.cache.delete(keyId);
+      return out;
+    });
+    this.tail = run.catch(() => {});
+    return run;
+  }
+}
 
-    const sec = map.get(keyId) || null;
-    if (sec) this.cache.set(keyId, { secret: sec, exp: now + this.ttlMs });
-    return sec;
+let provider: KeyProvider | null = null;
+
+/** Süreç genelinde tek sağlayıcı: REDIS_URL varsa Redis, yoksa DATA_DIR/keys.json */
+export function keyProvider(): KeyProvider {
+  provider ??= new KeyProvider(
+    process.env.REDIS_URL ? new Redis(process.env.REDIS_URL) : null,
+    process.env.DATA_DIR || ".data"
+  );
+  return provider;
+}
+
+/* ---------------------------
+ * Ed25519 imza anahtarı (Signed Tree Head vb.)
+ * Öncelik: Redis privora:sign:<keyId> (PKCS8 PEM) → KMS hook → ENV STH_SIGNING_KEY
+ * (PEM ya da base64 PKCS8 DER). Prod dışında hiçbiri yoksa geçici anahtar üretilir.
+ * --------------------------*/
+export type SigningKey = { keyId: string; alg: "ed25519"; privateKey: KeyObject; publicKey: KeyObject };
+let signingKey: SigningKey | null = null;
+
+function parsePrivateKey(v: string): KeyObject {
+  const s = v.trim();
+  if (s.startsWith("-----BEGIN")) return crypto.createPrivateKey(s);
+  return crypto.createPrivateKey({ key: Buffer.from(s, "base64"), format: "der", type: "pkcs8" });
+}
+
+export async function loadSigningKey(): Promise<SigningKey | null> {
+  if (signingKey) return signingKey;
+  const keyId = process.env.STH_KEY_ID || "sth-1";
+
+  let material: string | null = null;
+  const r = keyProvider().redis;
+  if (r) material = await r.get(`privora:sign:${keyId}`);
+  if (!material) material = await fetchFromKMS(`sign:${keyId}`);
+  if (!material) material = process.env.STH_SIGNING_KEY || null;
+
+  let privateKey: KeyObject;
+  if (material) {
+    privateKey = parsePrivateKey(material);
+  } else if (process.env.NODE_ENV !== "production") {
+    console.warn("[keys] STH_SIGNING_KEY not set; using an ephemeral Ed25519 key (dev only)");
+    privateKey = crypto.generateKeyPairSync("ed25519").privateKey;
+  } else {
+    return null;
   }
+  if (privateKey.asymmetricKeyType !== "ed25519") throw new Error("signing key must be ed25519");
+  signingKey = { keyId, alg: "ed25519", privateKey, publicKey: crypto.createPublicKey(privateKey) };
+  return signingKey;
+}
+
+/** Ham 32 baytlık Ed25519 public key (base64) — SDK/explorer bunu pinler */
+export function rawPublicKeyB64(k: KeyObject): string {
+  const der = k.export({ format: "der", type: "spki" }) as Buffer;
+  return der.subarray(der.length - 32).toString("base64");
 }
@@ -0,0 +1,116 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/keys/publicKeys.ts
+// requireSignature için partner açık anahtarları (x-key-id başına).
+// Öncelik: Redis privora:pubkey:<keyId> = {"alg":"ed25519"|"p256","publicKey":"<base64>",scopes?,tenant?,cidrs?} → ENV SIG_PUBLIC_KEYS
+// ("id=ed25519:<base64>,id2=p256:<base64>"). Algoritma anahtarla birlikte kayıtlıdır; istek seçemez.
+import { Redis } from "ioredis";
+import crypto, { type KeyObject } from "node:crypto";
+import type { KeyAccess } from "./scopes.js";
+
+export type SigAlg = "ed25519" | "p256";
+export type PublicKeyRecord = KeyAccess & { keyId: string; alg: SigAlg; key: KeyObject };
+
+const CACHE_TTL_MS = Number(process.env.KEY_CACHE_TTL_MS || 60_000);
+const cache = new Map<string, { rec: PublicKeyRecord | null; loadedAt: number }>();
+
+// DER SPKI prefix for a raw 32-byte Ed25519 public key
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+let redis: Redis | null = null;
+async function lazyRedis(): Promise<Redis | null> {
+  if (redis) return redis;
+  const url = process.env.REDIS_URL;
+  if (!url) return null;
+  const r = new Redis(url, { lazyConnect: true });
+  r.on("error", () => {}); // üst katman logluyor
+  try { await r.connect(); redis = r; } catch { return null; }
+  return redis;
+}
+
+/**
+ * base64 (veya base64url) açık anahtar:
+ * - ed25519: ham 32 byte ya da SPKI DER
+ * - p256: sıkıştırılmamış nokta (65 byte, 0x04||X||Y) ya da SPKI DER
+ */
+export function parsePublicKey(alg: SigAlg, b64: string): KeyObject {
+  const raw = Buffer.from(b64.trim(), "base64");
+  if (alg === "ed25519") {
+    const der = raw.length === 32 ? Buffer.concat([ED25519_SPKI_PREFIX, raw]) : raw;
+    const key = crypto.createPublicKey({ key: der, format: "der", type: "spki" });
+    if (key.asymmetricKeyType !== "ed25519") throw new Error("not an ed25519 key");
+    return key;
+  }
+  if (alg === "p256") {
+    const key = raw.length === 65 && raw[0] === 0x04
+      ? crypto.createPublicKey({
+          key: { kty: "EC", crv: "P-256", x: raw.subarray(1, 33).toString("base64url"), y: raw.subarray(33).toString("base64url") },
+          format: "jwk",
+        })
+      : crypto.createPublicKey({ key: raw, format: "der", type: "spki" });
+    if (key.asymmetricKeyType !== "ec" || key.asymmetricKeyDetails?.namedCurve !== "prime256v1") {
+      throw new Error("not a P-256 key");
+    }
+    return key;
+  }
+  throw new Error(`unsupported alg ${alg}`);
+}
+
+function parseEnvKeys(): Map<string, { alg: SigAlg; publicKey: string }> {
+  const map = new Map<string, { alg: SigAlg; publicKey: string }>();
+  for (const p of (process.env.SIG_PUBLIC_KEYS || "").split(",").map((s) => s.trim()).filter(Boolean)) {
+    const m = /^([^=]+)=(ed25519|p256):(.+)$/.exec(p);
+    if (m) map.set(m[1], { alg: m[2] as SigAlg, publicKey: m[3] });
+  }
+  return map;
+}
+
+/** keyId için kayıtlı açık anahtar; yoksa ya da bozuksa null (negatif sonuç da önbelleğe alınır) */
+export async function loadPublicKey(keyId: string): Promise<PublicKeyRecord | null> {
+  const c = cache.get(keyId);
+  if (c && Date.now() - c.loadedAt < CACHE_TTL_MS) return c.rec;
+
+  let entry: (KeyAccess & { alg: SigAlg; publicKey: string }) | null = null;
+  const r = await lazyRedis();
+  if (r) {
+    const v = await r.get(`privora:pubkey:${keyId}`);
+    if (v) {
+      try { entry = JSON.parse(v); } catch {}
+    }
+  }
+  if (!entry && (process.env.REQUIRE_REDIS_KEYS || "").toLowerCase() !== "true") {
+    entry = parseEnvKeys().get(keyId) ?? null;
+  }
+
+  let rec: PublicKeyRecord | null = null;
+  if (entry) {
+    try {
+      rec = {
+        keyId,
+        alg: entry.alg,
+        key: parsePublicKey(entry.alg, entry.publicKey),
+        scopes: entry.scopes,
+        tenant: entry.tenant,
+        cidrs: entry.cidrs,
+      };
+    } catch (e) {
+      console.error(`[pubkeys] bad public key for ${keyId}`, e);
+    }
+  }
+  cache.set(keyId, { rec, loadedAt: Date.now() });
+  return rec;
+}
+
+/** Rotasyon / kayıt sonrası önbelleği boşalt */
+export function invalidatePublicKeyCache(keyId?: string) {
+  if (!keyId) cache.clear();
+  else cache.delete(keyId);
+}
+
+/** Test/ops için: Redis’e partner açık anahtarı yaz */
+export async function putPublicKeyToRedis(keyId: string, alg: SigAlg, publicKeyB64: string, access: KeyAccess = {}) {
+  parsePublicKey(alg, publicKeyB64); // bozuk anahtar kaydedilmesin
+  const r = await lazyRedis();
+  if (!r) throw new Error("Redis not available");
+  await r.set(`privora:pubkey:${keyId}`, JSON.stringify({ alg, publicKey: publicKeyB64, ...access }));
+  cache.delete(keyId);
+}
@@ -0,0 +1,136 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/keys/scopes.test.ts
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { NON_ADMIN_SCOPES, authContext, scopeAllows } from "./scopes.js";
+import { ipAllowed } from "../util/ip.js";
+import { keyProvider } from "./keyProvider.js";
+import { requireHmac } from "../mw/requireHmac.js";
+import keysAdminRoutes from "../routes/keys-admin.js";
+
+// requireHmac süreç genelindeki keyProvider()’ı kullanır: tüm testler aynı dizinde
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "scopes-"));
+delete process.env.REDIS_URL;
+delete process.env.KEY_DEFAULT_SCOPES;
+process.env.NODE_ENV = "test";
+process.env.DATA_DIR = dir;
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+function listen(app: express.Express) {
+  const srv = app.listen(0);
+  const base = `http://127.0.0.1:${(srv.address() as AddressInfo).port}`;
+  const call = async (method: string, p: string, keyId: string, secret: string, body = "{}") => {
+    const ts = String(Date.now());
+    const nonce = crypto.randomUUID();
+    const canon = [method, p.split("?")[0], crypto.createHash("sha256").update(body).digest("hex"), ts, nonce].join("\n");
+    const r = await fetch(base + p, {
+      method,
+      body: method === "GET" ? undefined : body,
+      headers: {
+        "content-type": "application/json", "x-key-id": keyId, "x-ts": ts, "x-nonce": nonce,
+        "x-signature-256": crypto.createHmac("sha256", secret).update(canon).digest("hex"),
+      },
+    });
+    return { status: r.status, body: await r.json() };
+  };
+  return { srv, call };
+}
+
+test("scope wildcards and source CIDRs", () => {
+  assert.ok(scopeAllows(["disputes:open"], "disputes:open"));
+  assert.ok(!scopeAllows(["disputes:open"], "disputes:resolve"));
+  assert.ok(scopeAllows(["disputes:*"], "disputes:resolve"));
+  assert.ok(scopeAllows(["*"], "proofs:write"));
+  assert.ok(!scopeAllows([], "proofs:write"));
+
+  assert.ok(ipAllowed([], "203.0.113.9")); // liste boş → serbest
+  assert.ok(ipAllowed(["10.0.0.0/8"], "10.1.2.3"));
+  assert.ok(ipAllowed(["10.0.0.0/8"], "::ffff:10.1.2.3"));
+  assert.ok(!ipAllowed(["10.0.0.0/8"], "11.0.0.1"));
+  assert.ok(ipAllowed(["2001:db8::/32", "192.0.2.7"], "2001:db8::1"));
+  assert.ok(ipAllowed(["2001:db8::/32", "192.0.2.7"], "192.0.2.7"));
+  assert.ok(!ipAllowed(["192.0.2.7"], "not-an-ip"));
+});
+
+test("a dispute-filing key cannot resolve disputes or append proofs, and CIDRs are enforced", async () => {
+  const keys = keyProvider();
+  await keys.create({ id: "filer", secret: "f".repeat(32), scopes: ["disputes:open"] }, { keyId: "ops" });
+  await keys.create({ id: "remote", secret: "r".repeat(32), scopes: ["*"], cidrs: ["192.0.2.0/24"] }, { keyId: "ops" });
+
+  const app = express();
+  app.use(express.json({ verify: (req: any, _res, buf) => (req._raw = buf) }));
+  app.post("/disputes", requireHmac({ scope: "disputes:open" }), (req, res) => res.json({ ok: true, by: (req as any).auth.keyId }));
+  app.patch("/disputes/d1", requireHmac({ scope: "disputes:resolve" }), (_req, res) => res.json({ ok: true }));
+  app.post("/proof", requireHmac({ scope: "proofs:write" }), (_req, res) => res.json({ ok: true }));
+  const { srv, call } = listen(app);
+  try {
+    const f = "f".repeat(32);
+    assert.deepEqual(await call("POST", "/disputes", "filer", f), { status: 200, body: { ok: true, by: "filer" } });
+    assert.deepEqual(await call("PATCH", "/disputes/d1", "filer", f), {
+      status: 403, body: { ok: false, error: "missing-scope", scope: "disputes:resolve" },
+    });
+    assert.equal((await call("POST", "/proof", "filer", f)).body.error, "missing-scope");
+    // istek 127.0.0.1’den geliyor, anahtar yalnız 192.0.2.0/24’e izinli
+    assert.deepEqual(await call("POST", "/proof", "remote", "r".repeat(32)), {
+      status: 403, body: { ok: false, error: "source-ip-not-allowed" },
+    });
+  } finally {
+    srv.close();
+  }
+});
+
+test("keys without scopes on their record get every non-admin scope", () => {
+  const legacy = authContext("legacy", "hmac", 0);
+  assert.deepEqual(legacy.scopes, NON_ADMIN_SCOPES);
+  assert.ok(scopeAllows(legacy.scopes, "proofs:write"));
+  assert.ok(scopeAllows(legacy.scopes, "disputes:resolve"));
+  for (const s of ["admin:keys", "admin:webhooks", "admin:anchors", "admin:workers"]) assert.ok(!scopeAllows(legacy.scopes, s));
+  // kayıttaki scope’lar varsayılanın yerine geçer
+  assert.deepEqual(authContext("ops", "hmac", 1, { scopes: ["admin:*"] }).scopes, ["admin:*"]);
+});
+
+test("a tenant admin manages only its own tenant's keys", async () => {
+  const keys = keyProvider();
+  const [root, acme] = ["o".repeat(32), "a".repeat(32)];
+  await keys.create({ id: "root-admin", secret: root, scopes: ["admin:keys"] }, { keyId: "ops" });
+  await keys.create({ id: "acme-admin", secret: acme, scopes: ["admin:keys"], tenant: "acme" }, { keyId: "ops" });
+  await keys.create({ id: "globex-worker", secret: "g".repeat(32), tenant: "globex" }, { keyId: "ops" });
+
+  const app = express();
+  app.use(express.json({ verify: (req: any, _res, buf) => (req._raw = buf) }));
+  app.use(keysAdminRoutes(keys));
+  const { srv, call } = listen(app);
+  try {
+    const create = (by: string, secret: string, body: object) => call("POST", "/admin/keys", by, secret, JSON.stringify(body));
+    assert.deepEqual(await create("acme-admin", acme, { id: "acme-x", tenant: "globex" }), {
+      status: 403, body: { ok: false, error: "tenant-mismatch" },
+    });
+    assert.equal((await create("acme-admin", acme, { id: "acme-x", tenant: null })).status, 403);
+    // tenant verilmezse admin’in tenant’ı
+    const made = await create("acme-admin", acme, { id: "acme-worker", scopes: ["proofs:write"] });
+    assert.equal(made.status, 201);
+    assert.equal(made.body.key.tenant, "acme");
+
+    const listed = await call("GET", "/admin/keys", "acme-admin", acme);
+    assert.deepEqual(listed.body.keys.map((k: any) => k.id).sort(), ["acme-admin", "acme-worker"]);
+    assert.equal((await call("GET", "/admin/keys/globex-worker", "acme-admin", acme)).status, 404);
+    assert.equal((await call("POST", "/admin/keys/globex-worker/revoke", "acme-admin", acme)).status, 404);
+    assert.equal((await call("PATCH", "/admin/keys/acme-worker", "acme-admin", acme, JSON.stringify({ tenant: "globex" }))).status, 403);
+    const audit = await call("GET", "/admin/keys/audit", "acme-admin", acme);
+    assert.deepEqual(audit.body.items.map((a: any) => a.keyId), ["acme-worker", "acme-admin"]);
+
+    // global admin her tenant’a anahtar verebilir
+    const global = await create("root-admin", root, { id: "globex-2", tenant: "globex" });
+    assert.equal(global.status, 201);
+    assert.equal(global.body.key.tenant, "globex");
+    assert.equal((await call("GET", "/admin/keys/globex-worker", "root-admin", root)).status, 200);
+  } finally {
+    srv.close();
+  }
+});
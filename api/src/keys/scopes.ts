@@ -0,0 +1,93 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/keys/scopes.ts
+// Anahtar (x-key-id) yetkileri: scope’lar, tenant ve izinli kaynak CIDR’ları.
+// requireHmac / requireSignature doğrulamadan sonra req.auth’u doldurur ve rotanın
+// bildirdiği scope’u burada kontrol eder.
+import type { Request } from "express";
+import { clientIp, ipAllowed } from "../util/ip.js";
+
+/** Rotaların bildirdiği scope’lar; "*" ve "<grup>:*" joker olarak kabul edilir */
+export const SCOPES = [
+  "jobs:lease",        // /next-job, /jobs/:id/heartbeat, /jobs/:id/fail
+  "proofs:write",      // /proof
+  "captures:write",    // /capture-proof
+  "proofs:correct",    // /proofs/:proofId/corrections
+  "disputes:open",     // POST /disputes
+  "disputes:resolve",  // PATCH /disputes/:disputeId
+  "fhe:ingest",        // /api/fhe/ingest
+  "admin:keys",
+  "admin:webhooks",
+  "admin:anchors",
+  "admin:workers",
+] as const;
+export type Scope = (typeof SCOPES)[number];
+
+export const SCOPE_PATTERN = /^(\*|[a-z]+:(\*|[a-z-]+))$/;
+
+/** Kayıtta scope/tenant/CIDR olmayan anahtarlar (ENV, eski privora:hmac) için ayarlar */
+export type KeyAccess = { scopes?: string[]; tenant?: string | null; cidrs?: string[] };
+
+export type AuthContext = {
+  keyId: string;
+  method: "hmac" | "signature";
+  ver: number | null;
+  scopes: string[];
+  tenant: string | null;
+  cidrs: string[];
+};
+
+export type AuthzError = "missing-scope" | "source-ip-not-allowed" | "tenant-mismatch";
+
+/** tenant’ı olmayan anahtarlar (ve anahtarsız okumalar) bu tenant’ta; verisi DATA_DIR kökünde kalır */
+export const DEFAULT_TENANT = "default";
+// harfle/rakamla başlar: "." / ".." dizin adı olarak kullanılamasın
+export const TENANT_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+
+/** admin:* dışındaki scope’lar: scope’u tanımlanmamış anahtarların varsayılanı */
+export const NON_ADMIN_SCOPES: string[] = SCOPES.filter((s) => !s.startsWith("admin:"));
+
+// scope’u tanımlanmamış anahtarlar (ENV, eski privora:hmac) admin rotalarına giremez; admin:* kayıtta,
+// KEY_SCOPES’ta ya da KEY_DEFAULT_SCOPES’ta açıkça verilmeli
+const DEFAULT_SCOPES = process.env.KEY_DEFAULT_SCOPES
+  ? process.env.KEY_DEFAULT_SCOPES.split(/[\s,]+/).filter(Boolean)
+  : NON_ADMIN_SCOPES;
+
+// ENV KEY_SCOPES="partner=disputes:open captures:write,worker=jobs:lease proofs:write"
+function envScopes(keyId: string): string[] | null {
+  for (const p of (process.env.KEY_SCOPES || "").split(",").map((s) => s.trim()).filter(Boolean)) {
+    const [id, list] = p.split("=");
+    if (id === keyId && list !== undefined) return list.split(/\s+/).filter(Boolean);
+  }
+  return null;
+}
+
+export function authContext(keyId: string, method: AuthContext["method"], ver: number | null, access: KeyAccess = {}): AuthContext {
+  return {
+    keyId,
+    method,
+    ver,
+    scopes: access.scopes ?? envScopes(keyId) ?? DEFAULT_SCOPES,
+    tenant: access.tenant ?? null,
+    cidrs: access.cidrs ?? [],
+  };
+}
+
+export function scopeAllows(granted: string[], need: string) {
+  const group = need.split(":")[0];
+  return granted.some((s) => s === "*" || s === need || s === `${group}:*`);
+}
+
+/** null = izinli; aksi halde 403 sebebi */
+export function authorize(req: Request, auth: AuthContext, scope?: string): AuthzError | null {
+  if (!ipAllowed(auth.cidrs, clientIp(req))) return "source-ip-not-allowed";
+  // tenant istek başında x-key-id’den çözüldü; kayıt arada değiştiyse başka tenant’ın verisine dokunulmasın
+  const resolved: string | undefined = (req as any).tenant?.id;
+  if (resolved && resolved !== (auth.tenant ?? DEFAULT_TENANT)) return "tenant-mismatch";
+  if (scope && !scopeAllows(auth.scopes, scope)) return "missing-scope";
+  return null;
+}
+
+/** requireHmac / requireSignature’dan geçmiş isteğin kimliği */
+export function authOf(req: Request): AuthContext | null {
+  return (req as any).auth ?? null;
+}
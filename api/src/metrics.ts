@@ -1,6 +1,7 @@
 // SPDX-License-Identifier: Apache-2.0
 // api/src/metrics.ts
 import client from "prom-client";
+import { registry as appRegistry } from "./metrics/registry.js";
 
 const registry = new client.Registry();
 client.collectDefaultMetrics({ register: registry });
@@ -23,13 +24,13 @@ export const hmacFailCounter = new client.Counter({
   name: "privora_hmac_fail_total",
   help: "HMAC auth failures",
   labelNames: ["reason"],
-  registers: [registry],
+  registers: [registry, appRegistry], // /metrics’te görünsün
 });
 
 export const nonceRejectCounter = new client.Counter({
   name: "privora_nonce_reject_total",
   help: "Nonce replay rejects",
-  registers: [registry],
+  registers: [registry, appRegistry],
 });
 
 export const fheIngestCounter = new client.Counter({
@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/mw/allowlist.ts
+// Tek allowlist motoru: adlandırılmış liste (bkz. allowlist/lists.ts) + güvenilir proxy hop’una göre istemci IP’si.
+// X-Forwarded-For’un yalnız TRUSTED_PROXY_HOPS kadar sağdan girdisine bakılır; istemcinin eklediği
+// sahte girdiler eşleşmeye katılmaz. Red loglanır ve privora_allowlist_denied_total’da sayılır.
+import type { Request, Response, NextFunction } from "express";
+import client from "prom-client";
+import { registry } from "../metrics/registry.js";
+import { allowlists, type AllowlistStore } from "../allowlist/lists.js";
+import { clientIp } from "../util/ip.js";
+
+const deniedCounter = new client.Counter({
+  name: "privora_allowlist_denied_total",
+  help: "Requests rejected by an IP allowlist",
+  labelNames: ["list"],
+  registers: [registry],
+});
+
+export type AllowlistOptions = {
+  env?: string;           // ENV yedeği (varsayılan ALLOWLIST_<AD>)
+  fallback?: string[];    // liste hiçbir kaynakta yoksa geçerli girdiler (yoksa herkes geçer)
+  store?: AllowlistStore; // test için
+};
+
+/** Yönetim uçlarının varsayılanı: "admin" listesi tanımlanana kadar yalnız aynı makineden */
+export const LOOPBACK = ["127.0.0.1", "::1"];
+
+/** İstemci IP’si listede değilse reddeder ve loglar; true = geçti */
+export function checkAllowlist(name: string, req: Request, opts: AllowlistOptions = {}) {
+  const ip = clientIp(req);
+  if ((opts.store ?? allowlists()).allows(name, ip, opts.env, opts.fallback)) return true;
+  recordDenied(name, ip, req);
+  return false;
+}
+
+export function recordDenied(name: string, ip: string, req: Request) {
+  deniedCounter.inc({ list: name });
+  // eslint-disable-next-line no-console
+  console.warn(`[allowlist] ${name} denied ip=${ip || "?"} ${req.method} ${req.originalUrl}`);
+}
+
+export function allowlist(name: string, opts: AllowlistOptions = {}) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (checkAllowlist(name, req, opts)) return next();
+    return res.status(403).json({ ok: false, error: "forbidden" });
+  };
+}
@@ -0,0 +1,93 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/mw/idempotency.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { idempotency } from "./idempotency.js";
+
+// REDIS_URL yok → bellek içi fallback
+async function withApp(fn: (base: string, calls: () => number) => Promise<void>) {
+  delete process.env.REDIS_URL;
+  let n = 0;
+  const app = express();
+  app.use(express.json());
+  // requireHmac / requireSignature yerine: doğrulanmış kimliği x-test-auth’tan koy
+  app.use((req, _res, next) => {
+    const keyId = req.header("x-test-auth");
+    if (keyId) (req as any).auth = { keyId };
+    next();
+  });
+  app.post("/submit", idempotency({ scope: "test" }), (req, res, next) => {
+    n++;
+    if (req.body?.fail) return res.status(500).json({ ok: false, error: "boom" });
+    if (req.body?.throw) return next(new Error("boom"));
+    if (req.body?.text) return res.send("ok");
+    return res.json({ ok: true, jobId: `job-${n}` });
+  });
+  const srv = app.listen(0);
+  try {
+    await fn(`http://127.0.0.1:${(srv.address() as AddressInfo).port}`, () => n);
+  } finally {
+    srv.close();
+  }
+}
+
+const post = (base: string, body: unknown, headers: Record<string, string> = {}) =>
+  fetch(base + "/submit", {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+
+test("same key + same body replays the first response without re-running the handler", () =>
+  withApp(async (base, calls) => {
+    const h = { "idempotency-key": "k-1" };
+    const a = await post(base, { payload: 1 }, h);
+    const b = await post(base, { payload: 1 }, h);
+    assert.equal(a.status, 200);
+    assert.equal(b.status, 200);
+    assert.deepEqual(await b.json(), await a.json());
+    assert.equal(b.headers.get("idempotent-replayed"), "true");
+    assert.equal(calls(), 1);
+
+    // başlıksız istekler etkilenmez
+    await post(base, { payload: 1 });
+    await post(base, { payload: 1 });
+    assert.equal(calls(), 3);
+  }));
+
+test("same key with a different body is rejected with 409", () =>
+  withApp(async (base, calls) => {
+    const h = { "idempotency-key": "k-2" };
+    assert.equal((await post(base, { payload: 1 }, h)).status, 200);
+    const r = await post(base, { payload: 2 }, h);
+    assert.equal(r.status, 409);
+    assert.equal((await r.json()).error, "idempotency-key-reuse");
+    // anahtarlar doğrulanmış anahtar kimliği başına ayrı; ham x-key-id başlığı kovayı değiştirmez
+    assert.equal((await post(base, { payload: 2 }, { ...h, "x-key-id": "other" })).status, 409);
+    assert.equal((await post(base, { payload: 2 }, { ...h, "x-test-auth": "other" })).status, 200);
+    assert.equal(calls(), 2);
+  }));
+
+test("5xx responses are not stored so the key can be retried", () =>
+  withApp(async (base, calls) => {
+    const h = { "idempotency-key": "k-3" };
+    assert.equal((await post(base, { fail: true }, h)).status, 500);
+    assert.equal((await post(base, { fail: true }, h)).status, 500);
+    assert.equal(calls(), 2);
+    assert.equal((await post(base, { payload: 1 }, { "idempotency-key": "bad key" })).status, 400);
+  }));
+
+test("responses that bypass res.json release the key instead of leaving it pending", () =>
+  withApp(async (base, calls) => {
+    const h = { "idempotency-key": "k-4" };
+    assert.equal((await post(base, { throw: true }, h)).status, 500);
+    assert.equal((await post(base, { throw: true }, h)).status, 500);
+    assert.equal(calls(), 2);
+
+    const t = { "idempotency-key": "k-5" };
+    assert.equal((await post(base, { text: true }, t)).status, 200);
+    assert.equal((await post(base, { text: true }, t)).status, 200);
+    assert.equal(calls(), 4);
+  }));
@@ -0,0 +1,120 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/mw/idempotency.ts
+import type { Request, Response, NextFunction } from "express";
+import crypto from "node:crypto";
+import { Redis } from "ioredis";
+import { tenantIdOf, tenantRedisKey } from "../tenant/namespace.js";
+import { authOf } from "../keys/scopes.js";
+
+/**
+ * Idempotency-Key desteği:
+ * - Aynı anahtar + aynı istek (METHOD, PATH, SHA256(rawBody)) → ilk yanıt aynen tekrar oynatılır
+ *   (Idempotent-Replayed: true)
+ * - Aynı anahtar + farklı gövde → 409 idempotency-key-reuse
+ * - İlk istek hâlâ işleniyorsa → 409 idempotency-request-in-progress
+ * - 5xx ve 429 yanıtlar saklanmaz (geçici; istemci aynı anahtarla tekrar deneyebilir); res.json dışında
+ *   biten (hata middleware’i, res.send/end) ya da yarıda kopan isteklerin anahtarı hemen serbest bırakılır
+ * Anahtarlar tenant ve doğrulanmış anahtar kimliği (imzasız rotalarda "anon") başına ayrılır. Redis (REDIS_URL) yoksa sınırlı bellek içi fallback.
+ */
+type Entry =
+  | { state: "pending"; fp: string }
+  | { state: "done"; fp: string; status: number; body: unknown };
+
+const TTL_SEC = Number(process.env.IDEMPOTENCY_TTL_SEC || 86400);
+// işlenirken çöken / yanıtsız kalan isteğin anahtarı bu süreden sonra serbest kalır
+const PENDING_TTL_SEC = Number(process.env.IDEMPOTENCY_PENDING_TTL_SEC || 60);
+const MEM_MAX = Number(process.env.IDEMPOTENCY_MEM_MAX || 10000);
+const KEY_RE = /^[\x21-\x7e]{1,255}$/;
+
+let redis: Redis | null = null;
+function lazyRedis() {
+  if (!redis && process.env.REDIS_URL) redis = new Redis(process.env.REDIS_URL);
+  return redis;
+}
+
+// bounded in-memory fallback (tek instance / dev)
+const mem = new Map<string, { e: Entry; exp: number }>();
+
+async function claim(key: string, fp: string): Promise<Entry | null> {
+  const r = lazyRedis();
+  const pending: Entry = { state: "pending", fp };
+  if (r) {
+    const ok = await r.set(key, JSON.stringify(pending), "EX", PENDING_TTL_SEC, "NX");
+    if (ok === "OK") return null;
+    const raw = await r.get(key);
+    return raw ? (JSON.parse(raw) as Entry) : claim(key, fp); // arada süresi dolduysa tekrar dene
+  }
+  const now = Date.now();
+  const cur = mem.get(key);
+  if (cur && cur.exp > now) return cur.e;
+  if (mem.size >= MEM_MAX) {
+    for (const k of Array.from(mem.keys()).slice(0, Math.ceil(MEM_MAX * 0.1))) mem.delete(k);
+  }
+  mem.set(key, { e: pending, exp: now + PENDING_TTL_SEC * 1000 });
+  return null;
+}
+
+async function settle(key: string, e: Entry | null) {
+  const r = lazyRedis();
+  if (r) {
+    if (e) await r.set(key, JSON.stringify(e), "EX", TTL_SEC);
+    else await r.del(key);
+    return;
+  }
+  if (e) mem.set(key, { e, exp: Date.now() + TTL_SEC * 1000 });
+  else mem.delete(key);
+}
+
+export function idempotency(opts: { scope: string }) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const idemKey = req.header("idempotency-key");
+    if (idemKey === undefined) return next();
+    if (!KEY_RE.test(idemKey)) return res.status(400).json({ ok: false, error: "bad-idempotency-key" });
+
+    // ham x-key-id başlığı değil: imzasız istek başka bir anahtarın kovasına yazamasın
+    const keyId = authOf(req)?.keyId ?? "anon";
+    const raw: Buffer = (req as any)._raw ?? Buffer.from(JSON.stringify(req.body ?? ""));
+    const pathname = (req.originalUrl || req.url || "").split("?")[0];
+    const fp = crypto
+      .createHash("sha256")
+      .update([req.method.toUpperCase(), pathname, crypto.createHash("sha256").update(raw).digest("hex")].join("\n"))
+      .digest("hex");
+    const key =
+      tenantRedisKey(tenantIdOf(req), `privora:idem:${opts.scope}:${keyId}:`) +
+      crypto.createHash("sha256").update(idemKey).digest("hex");
+
+    let prev: Entry | null;
+    try {
+      prev = await claim(key, fp);
+    } catch (e) {
+      return next(e);
+    }
+    if (prev) {
+      if (prev.fp !== fp) return res.status(409).json({ ok: false, error: "idempotency-key-reuse" });
+      if (prev.state === "pending") return res.status(409).json({ ok: false, error: "idempotency-request-in-progress" });
+      res.setHeader("Idempotent-Replayed", "true");
+      return res.status(prev.status).json(prev.body);
+    }
+
+    // ilk istek: yanıtı yakala ve sakla
+    let settled = false;
+    const finish = (e: Entry | null) => {
+      if (settled) return;
+      settled = true;
+      settle(key, e).catch((err) => {
+        // eslint-disable-next-line no-console
+        console.error("[idempotency] store failed", err);
+      });
+    };
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      const status = res.statusCode;
+      finish(status < 500 && status !== 429 ? { state: "done", fp, status, body } : null);
+      return json(body);
+    };
+    // yanıt res.json’dan geçmeden bitti ya da bağlantı koptu: PENDING_TTL_SEC beklenmeden serbest bırak
+    res.once("finish", () => finish(null));
+    res.once("close", () => finish(null));
+    return next();
+  };
+}
@@ -1,17 +1,12 @@
 // SPDX-License-Identifier: Apache-2.0
 // api/src/mw/ipAllowlist.ts
-import type { Request, Response, NextFunction } from "express";
+import { allowlist } from "./allowlist.js";
 
-/** Comma-separated IPv4/IPv6 list in env (e.g. "1.2.3.4, 10.0.0.0/8" is NOT supported, only exact IPs). */
+/**
+ * ENV anahtarından türeyen adlandırılmış liste: "ALLOWLIST_INGEST" → "ingest".
+ * Redis/ALLOWLIST_FILE’da aynı adla liste varsa o geçerli; yoksa ENV (tek IP ya da CIDR, virgülle).
+ */
 export function ipAllowlistEnv(envKey: string) {
-  const allow = (process.env[envKey] || "")
-    .split(",")
-    .map((s) => s.trim())
-    .filter(Boolean);
-  return (req: Request, res: Response, next: NextFunction) => {
-    if (allow.length === 0) return next();
-    const ip = (req.ips && req.ips.length ? req.ips[0] : req.ip) || "";
-    if (allow.includes(ip)) return next();
-    return res.status(403).json({ ok: false, error: "forbidden" });
-  };
+  const name = envKey.replace(/^ALLOWLIST_/, "").toLowerCase().replace(/_/g, "-");
+  return allowlist(name, { env: envKey });
 }
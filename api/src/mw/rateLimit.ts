@@ -2,6 +2,8 @@
 // api/src/mw/rateLimit.ts
 import type { Request, Response, NextFunction } from "express";
 import { createClient, RedisClientType } from "redis";
+import { tenantIdOf, tenantRedisKey } from "../tenant/namespace.js";
+import { clientIp } from "../util/ip.js";
 
 let _redis: RedisClientType | null = null;
 async function redis() {
@@ -12,14 +14,14 @@ async function redis() {
   return _redis;
 }
 
-/** Token-bucket (Redis) — key: x-api-key + ip */
+/** Token-bucket (Redis) — key: tenant + x-api-key + ip (tenant’lar birbirinin kovasını tüketemez) */
 export function rateLimit(opts: { bucketSize: number; refillPerSec: number }) {
   const { bucketSize, refillPerSec } = opts;
   return async (req: Request, res: Response, next: NextFunction) => {
     const r = await redis();
     const apiKey = req.header("x-api-key") || "anon";
-    const ip = req.ip || req.socket.remoteAddress || "unknown";
-    const id = `rl:${apiKey}:${ip}`;
+    const ip = clientIp(req) || "unknown";
+    const id = tenantRedisKey(tenantIdOf(req), `rl:${apiKey}:${ip}`);
 
     const nowMs = Date.now();
     const st = await r.hGetAll(id);
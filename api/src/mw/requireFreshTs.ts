@@ -9,9 +9,18 @@ function parseTs(v: string | undefined): number | null {
   return Number.isNaN(t) ? null : t;
 }
 
+const WINDOW_SEC = Number(process.env.HMAC_WINDOW_SEC || 300);
+const MAX_SKEW_SEC = Number(process.env.HMAC_MAX_SKEW_SEC || 10);
+
+/** x-ts pencere içinde mi (middleware dışı kullanım, örn. tenant çözümü) */
+export function isFreshTs(v: string | undefined, now = Date.now()) {
+  const t = parseTs(v);
+  return t != null && Math.abs(now - t) / 1000 <= WINDOW_SEC + MAX_SKEW_SEC;
+}
+
 export function requireFreshTs(opts?: { windowSec?: number; maxSkewSec?: number }) {
-  const windowSec = opts?.windowSec ?? Number(process.env.HMAC_WINDOW_SEC || 300);
-  const maxSkewSec = opts?.maxSkewSec ?? Number(process.env.HMAC_MAX_SKEW_SEC || 10);
+  const windowSec = opts?.windowSec ?? WINDOW_SEC;
+  const maxSkewSec = opts?.maxSkewSec ?? MAX_SKEW_SEC;
   return (req: Request, res: Response, next: NextFunction) => {
     const tsHeader = String(req.header("x-ts") || "");
     const t = parseTs(tsHeader);
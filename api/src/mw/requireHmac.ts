@@ -2,8 +2,12 @@
 // api/src/mw/requireHmac.ts
 import type { Request, Response, NextFunction } from "express";
 import crypto from "node:crypto";
-import { checkAndSetNonce } from "../util/nonceStore.js";
-import { loadKeyFromKMS } from "../util/kmsKeyProvider.js";
+import { keyProvider } from "../keys/keyProvider.js";
+import { authContext, authorize, type KeyAccess, type Scope } from "../keys/scopes.js";
+import { canonicalRequest, consumeNonce, headerOf, type SignedRequest } from "../util/requestCanonical.js";
+import { noteRiskSignal } from "../risk/engine.js";
+import { hmacFailCounter } from "../metrics.js";
+import { requireSignature } from "./requireSignature.js";
 
 /**
  * Helper: compute HMAC-SHA256 in hex
@@ -23,63 +27,71 @@ function timingSafeEqHex(aHex: string, bHex: string) {
   return crypto.timingSafeEqual(a, b);
 }
 
+export type RequestAuthResult =
+  | { ok: true; keyId: string; ver: number | null; access: KeyAccess }
+  | { ok: false; status: 400 | 401; error: string };
+
+/**
+ * Yalnız HMAC’i doğrular (nonce tüketmez, yetki bakmaz). requireHmac ve tenant çözümü (tenant/resolve.ts) ortak kullanır.
+ */
+export async function verifyHmacRequest(req: SignedRequest): Promise<RequestAuthResult> {
+  const keyId = headerOf(req, "x-key-id") || "default";
+  const providedSig = headerOf(req, "x-signature-256");
+  const nonce = headerOf(req, "x-nonce");
+  const ts = headerOf(req, "x-ts");
+  if (!providedSig || !nonce || !ts) return { ok: false, status: 401, error: "missing-auth-headers" };
+  const rawVer = req.headers["x-key-ver"] === undefined ? undefined : headerOf(req, "x-key-ver");
+  if (rawVer !== undefined && !/^\d{1,9}$/.test(rawVer)) return { ok: false, status: 400, error: "bad-key-ver" };
+
+  // Rotasyon sırasında (grace) eski ve yeni sürüm birlikte geçerlidir
+  const canonical = canonicalRequest(req, ts, nonce);
+  const result = await keyProvider().verify(
+    keyId,
+    rawVer === undefined ? null : Number(rawVer),
+    (secret) => timingSafeEqHex(hmac256(secret, canonical), providedSig)
+  );
+  if (!result.ok) return { ok: false, status: 401, error: result.error };
+  return { ok: true, keyId, ver: result.ver, access: (await keyProvider().get(keyId)) ?? {} };
+}
+
 /**
- * Canonical String Format (shared by Zero1 and Privora):
- * ```
- * METHOD\nPATH\nSHA256(rawBody)\nx-ts\nx-nonce
- * ```
+ * Canonical string: bkz. util/requestCanonical.ts (requireSignature ile ortak)
  * Required Headers:
  * - x-signature-256
  * - x-nonce
  * - x-ts
  * Optional:
  * - x-key-id (defaults to "default")
+ * - x-key-ver (hangi anahtar sürümüyle imzalandığı; yoksa geçerli tüm sürümler denenir)
+ * opts.scope: rotanın gerektirdiği yetki; anahtarda yoksa (ya da istek izinli CIDR dışından geliyorsa) 403
  */
-export function requireHmac() {
+export function requireHmac(opts: { scope?: Scope } = {}) {
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const keyId = (req.header("x-key-id") || "default").trim();
-      const providedSig = String(req.header("x-signature-256") || "").trim();
-      const nonce = String(req.header("x-nonce") || "").trim();
-      const ts = String(req.header("x-ts") || "").trim();
-
-      if (!providedSig || !nonce || !ts) {
-        return res.status(401).json({ ok: false, error: "missing-auth-headers" });
+      const v = await verifyHmacRequest(req);
+      if (!v.ok) {
+        if (v.error !== "missing-auth-headers" && v.error !== "bad-key-ver") {
+          hmacFailCounter.inc({ reason: v.error });
+          noteRiskSignal(req, "hmacFails");
+        }
+        return res.status(v.status).json({ ok: false, error: v.error });
       }
 
-      // Load HMAC key dynamically from Redis/KMS/ENV
-      const secret = await loadKeyFromKMS(keyId);
-      if (!secret) {
-        return res.status(401).json({ ok: false, error: "unknown-key" });
-      }
-
-      // Use raw body captured in server.ts (req._raw)
-      const raw = (req as any)._raw ?? Buffer.from(JSON.stringify(req.body ?? ""));
-      const bodyHash = crypto.createHash("sha256").update(raw).digest("hex");
-
-      const pathname = (req.originalUrl || req.url || req.path || "").split("?")[0];
-      const canonical = [
-        req.method.toUpperCase(),
-        pathname,
-        bodyHash,
-        ts,
-        nonce,
-      ].join("\n");
-
-      // Compute expected signature
-      const expected = hmac256(secret, canonical);
-      if (!timingSafeEqHex(expected, providedSig)) {
-        return res.status(401).json({ ok: false, error: "invalid-signature" });
+      const auth = authContext(v.keyId, "hmac", v.ver, v.access);
+      const denied = authorize(req, auth, opts.scope);
+      if (denied) {
+        return res.status(403).json({ ok: false, error: denied, ...(denied === "missing-scope" ? { scope: opts.scope } : {}) });
       }
 
       // Nonce replay protection
-      const ttl = Number(process.env.NONCE_TTL_SEC || 600);
-      const nonceKey = `${keyId}:${nonce}`;
-      const valid = await checkAndSetNonce(nonceKey, ttl);
+      const valid = await consumeNonce(v.keyId, headerOf(req, "x-nonce"));
       if (!valid) {
+        hmacFailCounter.inc({ reason: "replay-detected" });
+        noteRiskSignal(req, "nonceReplays");
         return res.status(401).json({ ok: false, error: "replay-detected" });
       }
 
+      (req as any).auth = auth;
       return next();
     } catch (err) {
       console.error("HMAC verification error:", err);
@@ -87,3 +99,13 @@ export function requireHmac() {
     }
   };
 }
+
+/**
+ * Partner uçları için: x-signature varsa asimetrik imza (requireSignature), yoksa HMAC (x-signature-256).
+ */
+export function requireHmacOrSignature(opts: { scope?: Scope } = {}) {
+  const sig = requireSignature(opts);
+  const hmac = requireHmac(opts);
+  return (req: Request, res: Response, next: NextFunction) =>
+    req.header("x-signature") ? sig(req, res, next) : hmac(req, res, next);
+}
@@ -0,0 +1,82 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/mw/requireSignature.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { requireSignature } from "./requireSignature.js";
+import { consumeNonce } from "../util/requestCanonical.js";
+
+const ed = crypto.generateKeyPairSync("ed25519");
+const p256 = crypto.generateKeyPairSync("ec", { namedCurve: "P-256" });
+const spki = (k: crypto.KeyObject) => k.export({ format: "der", type: "spki" }).toString("base64");
+
+// REDIS_URL yok → ENV anahtarları + bellek içi nonce
+async function withApp(fn: (base: string) => Promise<void>) {
+  delete process.env.REDIS_URL;
+  process.env.NODE_ENV = "test";
+  process.env.SIG_PUBLIC_KEYS = [
+    `partner-ed=ed25519:${spki(ed.publicKey)}`,
+    `partner-ec=p256:${spki(p256.publicKey)}`,
+  ].join(",");
+  const app = express();
+  app.use(express.json({ verify: (req: any, _res, buf) => (req._raw = buf) }));
+  app.post("/disputes", requireSignature(), (_req, res) => res.json({ ok: true }));
+  const srv = app.listen(0);
+  try {
+    await fn(`http://127.0.0.1:${(srv.address() as AddressInfo).port}`);
+  } finally {
+    srv.close();
+  }
+}
+
+function headers(keyId: string, body: string, sign: (canon: Buffer) => Record<string, string>, nonce = crypto.randomUUID()) {
+  const ts = String(Date.now());
+  const bodyHash = crypto.createHash("sha256").update(body).digest("hex");
+  const canon = Buffer.from(["POST", "/disputes", bodyHash, ts, nonce].join("\n"));
+  return { "content-type": "application/json", "x-key-id": keyId, "x-ts": ts, "x-nonce": nonce, ...sign(canon) };
+}
+const edSig = (c: Buffer) => ({ "x-signature": crypto.sign(null, c, ed.privateKey).toString("base64") });
+const ecSig = (c: Buffer) => ({
+  "x-signature": crypto.sign("sha256", c, { key: p256.privateKey, dsaEncoding: "ieee-p1363" }).toString("base64url"),
+});
+
+const post = (base: string, body: string, h: Record<string, string>) =>
+  fetch(base + "/disputes", { method: "POST", headers: h, body });
+
+test("Ed25519 and P-256 signatures over the canonical string are accepted", () =>
+  withApp(async (base) => {
+    const body = JSON.stringify({ proofId: "p1" });
+    assert.equal((await post(base, body, headers("partner-ed", body, edSig))).status, 200);
+    assert.equal((await post(base, body, headers("partner-ec", body, ecSig))).status, 200);
+  }));
+
+test("tampered bodies, wrong keys and unknown key ids are rejected", () =>
+  withApp(async (base) => {
+    const body = JSON.stringify({ proofId: "p1" });
+    const h = headers("partner-ed", body, edSig);
+    const r1 = await post(base, JSON.stringify({ proofId: "p2" }), h);
+    assert.equal(r1.status, 401);
+    assert.equal((await r1.json()).error, "invalid-signature");
+    // P-256 imzası Ed25519 anahtarıyla kayıtlı id altında geçmez (algoritmayı anahtar belirler)
+    assert.equal((await post(base, body, headers("partner-ed", body, ecSig))).status, 401);
+    const r3 = await post(base, body, headers("nobody", body, edSig));
+    assert.equal((await r3.json()).error, "unknown-key");
+  }));
+
+test("a nonce is single-use, shared with the HMAC nonce store", () =>
+  withApp(async (base) => {
+    const body = JSON.stringify({ proofId: "p1" });
+    const h = headers("partner-ed", body, edSig);
+    assert.equal((await post(base, body, h)).status, 200);
+    const r = await post(base, body, h);
+    assert.equal(r.status, 401);
+    assert.equal((await r.json()).error, "replay-detected");
+
+    // requireHmac aynı keyId:nonce kaydını kullanır
+    const nonce = crypto.randomUUID();
+    assert.equal(await consumeNonce("partner-ed", nonce), true);
+    const r2 = await post(base, body, headers("partner-ed", body, edSig, nonce));
+    assert.equal((await r2.json()).error, "replay-detected");
+  }));
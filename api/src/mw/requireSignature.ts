@@ -0,0 +1,68 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/mw/requireSignature.ts
+import type { Request, Response, NextFunction } from "express";
+import crypto from "node:crypto";
+import { loadPublicKey } from "../keys/publicKeys.js";
+import { authContext, authorize, type Scope } from "../keys/scopes.js";
+import { canonicalRequest, consumeNonce, headerOf, type SignedRequest } from "../util/requestCanonical.js";
+import type { RequestAuthResult } from "./requireHmac.js";
+import { noteRiskSignal } from "../risk/engine.js";
+
+/** Yalnız asimetrik imzayı doğrular (nonce tüketmez, yetki bakmaz); bkz. verifyHmacRequest */
+export async function verifySignatureRequest(req: SignedRequest): Promise<RequestAuthResult> {
+  const keyId = headerOf(req, "x-key-id");
+  const providedSig = headerOf(req, "x-signature");
+  const nonce = headerOf(req, "x-nonce");
+  const ts = headerOf(req, "x-ts");
+  if (!keyId || !providedSig || !nonce || !ts) return { ok: false, status: 401, error: "missing-auth-headers" };
+
+  const pub = await loadPublicKey(keyId);
+  if (!pub) return { ok: false, status: 401, error: "unknown-key" };
+
+  const data = Buffer.from(canonicalRequest(req, ts, nonce));
+  const sig = Buffer.from(providedSig, "base64");
+  const valid = pub.alg === "ed25519"
+    ? sig.length === 64 && crypto.verify(null, data, pub.key, sig)
+    : crypto.verify("sha256", data, { key: pub.key, dsaEncoding: sig.length === 64 ? "ieee-p1363" : "der" }, sig);
+  if (!valid) return { ok: false, status: 401, error: "invalid-signature" };
+  return { ok: true, keyId, ver: null, access: pub };
+}
+
+/**
+ * Asimetrik istek imzası: partner özel anahtarını kendinde tutar, biz yalnız açık anahtarı biliriz.
+ * requireHmac ile aynı kanonik string (METHOD\nPATH\nSHA256(rawBody)\nx-ts\nx-nonce) ve aynı nonce alanı.
+ * Required Headers:
+ * - x-key-id (kayıtlı açık anahtar; algoritmayı anahtar belirler)
+ * - x-signature (base64/base64url; Ed25519 64 byte, P-256 ECDSA-SHA256 r||s 64 byte ya da DER)
+ * - x-nonce
+ * - x-ts
+ * opts.scope: requireHmac ile aynı yetki kontrolü (scope / tenant / CIDR açık anahtar kaydından)
+ */
+export function requireSignature(opts: { scope?: Scope } = {}) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const v = await verifySignatureRequest(req);
+      if (!v.ok) {
+        if (v.error !== "missing-auth-headers") noteRiskSignal(req, "hmacFails");
+        return res.status(v.status).json({ ok: false, error: v.error });
+      }
+
+      const auth = authContext(v.keyId, "signature", null, v.access);
+      const denied = authorize(req, auth, opts.scope);
+      if (denied) {
+        return res.status(403).json({ ok: false, error: denied, ...(denied === "missing-scope" ? { scope: opts.scope } : {}) });
+      }
+
+      if (!(await consumeNonce(v.keyId, headerOf(req, "x-nonce")))) {
+        noteRiskSignal(req, "nonceReplays");
+        return res.status(401).json({ ok: false, error: "replay-detected" });
+      }
+
+      (req as any).auth = auth;
+      return next();
+    } catch (err) {
+      console.error("Signature verification error:", err);
+      return res.status(401).json({ ok: false, error: "auth-failed" });
+    }
+  };
+}
@@ -0,0 +1,99 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/risk/engine.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import type { Request } from "express";
+import { RiskEngine, noteRiskError, payloadEntropy } from "./engine.js";
+import { registry } from "../metrics/registry.js";
+import { explainRisk, loadRiskRules, DEFAULT_RULES } from "./riskScore.js";
+
+const fakeReq = (ip: string, headers: Record<string, string> = {}) =>
+  ({ headers, header: (n: string) => headers[n.toLowerCase()], socket: { remoteAddress: ip } }) as unknown as Request;
+
+test("rules are configurable and explain the score", () => {
+  const r = explainRisk({ reqRatePerMin: 200, hmacFailRate: 0.5, payloadSize: 10 });
+  assert.equal(r.score, 75);
+  assert.deepEqual(r.reasons.map((x) => x.rule), ["req-rate", "hmac-fail-rate"]);
+  // entropi kuralı küçük gövdede uygulanmaz
+  assert.equal(explainRisk({ payloadEntropy: 7.9, payloadSize: 100 }).score, 0);
+  assert.equal(explainRisk({ payloadEntropy: 7.9, payloadSize: 4096 }).reasons[0].rule, "payload-entropy-high");
+
+  const custom = loadRiskRules(JSON.stringify([{ id: "burst", signal: "reqRatePerMin", op: ">=", value: 3, score: 70 }]));
+  assert.equal(explainRisk({ reqRatePerMin: 3 }, custom).score, 70);
+  assert.equal(loadRiskRules("{ not json"), DEFAULT_RULES);
+  assert.equal(loadRiskRules(JSON.stringify([{ id: "x", signal: "nope", op: ">", value: 1, score: 1 }])), DEFAULT_RULES);
+});
+
+test("default rules flag a large payload that /submit still accepts", async () => {
+  const engine = new RiskEngine(null, { windowSec: 60, rules: DEFAULT_RULES, mode: "enforce" });
+  const payload = { doc: "lorem ipsum dolor sit amet ".repeat(4000) }; // ~105 KiB < 256 KiB /submit sınırı
+  const size = Buffer.byteLength(JSON.stringify(payload));
+  assert.ok(size > 64 * 1024 && size < 256 * 1024);
+  const d = await engine.assess(fakeReq("203.0.113.7"), { route: "submit", payload });
+  assert.deepEqual(d.reasons.map((r) => r.rule), ["payload-size"]);
+  assert.equal(d.score, 20);
+});
+
+test("payload entropy separates random blobs from text", () => {
+  assert.equal(payloadEntropy(Buffer.alloc(0)), 0);
+  assert.equal(payloadEntropy(Buffer.alloc(2048, "a")), 0);
+  assert.ok(payloadEntropy(crypto.randomBytes(8192)) > 7.9);
+  assert.ok(payloadEntropy(Buffer.from(JSON.stringify({ msg: "hello world ".repeat(100) }))) < 4);
+});
+
+test("sliding-window signals per key and IP drive the decision; dry-run never enforces", async () => {
+  const rules = loadRiskRules(
+    JSON.stringify([
+      { id: "burst", signal: "reqRatePerMin", op: ">", value: 4, score: 40 },
+      { id: "dup", signal: "dupProofs", op: ">=", value: 1, score: 30 },
+      { id: "auth", signal: "hmacFails", op: ">=", value: 2, score: 30 },
+    ])
+  );
+  const t0 = 1_000_000 * 60_000; // kova başı
+  const enforce = new RiskEngine(null, { windowSec: 60, rules, mode: "enforce", threshold: 60 });
+  const dry = new RiskEngine(null, { windowSec: 60, rules, mode: "dry-run", threshold: 60 });
+
+  const a = fakeReq("203.0.113.5", { "x-api-key": "alpha" });
+  let d = await enforce.assess(a, { route: "submit", payload: { n: 1 }, now: t0 });
+  assert.equal(d.action, "allow");
+  assert.equal(d.inputs.reqRatePerMin, 1);
+
+  d = await enforce.assess(a, { route: "submit", payload: { n: 1 }, now: t0 + 1000 }); // aynı içerik
+  assert.deepEqual(d.reasons.map((r) => r.rule), ["dup"]);
+  assert.equal(d.inputs.dupProofs, 1);
+
+  // imza hataları IP üzerinden aynı pencereye yazılır
+  await enforce.record("default", ["ip:203.0.113.5"], "hmacFails", 2, t0 + 2000);
+  d = await enforce.assess(a, { route: "submit", payload: { n: 3 }, now: t0 + 3000 });
+  assert.equal(d.score, 60);
+  assert.equal(d.action, "challenge");
+  assert.equal(d.enforced, true);
+
+  // başka IP + başka anahtar temiz
+  d = await enforce.assess(fakeReq("198.51.100.1", { "x-api-key": "beta" }), { route: "submit", payload: { n: 1 }, now: t0 + 3000 });
+  assert.equal(d.score, 0);
+
+  // pencere kayınca eski sayaçlar ağırlığını yitirir
+  d = await enforce.assess(a, { route: "submit", payload: { n: 4 }, now: t0 + 119_000 });
+  assert.equal(d.inputs.hmacFails, 0);
+
+  for (let i = 0; i < 6; i++) d = await dry.assess(fakeReq("192.0.2.9"), { route: "submit", payload: { i }, now: t0 + i });
+  assert.equal(d.action, "allow");
+  await dry.record("default", ["ip:192.0.2.9"], "hmacFails", 2, t0 + 10);
+  d = await dry.assess(fakeReq("192.0.2.9"), { route: "submit", payload: { i: 99 }, now: t0 + 20 });
+  assert.equal(d.action, "challenge");
+  assert.equal(d.mode, "dry-run");
+  assert.equal(d.enforced, false);
+});
+
+test("a failing risk backend fails open and is counted", async () => {
+  const broken = { multi: () => { throw new Error("redis down"); } } as any;
+  const engine = new RiskEngine(broken, { windowSec: 60, mode: "enforce" });
+  const errors = async () =>
+    (await registry.getSingleMetric("privora_risk_errors_total")!.get()).values.find((v) => v.labels.route === "submit")?.value ?? 0;
+  const before = await errors();
+  const risk = await engine.assess(fakeReq("203.0.113.5"), { route: "submit", payload: {} }).catch((e) => noteRiskError("submit", e));
+  assert.equal(risk, undefined);
+  assert.equal(await errors(), before + 1);
+});
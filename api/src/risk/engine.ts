@@ -0,0 +1,259 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/risk/engine.ts
+// Risk motoru: API anahtarı ve IP başına kayan pencere sayaçları (istek, imza hatası, nonce tekrarı,
+// tekrar eden içerik kimliği) + istek gövdesinin boyutu/entropisi → risk/riskScore.ts kuralları.
+// Sayaçlar iki sabit kovadan yaklaşık kayan pencere: önceki kova, pencerede kalan payı kadar sayılır.
+// Redis (REDIS_URL) yoksa sınırlı bellek içi fallback (tek instance).
+// RISK_MODE=dry-run (varsayılan): skor hesaplanır, loglanır ve metriklere yazılır ama challenge verilmez;
+// eşikler ayarlanınca RISK_MODE=enforce.
+import type { Request } from "express";
+import { Redis } from "ioredis";
+import crypto from "node:crypto";
+import client from "prom-client";
+import { registry } from "../metrics/registry.js";
+import { clientIp } from "../util/ip.js";
+import { tenantIdOf, tenantRedisKey } from "../tenant/namespace.js";
+import { POW_THRESHOLD } from "./pow.js";
+import { explainRisk, loadRiskRules, type Inputs, type RiskReason, type RiskRule } from "./riskScore.js";
+
+export type RiskCounter = "requests" | "hmacFails" | "nonceReplays" | "dupContent";
+export type RiskMode = "dry-run" | "enforce";
+
+export type RiskDecision = {
+  score: number;
+  reasons: RiskReason[];
+  inputs: Inputs;
+  mode: RiskMode;
+  action: "allow" | "challenge";
+  enforced: boolean;          // false: dry-run’da challenge gerekirdi ama verilmedi
+};
+
+const WINDOW_SEC = Number(process.env.RISK_WINDOW_SEC || 60);
+const DUP_TTL_SEC = Number(process.env.RISK_DUP_TTL_SEC || 3600);
+const MEM_MAX = Number(process.env.RISK_MEM_MAX || 50000);
+const MODE: RiskMode = process.env.RISK_MODE === "enforce" ? "enforce" : "dry-run";
+
+const decisionCounter = new client.Counter({
+  name: "privora_risk_decisions_total",
+  help: "Risk decisions by route, action and mode",
+  labelNames: ["route", "action", "mode"],
+  registers: [registry],
+});
+const ruleCounter = new client.Counter({
+  name: "privora_risk_rule_hits_total",
+  help: "Risk rules that matched",
+  labelNames: ["rule"],
+  registers: [registry],
+});
+const errorCounter = new client.Counter({
+  name: "privora_risk_errors_total",
+  help: "Risk checks that failed and were skipped (fail open)",
+  labelNames: ["route"],
+  registers: [registry],
+});
+const scoreHistogram = new client.Histogram({
+  name: "privora_risk_score",
+  help: "Risk score per assessed request",
+  labelNames: ["route"],
+  buckets: [0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100],
+  registers: [registry],
+});
+
+const sha256 = (s: string | Buffer) => crypto.createHash("sha256").update(s).digest("hex");
+
+/** Shannon entropisi, bit/bayt (0–8) */
+export function payloadEntropy(buf: Buffer) {
+  if (!buf.length) return 0;
+  const freq = new Array<number>(256).fill(0);
+  for (const b of buf) freq[b]++;
+  let h = 0;
+  for (const f of freq) {
+    if (!f) continue;
+    const p = f / buf.length;
+    h -= p * Math.log2(p);
+  }
+  return h;
+}
+
+/**
+ * Sayaç sahipleri: istemci IP’si ve (varsa) API anahtarı / x-key-id. Tenant’a göre ayrılır.
+ * Anahtar değeri değil hash’i tutulur.
+ */
+export function riskSubjects(req: Request) {
+  const apiKey = String(req.header("x-api-key") || "").trim();
+  const keyId = String(req.header("x-key-id") || "").trim();
+  const out = [`ip:${clientIp(req) || "unknown"}`];
+  if (apiKey) out.push(`k:${sha256(apiKey).slice(0, 32)}`);
+  else if (keyId) out.push(`kid:${keyId}`);
+  return out;
+}
+
+export class RiskEngine {
+  private mem = new Map<string, { n: number; exp: number }>();
+  private windowMs: number;
+  private rules: RiskRule[];
+
+  constructor(
+    private redis: Redis | null,
+    private opts: { windowSec?: number; rules?: RiskRule[]; mode?: RiskMode; threshold?: number } = {}
+  ) {
+    this.windowMs = (opts.windowSec ?? WINDOW_SEC) * 1000;
+    this.rules = opts.rules ?? loadRiskRules();
+  }
+
+  get mode(): RiskMode {
+    return this.opts.mode ?? MODE;
+  }
+
+  private key(tenant: string, subject: string, counter: string, bucket: number) {
+    return tenantRedisKey(tenant, `privora:risk:${subject}:${counter}:${bucket}`);
+  }
+
+  async record(tenant: string, subjects: string[], counter: RiskCounter, n = 1, now = Date.now()) {
+    const bucket = Math.floor(now / this.windowMs);
+    const ttl = this.windowMs * 2;
+    if (this.redis) {
+      const m = this.redis.multi();
+      for (const s of subjects) m.incrby(this.key(tenant, s, counter, bucket), n).pexpire(this.key(tenant, s, counter, bucket), ttl);
+      await m.exec();
+      return;
+    }
+    this.trimMem(now);
+    for (const s of subjects) {
+      const k = this.key(tenant, s, counter, bucket);
+      const cur = this.mem.get(k);
+      this.mem.set(k, { n: (cur && cur.exp > now ? cur.n : 0) + n, exp: now + ttl });
+    }
+  }
+
+  /** Kayan penceredeki yaklaşık sayı; birden fazla sahipte en yükseği */
+  async count(tenant: string, subjects: string[], counter: RiskCounter, now = Date.now()) {
+    const bucket = Math.floor(now / this.windowMs);
+    const prevWeight = 1 - (now % this.windowMs) / this.windowMs;
+    const keys = subjects.flatMap((s) => [this.key(tenant, s, counter, bucket), this.key(tenant, s, counter, bucket - 1)]);
+    const vals = this.redis
+      ? (await this.redis.mget(...keys)).map((v) => Number(v || 0))
+      : keys.map((k) => {
+          const e = this.mem.get(k);
+          return e && e.exp > now ? e.n : 0;
+        });
+    let max = 0;
+    for (let i = 0; i < vals.length; i += 2) max = Math.max(max, vals[i] + vals[i + 1] * prevWeight);
+    return max;
+  }
+
+  /** İçerik kimliği bu sahiplerden DUP_TTL_SEC içinde görüldüyse dupContent sayacını artırır; true = tekrar */
+  async noteContent(tenant: string, subjects: string[], contentId: string, now = Date.now()) {
+    let dup = false;
+    for (const s of subjects) {
+      const k = tenantRedisKey(tenant, `privora:risk:cid:${s}:${contentId}`);
+      if (this.redis) {
+        dup = (await this.redis.set(k, "1", "PX", DUP_TTL_SEC * 1000, "NX")) !== "OK" || dup;
+        continue;
+      }
+      const e = this.mem.get(k);
+      if (e && e.exp > now) dup = true;
+      else {
+        this.trimMem(now);
+        this.mem.set(k, { n: 1, exp: now + DUP_TTL_SEC * 1000 });
+      }
+    }
+    if (dup) await this.record(tenant, subjects, "dupContent", 1, now);
+    return dup;
+  }
+
+  /**
+   * İsteği sayar ve skorlar. payload verilirse boyut/entropi ve içerik tekrarı da girdiye katılır.
+   * Karar her zaman metriklere yazılır; challenge eşiği geçilirse loglanır.
+   */
+  async assess(req: Request, opts: { route: string; payload?: unknown; now?: number }): Promise<RiskDecision> {
+    const now = opts.now ?? Date.now();
+    const tenant = tenantIdOf(req);
+    const subjects = riskSubjects(req);
+    await this.record(tenant, subjects, "requests", 1, now);
+
+    const inputs: Inputs = {};
+    if (opts.payload !== undefined) {
+      const buf = Buffer.from(JSON.stringify(opts.payload) ?? "");
+      inputs.payloadSize = buf.length;
+      inputs.payloadEntropy = Number(payloadEntropy(buf).toFixed(3));
+      // PoW çözümüyle tekrar gönderilen aynı istek içerik tekrarı sayılmaz
+      if (!req.header("x-pow-solution")) await this.noteContent(tenant, subjects, sha256(buf), now);
+    }
+    const [requests, hmacFails, nonceReplays, dupContent] = await Promise.all(
+      (["requests", "hmacFails", "nonceReplays", "dupContent"] as const).map((c) => this.count(tenant, subjects, c, now))
+    );
+    const perMin = 60_000 / this.windowMs;
+    Object.assign(inputs, {
+      reqRatePerMin: Math.round(requests * perMin),
+      hmacFails: Math.round(hmacFails),
+      hmacFailRate: Number((hmacFails / Math.max(1, requests)).toFixed(3)),
+      nonceReplays: Math.round(nonceReplays),
+      dupProofs: Math.round(dupContent),
+    });
+
+    const { score, reasons } = explainRisk(inputs, this.rules);
+    const mode = this.mode;
+    const action = score >= (this.opts.threshold ?? POW_THRESHOLD) ? "challenge" : "allow";
+    const enforced = action === "challenge" && mode === "enforce";
+
+    scoreHistogram.observe({ route: opts.route }, score);
+    decisionCounter.inc({ route: opts.route, action, mode });
+    for (const r of reasons) ruleCounter.inc({ rule: r.rule });
+    if (action === "challenge") {
+      // eslint-disable-next-line no-console
+      console.warn(
+        `[risk] ${opts.route} ${enforced ? "challenge" : "dry-run: would challenge"} tenant=${tenant} ${subjects.join(" ")} score=${score}`,
+        reasons.map((r) => `${r.rule}(${r.signal}=${r.value})`).join(", ")
+      );
+    }
+    return { score, reasons, inputs, mode, action, enforced };
+  }
+
+  private trimMem(now: number) {
+    if (this.mem.size < MEM_MAX) return;
+    for (const [k, e] of this.mem) if (e.exp <= now) this.mem.delete(k);
+    if (this.mem.size >= MEM_MAX) {
+      for (const k of Array.from(this.mem.keys()).slice(0, Math.ceil(MEM_MAX * 0.1))) this.mem.delete(k);
+    }
+  }
+}
+
+let engine: RiskEngine | null = null;
+
+/** Süreç genelinde tek motor: REDIS_URL varsa Redis, yoksa bellek */
+export function riskEngine(): RiskEngine {
+  engine ??= new RiskEngine(process.env.REDIS_URL ? new Redis(process.env.REDIS_URL) : null);
+  return engine;
+}
+
+/** Auth katmanından sinyal: isteği bekletmez, hata yalnız loglanır */
+export function noteRiskSignal(req: Request, counter: RiskCounter) {
+  riskEngine()
+    .record(tenantIdOf(req), riskSubjects(req), counter)
+    .catch((e) => {
+      // eslint-disable-next-line no-console
+      console.error(`[risk] ${counter} not recorded`, e);
+    });
+}
+
+/**
+ * Risk kontrolü (skor, PoW doğrulaması) hata verdiğinde: istek engellenmez (fail open), loglanır ve sayılır.
+ * undefined döner; çağıran "karar yok" olarak ele alır.
+ */
+export function noteRiskError(route: string, e: unknown): undefined {
+  errorCounter.inc({ route });
+  // eslint-disable-next-line no-console
+  console.error(`[risk] ${route} check failed, allowing request`, e);
+  return undefined;
+}
+
+/** İçerik tekrarı sinyali (capture gibi yazma uçlarından); isteği bekletmez */
+export function noteRiskContent(req: Request, contentId: string) {
+  riskEngine()
+    .noteContent(tenantIdOf(req), riskSubjects(req), contentId)
+    .catch((e) => {
+      // eslint-disable-next-line no-console
+      console.error("[risk] content not recorded", e);
+    });
+}
@@ -0,0 +1,41 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/risk/pow.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { issuePowChallenge, leadingZeroBits, powDifficulty, solvePow, verifyPowSolution } from "./pow.js";
+
+process.env.NODE_ENV = "test"; // nonce store bellek içi
+
+test("difficulty scales with the risk score", () => {
+  assert.equal(powDifficulty(0), 0);
+  assert.equal(powDifficulty(59), 0);
+  assert.equal(powDifficulty(60), 16);
+  assert.equal(powDifficulty(80), 19);
+  assert.equal(powDifficulty(100), 22);
+});
+
+test("a solved challenge is accepted once, only for its client and before expiry", async () => {
+  const sub = "default|ip:203.0.113.5";
+  const ch = issuePowChallenge(sub, 8);
+  const nonce = solvePow(ch.token, ch.difficulty);
+  const header = `${ch.token}:${nonce}`;
+
+  assert.deepEqual(await verifyPowSolution(header, "default|ip:203.0.113.6", 8), { ok: false, error: "pow-wrong-client" });
+  assert.deepEqual(await verifyPowSolution(header, sub, 12), { ok: false, error: "pow-too-easy" });
+  assert.deepEqual(await verifyPowSolution(header, sub, 8, ch.expiresAt), { ok: false, error: "pow-expired" });
+  assert.deepEqual(await verifyPowSolution(`${ch.token}x:${nonce}`, sub, 8), { ok: false, error: "pow-bad-mac" });
+  assert.deepEqual(await verifyPowSolution("garbage", sub, 8), { ok: false, error: "pow-malformed" });
+
+  // tokendaki zorluğu düşürmek MAC’i bozar
+  const [enc, sig] = ch.token.split(".");
+  const easier = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(enc, "base64url").toString()), d: 0 })).toString("base64url");
+  assert.deepEqual(await verifyPowSolution(`${easier}.${sig}:0`, sub, 0), { ok: false, error: "pow-bad-mac" });
+
+  let bad = 0;
+  while (leadingZeroBits(crypto.createHash("sha256").update(`${ch.token}:${bad}`).digest()) >= 8) bad++;
+  assert.deepEqual(await verifyPowSolution(`${ch.token}:${bad}`, sub, 8), { ok: false, error: "pow-insufficient" });
+
+  assert.deepEqual(await verifyPowSolution(header, sub, 8), { ok: true, difficulty: 8 });
+  assert.deepEqual(await verifyPowSolution(header, sub, 8), { ok: false, error: "pow-replayed" });
+});
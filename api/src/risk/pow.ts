@@ -0,0 +1,163 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/risk/pow.ts
+// /submit için proof-of-work challenge’ı. Sunucu durum tutmaz: challenge token’ı
+// base64url({v,seed,sub,d,exp}).base64url(HMAC-SHA256) — rastgele seed, istemci kimliği (sub), zorluk ve son kullanma.
+// İstemci sha256("<token>:<nonce>") en az d sıfır bitle başlayan bir nonce bulur ve
+// X-Pow-Solution: <token>:<nonce> ile aynı isteği tekrar yollar. Doğrulama bir HMAC + bir SHA-256;
+// her seed bir kez kullanılır (nonce store, exp’e kadar).
+import type { Request } from "express";
+import crypto from "node:crypto";
+import client from "prom-client";
+import { registry } from "../metrics/registry.js";
+import { checkAndSetNonce } from "../util/nonceStore.js";
+import { clientIp } from "../util/ip.js";
+import { tenantIdOf } from "../tenant/namespace.js";
+
+const TTL_SEC = Number(process.env.POW_TTL_SEC || 120);
+// risk eşiği ve zorluk aralığı (bit): eşikte MIN, 100’de MAX, arası doğrusal
+export const POW_THRESHOLD = Number(process.env.POW_RISK_THRESHOLD || 60);
+const MIN_BITS = Number(process.env.POW_MIN_BITS || 16);
+const MAX_BITS = Number(process.env.POW_MAX_BITS || 22);
+const NONCE_MAX_LEN = 64;
+
+export const POW_ALG = "sha256-leading-zero-bits";
+
+export type PowChallenge = {
+  type: "pow";
+  alg: typeof POW_ALG;
+  token: string;
+  difficulty: number;   // sıfır bit sayısı
+  expiresAt: number;
+};
+
+export type PowError =
+  | "pow-malformed"
+  | "pow-bad-mac"
+  | "pow-expired"
+  | "pow-wrong-client"
+  | "pow-too-easy"
+  | "pow-insufficient"
+  | "pow-replayed";
+
+export type PowVerifyResult = { ok: true; difficulty: number } | { ok: false; error: PowError };
+
+type TokenBody = { v: 1; seed: string; sub: string; d: number; exp: number };
+
+const powCounter = new client.Counter({
+  name: "privora_pow_total",
+  help: "Proof-of-work challenges issued and solutions checked",
+  labelNames: ["result"], // issued | ok | pow-*
+  registers: [registry],
+});
+
+// Tüm instance’lar aynı secret’ı kullanmalı; yoksa bir instance’ın challenge’ı diğerinde pow-bad-mac alır
+let secret: Buffer | null = null;
+function powSecret() {
+  if (secret) return secret;
+  const s = process.env.POW_SECRET;
+  if (!s) {
+    // eslint-disable-next-line no-console
+    console.warn("[pow] POW_SECRET not set, using a per-process secret (challenges are not portable across instances)");
+  }
+  secret = s ? Buffer.from(s) : crypto.randomBytes(32);
+  return secret;
+}
+
+const b64u = (b: Buffer | string) => Buffer.from(b).toString("base64url");
+const mac = (body: string) => crypto.createHmac("sha256", powSecret()).update(`privora-pow:v1\n${body}`).digest();
+
+/** Risk skoruna göre gereken zorluk; 0 = challenge yok */
+export function powDifficulty(score: number) {
+  if (score < POW_THRESHOLD) return 0;
+  const span = Math.max(1, 100 - POW_THRESHOLD);
+  const t = Math.min(1, (score - POW_THRESHOLD) / span);
+  return Math.round(MIN_BITS + t * (MAX_BITS - MIN_BITS));
+}
+
+/** İstemci kimliği: tenant + x-api-key (hash’i) ya da IP. Çözüm başka istemci adına kullanılamaz */
+export function powSubject(req: Request) {
+  const apiKey = String(req.header("x-api-key") || "").trim();
+  const who = apiKey ? `k:${crypto.createHash("sha256").update(apiKey).digest("hex").slice(0, 32)}` : `ip:${clientIp(req)}`;
+  return `${tenantIdOf(req)}|${who}`;
+}
+
+export function issuePowChallenge(subject: string, difficulty: number, now = Date.now()): PowChallenge {
+  const body: TokenBody = {
+    v: 1,
+    seed: crypto.randomBytes(16).toString("hex"),
+    sub: subject,
+    d: difficulty,
+    exp: now + TTL_SEC * 1000,
+  };
+  const enc = b64u(JSON.stringify(body));
+  powCounter.inc({ result: "issued" });
+  return { type: "pow", alg: POW_ALG, token: `${enc}.${b64u(mac(enc))}`, difficulty, expiresAt: body.exp };
+}
+
+export function leadingZeroBits(buf: Buffer) {
+  let n = 0;
+  for (const byte of buf) {
+    if (byte === 0) {
+      n += 8;
+      continue;
+    }
+    return n + Math.clz32(byte) - 24;
+  }
+  return n;
+}
+
+function check(header: string, subject: string, minDifficulty: number, now: number): Extract<PowVerifyResult, { ok: false }> | TokenBody {
+  const i = header.lastIndexOf(":");
+  const token = header.slice(0, i);
+  const nonce = header.slice(i + 1);
+  const [enc, sig] = token.split(".");
+  if (i <= 0 || !nonce || nonce.length > NONCE_MAX_LEN || !enc || !sig) return { ok: false, error: "pow-malformed" };
+
+  const want = mac(enc);
+  const got = Buffer.from(sig, "base64url");
+  if (got.length !== want.length || !crypto.timingSafeEqual(got, want)) return { ok: false, error: "pow-bad-mac" };
+
+  let body: TokenBody;
+  try {
+    body = JSON.parse(Buffer.from(enc, "base64url").toString("utf8"));
+  } catch {
+    return { ok: false, error: "pow-malformed" };
+  }
+  if (body.v !== 1 || typeof body.seed !== "string") return { ok: false, error: "pow-malformed" };
+  if (!(body.exp > now)) return { ok: false, error: "pow-expired" };
+  if (body.sub !== subject) return { ok: false, error: "pow-wrong-client" };
+  // risk arttıysa eski, daha kolay challenge’ın çözümü yetmez
+  if (body.d < minDifficulty) return { ok: false, error: "pow-too-easy" };
+  const h = crypto.createHash("sha256").update(`${token}:${nonce}`).digest();
+  if (leadingZeroBits(h) < body.d) return { ok: false, error: "pow-insufficient" };
+  return body;
+}
+
+/** X-Pow-Solution başlığını doğrular ve seed’i tüketir (ikinci kullanım pow-replayed) */
+export async function verifyPowSolution(
+  header: string,
+  subject: string,
+  minDifficulty: number,
+  now = Date.now()
+): Promise<PowVerifyResult> {
+  const r = check(header.trim(), subject, minDifficulty, now);
+  if ("ok" in r) {
+    powCounter.inc({ result: r.error });
+    return r;
+  }
+  const fresh = await checkAndSetNonce(`pow:${r.seed}`, Math.max(1, Math.ceil((r.exp - now) / 1000)));
+  if (!fresh) {
+    powCounter.inc({ result: "pow-replayed" });
+    return { ok: false, error: "pow-replayed" };
+  }
+  powCounter.inc({ result: "ok" });
+  return { ok: true, difficulty: r.d };
+}
+
+/** Referans çözücü (testler için; istemci tarafı için SDK’daki solvePow) */
+export function solvePow(token: string, difficulty: number) {
+  for (let n = 0; ; n++) {
+    const h = crypto.createHash("sha256").update(`${token}:${n.toString(36)}`).digest();
+    if (leadingZeroBits(h) >= difficulty) return n.toString(36);
+  }
+}
@@ -1,18 +1,73 @@
 // SPDX-License-Identifier: Apache-2.0
 // api/src/risk/riskScore.ts
-interface Inputs {
+// Kural tabanlı risk skoru: her kural bir sinyali eşikle karşılaştırır, tutan kuralların puanı toplanır (üst sınır 100).
+// Kurallar ENV RISK_RULES (JSON dizi) ile değiştirilebilir; sinyaller risk/engine.ts’teki kayan pencerelerden gelir.
+import { z } from "zod";
+
+export interface Inputs {
   reqRatePerMin?: number;
-  hmacFailRate?: number;
-  dupProofs?: number;
-  payloadSize?: number;
+  hmacFailRate?: number;    // imza hatası / istek (aynı pencere)
+  hmacFails?: number;
+  nonceReplays?: number;
+  dupProofs?: number;       // pencerede tekrar gönderilen içerik kimliği sayısı
+  payloadSize?: number;     // bayt
+  payloadEntropy?: number;  // bit/bayt (0–8)
+}
+
+export type RiskSignal = keyof Inputs;
+
+const ruleSchema = z.object({
+  id: z.string().min(1).max(64),
+  signal: z.enum(["reqRatePerMin", "hmacFailRate", "hmacFails", "nonceReplays", "dupProofs", "payloadSize", "payloadEntropy"]),
+  op: z.enum([">", ">=", "<", "<="]),
+  value: z.number(),
+  score: z.number().min(0).max(100),
+  minBytes: z.number().int().min(0).optional(), // kural yalnız bu boyuttan büyük gövdelerde (entropi kısa gövdede anlamsız)
+});
+
+export type RiskRule = z.infer<typeof ruleSchema>;
+
+export type RiskReason = { rule: string; signal: RiskSignal; value: number; threshold: number; score: number };
+
+export const DEFAULT_RULES: RiskRule[] = [
+  { id: "req-rate", signal: "reqRatePerMin", op: ">", value: 120, score: 40 },
+  { id: "hmac-fail-rate", signal: "hmacFailRate", op: ">", value: 0.05, score: 35 },
+  { id: "nonce-replay", signal: "nonceReplays", op: ">", value: 0, score: 25 },
+  { id: "dup-content", signal: "dupProofs", op: ">", value: 2, score: 15 },
+  // /submit 256 KiB üstünü skorlamadan 413 ile reddeder; kural kabul edilen aralıkta tutmalı
+  { id: "payload-size", signal: "payloadSize", op: ">", value: 64 * 1024, score: 20 },
+  // sıkıştırılmış/şifreli ya da rastgele blob (gerçek içerik JSON’u nadiren 7.5 bit/bayt üstündedir)
+  { id: "payload-entropy-high", signal: "payloadEntropy", op: ">=", value: 7.5, score: 20, minBytes: 1024 },
+  { id: "payload-entropy-low", signal: "payloadEntropy", op: "<", value: 1, score: 10, minBytes: 1024 },
+];
+
+/** ENV RISK_RULES geçerliyse onu, değilse varsayılanları döner */
+export function loadRiskRules(raw = process.env.RISK_RULES): RiskRule[] {
+  if (!raw) return DEFAULT_RULES;
+  try {
+    return z.array(ruleSchema).min(1).parse(JSON.parse(raw));
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error("[risk] RISK_RULES invalid, using defaults:", (e as Error).message);
+    return DEFAULT_RULES;
+  }
+}
+
+const cmp = { ">": (a: number, b: number) => a > b, ">=": (a: number, b: number) => a >= b, "<": (a: number, b: number) => a < b, "<=": (a: number, b: number) => a <= b };
+
+/** Skor + hangi kuralların neden tuttuğu */
+export function explainRisk(i: Inputs, rules: RiskRule[] = DEFAULT_RULES): { score: number; reasons: RiskReason[] } {
+  const reasons: RiskReason[] = [];
+  for (const r of rules) {
+    const v = i[r.signal];
+    if (v === undefined || !Number.isFinite(v)) continue;
+    if (r.minBytes !== undefined && (i.payloadSize ?? 0) < r.minBytes) continue;
+    if (cmp[r.op](v, r.value)) reasons.push({ rule: r.id, signal: r.signal, value: v, threshold: r.value, score: r.score });
+  }
+  return { score: Math.min(100, reasons.reduce((s, r) => s + r.score, 0)), reasons };
 }
 
 /** 0–100 basit risk skoru */
-export function riskScore(i: Inputs): number {
-  let s = 0;
-  if ((i.reqRatePerMin ?? 0) > 120) s += 40;
-  if ((i.hmacFailRate ?? 0) > 0.05) s += 35;
-  if ((i.dupProofs ?? 0) > 2) s += 15;
-  if ((i.payloadSize ?? 0) > 256 * 1024) s += 20;
-  return Math.min(100, s);
+export function riskScore(i: Inputs, rules?: RiskRule[]): number {
+  return explainRisk(i, rules).score;
 }
@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/routes/anchor-admin.ts
+import { Router, type Request, type Response } from "express";
+import { requireFreshTs } from "../mw/requireFreshTs.js";
+import { requireHmac } from "../mw/requireHmac.js";
+import { asyncH } from "../mw/async.js";
+import type { AnchorDlq } from "../anchor/dlq.js";
+
+/**
+ * Anchor DLQ yönetimi (HMAC), anahtarın tenant’ının DLQ’su:
+ * - GET  /admin/anchors/dlq?queue=pending|poison   kayıtları listeler
+ * - POST /admin/anchors/dlq/:id/replay             deneme sayacını sıfırlayıp hemen tekrar dener
+ * ?root=super: super-root DLQ’su (yalnız superDlq verilmişse, yani varsayılan tenant’ın operatörüne)
+ */
+export default function anchorAdminRoutes(tenantDlq: AnchorDlq, opts: { superDlq?: AnchorDlq } = {}) {
+  const r = Router();
+  const pick = (q: unknown) => (q === "super" ? opts.superDlq ?? null : tenantDlq);
+
+  r.get("/admin/anchors/dlq", requireFreshTs(), requireHmac({ scope: "admin:anchors" }), asyncH(async (req: Request, res: Response) => {
+    const queue = String(req.query.queue || "pending");
+    if (queue !== "pending" && queue !== "poison") {
+      return res.status(400).json({ ok: false, error: "queue must be pending|poison" });
+    }
+    const dlq = pick(req.query.root);
+    if (!dlq) return res.status(404).json({ ok: false, error: "dlq-not-found" });
+    const items = await dlq.list(queue);
+    return res.json({ ok: true, queue, count: items.length, items });
+  }));
+
+  r.post("/admin/anchors/dlq/:id/replay", requireFreshTs(), requireHmac({ scope: "admin:anchors" }), asyncH(async (req: Request, res: Response) => {
+    const dlq = pick(req.query.root);
+    if (!dlq) return res.status(404).json({ ok: false, error: "dlq-not-found" });
+    const entry = await dlq.replay(String(req.params.id || ""));
+    if (!entry) return res.status(404).json({ ok: false, error: "dlq-entry-not-found" });
+    return res.json({ ok: true, entry });
+  }));
+
+  return r;
+}
@@ -1,8 +1,15 @@
-import { Router } from "express";
+// SPDX-License-Identifier: Apache-2.0
+// api/src/routes/capture.ts
+import { Router, type Request, type Response } from "express";
 import crypto from "node:crypto";
-import { store } from "../state.js";
+import type { ProofStore } from "../store/proof-store.js";
+import type { AppendQueue } from "../store/append-queue.js";
 import { requireFreshTs } from "../mw/requireFreshTs.js";
-import { requireHmac } from "../mw/requireHmac.js";
+import { requireHmacOrSignature } from "../mw/requireHmac.js";
+import { idempotency } from "../mw/idempotency.js";
+import { noteRiskContent } from "../risk/engine.js";
+import { asyncH } from "../mw/async.js";
+import { parseEvent } from "../store/events.js";
 
 // Sıralı/kararlı JSON (HMAC ile aynı mantık)
 function stableStringify(x: unknown): string {
@@ -14,54 +21,64 @@ function stableStringify(x: unknown): string {
 }
 const sha256Hex = (s: string) => ("0x" + crypto.createHash("sha256").update(s).digest("hex")) as `0x${string}`;
 
-const r = Router();
+export default function captureRoutes(store: ProofStore, appendQueue: AppendQueue) {
+  const r = Router();
 
-/**
- * POST /capture-proof
- * Body örneği:
- * {
- *   "content": {...} | "raw": "string|bytes(hex)",
- *   "contentType": "media|llm-output",
- *   "modelHash": "0x..", "contextHash": "0x..", "outputHash": "0x..",
- *   "perceptual": {"pHash":"...", "aHash":"...", "dHash":"..."},
- *   "c2pa": {"present": true, "valid": true, "manifestCid":"ipfs://..."},
- *   "attestation": {"tee":"nitro|sgx", "quoteHash":"0x.."}
- * }
- */
-r.post("/capture-proof", requireFreshTs(), requireHmac(), async (req, res) => {
-  const b = req.body ?? {};
-  const content = b.content ?? b.raw ?? null;
-  if (!content) return res.status(400).json({ ok: false, error: "missing-content" });
+  /**
+   * POST /capture-proof
+   * Body örneği:
+   * {
+   *   "content": {...} | "raw": "string|bytes(hex)",
+   *   "contentType": "media|llm-output",
+   *   "modelHash": "0x..", "contextHash": "0x..", "outputHash": "0x..",
+   *   "perceptual": {"pHash":"...", "aHash":"...", "dHash":"..."},
+   *   "c2pa": {"present": true, "valid": true, "manifestCid":"ipfs://..."},
+   *   "attestation": {"tee":"nitro|sgx", "quoteHash":"0x.."}
+   * }
+   * Idempotency-Key başlığı verilirse aynı istek tekrarında ilk yanıt döner (tekrar append yok).
+   * Kayıt zincire append kuyruğu üzerinden (Redis’te lider) girer.
+   */
+  r.post("/capture-proof", requireFreshTs(), requireHmacOrSignature({ scope: "captures:write" }), idempotency({ scope: "capture" }), asyncH(async (req: Request, res: Response) => {
+    const b = req.body ?? {};
+    const content = b.content ?? b.raw ?? null;
+    if (!content) return res.status(400).json({ ok: false, error: "missing-content" });
 
-  const contentId = sha256Hex(stableStringify(content));
-  // Proof materyalini deterministik biçimde özetliyoruz (LLM & media ortak)
-  const material = {
-    contentType: b.contentType ?? "unknown",
-    modelHash: b.modelHash ?? null,
-    contextHash: b.contextHash ?? null,
-    outputHash: b.outputHash ?? null,
-    perceptual: b.perceptual ?? null,
-    c2pa: b.c2pa ?? null,
-    attestation: b.attestation ?? null,
-  };
-  const proofHash = sha256Hex(stableStringify(material));
+    const contentId = sha256Hex(stableStringify(content));
+    // aynı içeriğin tekrar tekrar gönderilmesi risk sinyali (kayıt yine yazılır)
+    noteRiskContent(req, contentId);
+    // Proof materyalini deterministik biçimde özetliyoruz (LLM & media ortak)
+    const material = {
+      contentType: b.contentType ?? "unknown",
+      modelHash: b.modelHash ?? null,
+      contextHash: b.contextHash ?? null,
+      outputHash: b.outputHash ?? null,
+      perceptual: b.perceptual ?? null,
+      c2pa: b.c2pa ?? null,
+      attestation: b.attestation ?? null,
+    };
+    const proofHash = sha256Hex(stableStringify(material));
 
-  await store.append({
-    jobId: String(contentId),            // içerik kimliği
-    proofHash: proofHash,                // materyal hash’i
-    manifestHash: b.manifestHash ?? undefined,
-    createdAt: Date.now(),
-  });
+    const ev = parseEvent({
+      t: "capture",
+      contentId,                           // içerik kimliği
+      proofHash,                           // materyal hash’i
+      contentType: String(material.contentType),
+      manifestHash: b.manifestHash ? String(b.manifestHash) : undefined,
+      createdAt: Date.now(),
+    });
+    if (!ev.success) return res.status(400).json({ ok: false, error: ev.error, details: ev.issues });
+    await appendQueue.enqueueEvent(ev.data);
 
-  return res.json({
-    ok: true,
-    contentId,
-    proofHash,
-    info: {
-      materialIncluded: !!material,
-      day: store.currentRoot()?.day ?? null,
-    }
-  });
-});
+    return res.json({
+      ok: true,
+      contentId,
+      proofHash,
+      info: {
+        materialIncluded: !!material,
+        day: store.currentRoot()?.day ?? null,
+      }
+    });
+  }));
 
-export default r;
+  return r;
+}
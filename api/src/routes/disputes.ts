@@ -1,56 +1,59 @@
 // SPDX-License-Identifier: Apache-2.0
 // api/src/routes/disputes.ts
-import { Router } from "express";
+import { Router, type Request, type Response } from "express";
 import { requireFreshTs } from "../mw/requireFreshTs.js";
-import { requireHmac } from "../mw/requireHmac.js";
-import type { ProofStore } from "../store/proof-store.js";
+import { requireHmacOrSignature } from "../mw/requireHmac.js";
+import type { AppendQueue } from "../store/append-queue.js";
+import { DisputeStatus, parseEvent } from "../store/events.js";
+import { asyncH } from "../mw/async.js";
 import crypto from "node:crypto";
 
 /**
  * Minimal dispute akışı:
  * - do: dispute open, du: dispute update
  */
-export default function disputesRoutes(store: ProofStore) {
+export default function disputesRoutes(appendQueue: AppendQueue) {
   const r = Router();
 
   // POST /disputes
-  r.post("/disputes", requireFreshTs(), requireHmac(), async (req, res) => {
+  r.post("/disputes", requireFreshTs(), requireHmacOrSignature({ scope: "disputes:open" }), asyncH(async (req: Request, res: Response) => {
     const { proofId, issue, evidenceCid } = req.body ?? {};
     if (!proofId || !issue) return res.status(400).json({ ok: false, error: "proofId & issue required" });
 
     const disputeId = "d_" + crypto.randomBytes(8).toString("hex");
-    const line = {
+    const ev = parseEvent({
       t: "do",
       disputeId,
       proofId: String(proofId),
       issue: String(issue),
       evidenceCid: evidenceCid ? String(evidenceCid) : undefined,
       openedAt: Date.now(),
-    };
-    // @ts-ignore
-    await (store as any).appendAny(line);
+    });
+    if (!ev.success) return res.status(400).json({ ok: false, error: ev.error, details: ev.issues });
+    await appendQueue.enqueueEvent(ev.data, `do:${disputeId}`);
     return res.json({ ok: true, disputeId });
-  });
+  }));
 
   // PATCH /disputes/:disputeId
-  r.patch("/disputes/:disputeId", requireFreshTs(), requireHmac(), async (req, res) => {
+  r.patch("/disputes/:disputeId", requireFreshTs(), requireHmacOrSignature({ scope: "disputes:resolve" }), asyncH(async (req: Request, res: Response) => {
     const disputeId = String(req.params.disputeId || "");
     const { status, note } = req.body ?? {};
     if (!disputeId || !status) return res.status(400).json({ ok: false, error: "disputeId & status required" });
-    if (!["accepted", "rejected", "needs-more-info"].includes(String(status))) {
+    const st = DisputeStatus.safeParse(String(status));
+    if (!st.success) {
       return res.status(400).json({ ok: false, error: "invalid status" });
     }
-    const line = {
+    const ev = parseEvent({
       t: "du",
       disputeId,
-      status: String(status),
+      status: st.data,
       note: note ? String(note) : undefined,
       updatedAt: Date.now(),
-    };
-    // @ts-ignore
-    await (store as any).appendAny(line);
+    });
+    if (!ev.success) return res.status(400).json({ ok: false, error: ev.error, details: ev.issues });
+    await appendQueue.enqueueEvent(ev.data);
     return res.json({ ok: true });
-  });
+  }));
 
   return r;
 }
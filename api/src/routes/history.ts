@@ -4,8 +4,6 @@ import { Router } from "express";
 import fs from "node:fs";
 import path from "node:path";
 
-const DATA_DIR = process.env.DATA_DIR || ".data";
-
 function* listNdjsonFiles(dir: string): Generator<string> {
   if (!fs.existsSync(dir)) return;
   const files = fs.readdirSync(dir).filter(f => f.startsWith("proofs-") && f.endsWith(".ndjson"));
@@ -16,8 +14,9 @@ function* listNdjsonFiles(dir: string): Generator<string> {
 /**
  * Minimal history:
  * - Bir proofId için pc/px/do/du olaylarını kronolojik verir.
+ * - Yalnız dataDir (çağıranın tenant’ı) taranır.
  */
-export default function historyRoutes() {
+export default function historyRoutes(opts: { dataDir: string }) {
   const r = Router();
 
   r.get("/proofs/:proofId/history", async (req, res) => {
@@ -25,7 +24,7 @@ export default function historyRoutes() {
     if (!proofId) return res.status(400).json({ ok: false, error: "proofId required" });
 
     const events: any[] = [];
-    for (const file of listNdjsonFiles(DATA_DIR)) {
+    for (const file of listNdjsonFiles(opts.dataDir)) {
       const txt = fs.readFileSync(file, "utf8");
       for (const raw of txt.split("\n")) {
         const line = raw.trim(); if (!line) continue;
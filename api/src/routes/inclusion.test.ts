@@ -0,0 +1,118 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/routes/inclusion.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import inclusionRoutes from "./inclusion.js";
+import { ProofStore, type ProofLine } from "../store/proof-store.js";
+import type { JobStatus, JobStatusStore } from "../store/job-status.js";
+import { computeDayRoot } from "../store/day-file.js";
+import { verifyMerkleProof, type MerkleBranch, type TreeVersion } from "../crypto/merkle.js";
+
+const proof = (i: number): ProofLine => ({
+  jobId: `job-${i}`,
+  proofHash: "0x" + i.toString(16).padStart(64, "0"),
+  createdAt: 1767312000000 + i,
+});
+
+type Inclusion = {
+  day: string;
+  treeVer: TreeVersion;
+  jobId: string;
+  proofHash: string;
+  leafIndex: number;
+  treeSize: number;
+  leafHash: `0x${string}`;
+  branch: MerkleBranch;
+  merkleRoot: `0x${string}`;
+  anchors: unknown[];
+};
+
+async function withApp(
+  fn: (get: (p: string) => Promise<Response>, store: ProofStore) => Promise<void>,
+  opts: { status?: JobStatusStore; before?: (dataDir: string) => void } = {}
+) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "inclusion-"));
+  const store = new ProofStore(path.join(dir, "data"));
+  await store.appendBatch(Array.from({ length: 7 }, (_, i) => proof(i)));
+  opts.before?.(path.join(dir, "data"));
+  const app = express();
+  app.use(
+    inclusionRoutes({
+      dataDir: path.join(dir, "data"),
+      anchorsDir: path.join(dir, "anchors"),
+      status: opts.status,
+    })
+  );
+  const srv = app.listen(0);
+  const base = `http://127.0.0.1:${(srv.address() as AddressInfo).port}`;
+  try {
+    await fn((p) => fetch(base + p), store);
+  } finally {
+    srv.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+test("lookup by jobId and by proofHash returns a proof that verifies against the day root", () =>
+  withApp(async (get, store) => {
+    const dayRoot = (await computeDayRoot(store.currentFilePath)).merkleRoot;
+    assert.equal(dayRoot, store.currentRoot().merkleRoot);
+
+    const byJob = await get("/proofs/job-4/inclusion");
+    assert.equal(byJob.status, 200);
+    const a = (await byJob.json()).inclusion as Inclusion;
+    assert.equal(a.jobId, "job-4");
+    assert.equal(a.proofHash, proof(4).proofHash);
+    assert.equal(a.leafIndex, 4);
+    assert.equal(a.treeSize, 7);
+    assert.equal(a.merkleRoot, dayRoot);
+    assert.deepEqual(a.anchors, []);
+    assert.ok(verifyMerkleProof(a.leafHash, a.branch, a.merkleRoot, a.treeVer));
+
+    const byHash = await get(`/proofs/inclusion?proofHash=${proof(4).proofHash}&day=${a.day}`);
+    assert.equal(byHash.status, 200);
+    assert.deepEqual((await byHash.json()).inclusion, a);
+
+    // başka bir yaprağın dalı bu yaprak için tutmaz
+    const other = (await (await get("/proofs/job-5/inclusion")).json()).inclusion as Inclusion;
+    assert.equal(verifyMerkleProof(a.leafHash, other.branch, dayRoot as `0x${string}`, a.treeVer), false);
+  }));
+
+test("unknown ids are 404 and bad queries are 400", () =>
+  withApp(async (get) => {
+    const miss = await get("/proofs/job-404/inclusion");
+    assert.equal(miss.status, 404);
+    assert.deepEqual(await miss.json(), { ok: false, error: "proof-not-found" });
+    assert.equal((await get(`/proofs/inclusion?proofHash=0x${"ee".repeat(32)}`)).status, 404);
+    // yaprak başka günde aranırsa bulunmaz
+    assert.equal((await get("/proofs/job-4/inclusion?day=2000-01-01")).status, 404);
+
+    assert.equal((await get("/proofs/inclusion")).status, 400);
+    assert.deepEqual(await (await get("/proofs/job-4/inclusion?day=yesterday")).json(), { ok: false, error: "bad-day" });
+  }));
+
+test("without a day only recent files are scanned, unless the job status knows the day", async () => {
+  // bugünden yeni 7 boş gün dosyası: bugünün dosyası varsayılan tarama penceresinin dışında kalır
+  const newer = (dataDir: string) => {
+    for (let d = 1; d <= 7; d++) fs.writeFileSync(path.join(dataDir, `proofs-2999-01-0${d}.ndjson`), "");
+  };
+  await withApp(async (get) => {
+    assert.equal((await get("/proofs/job-4/inclusion")).status, 404);
+    assert.equal((await get(`/proofs/inclusion?proofHash=${proof(4).proofHash}`)).status, 404);
+  }, { before: newer });
+
+  const days = new Map<string, string>();
+  const status = { get: async (id: string) => (days.has(id) ? ({ day: days.get(id) } as JobStatus) : null) } as JobStatusStore;
+  await withApp(async (get, store) => {
+    days.set("job-4", store.currentRoot().day);
+    const res = await get("/proofs/job-4/inclusion");
+    assert.equal(res.status, 200);
+    assert.equal((await res.json()).inclusion.leafIndex, 4);
+    assert.equal((await get(`/proofs/inclusion?proofHash=${proof(4).proofHash}&day=${store.currentRoot().day}`)).status, 200);
+  }, { status, before: newer });
+});
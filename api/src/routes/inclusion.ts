@@ -0,0 +1,92 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/routes/inclusion.ts
+import { Router, type RequestHandler } from "express";
+import { findLeaf, type DayLeaves } from "../store/day-file.js";
+import type { JobStatusStore } from "../store/job-status.js";
+import { leafHashFor, pathForVersion, rootForVersion } from "../crypto/merkle.js";
+import { readAnchorRecords } from "../anchor/receipts.js";
+
+// ?day verilmezse taranan en yeni gün dosyası sayısı (herkese açık route: istek başı disk okuması sınırlı)
+const SCAN_DAYS = Number(process.env.INCLUSION_SCAN_DAYS || 7);
+
+/** findLeaf sonucundan kendi başına doğrulanabilir inclusion nesnesi (GET /jobs/:id de kullanır) */
+export async function buildInclusion(found: DayLeaves, anchorsDir: string) {
+  const { treeVer, leaves, matchIndex, matchLine, day } = found;
+  const merkleRoot = rootForVersion(treeVer, leaves)!;
+  const anchors = day ? await readAnchorRecords(anchorsDir, day, merkleRoot) : [];
+  return {
+    day,
+    treeVer,
+    jobId: matchLine?.jobId ?? matchLine?.contentId ?? null,
+    proofHash: leaves[matchIndex],
+    leafIndex: matchIndex,
+    treeSize: leaves.length,
+    leafHash: leafHashFor(treeVer, leaves[matchIndex]),
+    branch: pathForVersion(treeVer, leaves, matchIndex),
+    merkleRoot,
+    anchors,
+  };
+}
+
+/**
+ * Per-proof inclusion proof:
+ * - GET /proofs/:jobId/inclusion           (jobId; capture satırları için contentId)
+ * - GET /proofs/inclusion?proofHash=0x..   (proofHash ile arama)
+ * Opsiyonel ?day=YYYY-MM-DD aramayı tek güne daraltır. Verilmezse jobId’nin günü iş durum kaydından
+ * alınır; o da yoksa (capture satırı, proofHash araması, süresi dolmuş kayıt) yalnız son SCAN_DAYS gün taranır.
+ * Çıktı kendi başına doğrulanabilir: leaf + branch + root + treeVer (+ varsa anchor kayıtları).
+ * limit: route’ların önündeki rate limit (server.ts RL_BUCKET_INCLUSION / RL_REFILL_INCLUSION token bucket’ını verir)
+ */
+export default function inclusionRoutes(opts: {
+  dataDir: string;
+  anchorsDir?: string;
+  status?: JobStatusStore;
+  limit?: RequestHandler;
+}) {
+  const r = Router();
+  const ANCHOR_DIR = opts.anchorsDir || ".anchors";
+  const limit: RequestHandler = opts.limit ?? ((_req, _res, next) => next());
+
+  async function respond(res: any, found: DayLeaves | null) {
+    if (!found) return res.status(404).json({ ok: false, error: "proof-not-found" });
+    return res.json({ ok: true, inclusion: await buildInclusion(found, ANCHOR_DIR) });
+  }
+
+  function dayParam(req: any): string | undefined | null {
+    if (typeof req.query.day !== "string") return undefined;
+    return /^\d{4}-\d{2}-\d{2}$/.test(req.query.day) ? req.query.day : null;
+  }
+
+  r.get("/proofs/inclusion", limit, async (req, res) => {
+    const proofHash = typeof req.query.proofHash === "string" ? req.query.proofHash : "";
+    const day = dayParam(req);
+    if (!proofHash) return res.status(400).json({ ok: false, error: "proofHash required" });
+    if (day === null) return res.status(400).json({ ok: false, error: "bad-day" });
+    try {
+      const found = await findLeaf(opts.dataDir, (_obj, leaf) => leaf === proofHash, { day, maxDays: SCAN_DAYS });
+      return respond(res, found);
+    } catch (e: any) {
+      return res.status(500).json({ ok: false, error: e?.message || "inclusion-failed" });
+    }
+  });
+
+  r.get("/proofs/:jobId/inclusion", limit, async (req, res) => {
+    const jobId = String(req.params.jobId || "");
+    const day = dayParam(req);
+    if (!jobId) return res.status(400).json({ ok: false, error: "jobId required" });
+    if (day === null) return res.status(400).json({ ok: false, error: "bad-day" });
+    try {
+      const known = day ? null : await opts.status?.get(jobId).catch(() => null);
+      const found = await findLeaf(
+        opts.dataDir,
+        (obj) => obj.jobId === jobId || obj.contentId === jobId,
+        { day: day ?? known?.day ?? undefined, maxDays: SCAN_DAYS }
+      );
+      return respond(res, found);
+    } catch (e: any) {
+      return res.status(500).json({ ok: false, error: e?.message || "inclusion-failed" });
+    }
+  });
+
+  return r;
+}
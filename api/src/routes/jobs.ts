@@ -0,0 +1,63 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/routes/jobs.ts
+import { Router, type Request, type Response } from "express";
+import { requireFreshTs } from "../mw/requireFreshTs.js";
+import { requireHmac, requireHmacOrSignature } from "../mw/requireHmac.js";
+import { JOB_LEASE_SEC, type JobQueue } from "../store/job-queue.js";
+import { findLeaf } from "../store/day-file.js";
+import { buildInclusion } from "./inclusion.js";
+import { asyncH } from "../mw/async.js";
+
+/**
+ * İş yaşam döngüsü (store/job-status.ts):
+ * - GET  /jobs/:id        durum + zaman damgalı geçmiş; proven ise proofHash ve inclusion
+ * - POST /jobs/:id/heartbeat  {leaseToken, leaseSec?} lease’i uzatır (HMAC)
+ * - POST /jobs/:id/fail       {leaseToken, reason} worker işi kalıcı başarısız bildirir (HMAC) → failed
+ * - GET  /admin/workers       aktif worker’lar: lease sayısı + son heartbeat (HMAC)
+ * Lease token’ı geçersizse (iş başka worker’a geçmiş) 409 stale-lease.
+ */
+export default function jobsRoutes(opts: { queue: JobQueue; dataDir: string; anchorsDir?: string }) {
+  const r = Router();
+  const ANCHOR_DIR = opts.anchorsDir || ".anchors";
+
+  r.get("/jobs/:id", asyncH(async (req: Request, res: Response) => {
+    const id = String(req.params.id || "");
+    const job = await opts.queue.status.get(id);
+    if (!job) return res.status(404).json({ ok: false, error: "job-not-found" });
+    if (job.state !== "proven") return res.json({ ok: true, job });
+
+    // /proof satır diske inmeden ack’lemez; satır yine de bulunamazsa (gün dosyası taşınmış vb.) inclusion null
+    const found = await findLeaf(opts.dataDir, (obj) => obj.jobId === id, { day: job.day ?? undefined }).catch(() => null);
+    const inclusion = found ? await buildInclusion(found, ANCHOR_DIR) : null;
+    return res.json({ ok: true, job, inclusion });
+  }));
+
+  const JOB_LEASE_MAX_SEC = Number(process.env.JOB_LEASE_MAX_SEC || 3600);
+
+  r.post("/jobs/:id/heartbeat", requireFreshTs(), requireHmacOrSignature({ scope: "jobs:lease" }), asyncH(async (req: Request, res: Response) => {
+    const id = String(req.params.id || "");
+    const token = String(req.body?.leaseToken || "");
+    if (!token) return res.status(400).json({ ok: false, error: "leaseToken required" });
+    const leaseSec = Math.min(JOB_LEASE_MAX_SEC, Math.max(5, Number(req.body?.leaseSec) || JOB_LEASE_SEC));
+    const hb = await opts.queue.heartbeat(id, token, leaseSec);
+    if (hb.check !== "ok") return res.status(hb.check === "unknown-job" ? 404 : 409).json({ ok: false, error: hb.check });
+    return res.json({ ok: true, leaseUntil: hb.leaseUntil });
+  }));
+
+  r.post("/jobs/:id/fail", requireFreshTs(), requireHmacOrSignature({ scope: "jobs:lease" }), asyncH(async (req: Request, res: Response) => {
+    const id = String(req.params.id || "");
+    const token = String(req.body?.leaseToken || "");
+    if (!token) return res.status(400).json({ ok: false, error: "leaseToken required" });
+    const reason = String(req.body?.reason || "worker-failed").slice(0, 500);
+    const check = await opts.queue.fail(id, token, reason);
+    if (check !== "ok") return res.status(check === "unknown-job" ? 404 : 409).json({ ok: false, error: check });
+    return res.json({ ok: true, job: await opts.queue.status.get(id) });
+  }));
+
+  r.get("/admin/workers", requireFreshTs(), requireHmac({ scope: "admin:workers" }), asyncH(async (_req: Request, res: Response) => {
+    const workers = await opts.queue.workers();
+    return res.json({ ok: true, count: workers.length, workers, depth: await opts.queue.depth() });
+  }));
+
+  return r;
+}
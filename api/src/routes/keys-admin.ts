@@ -0,0 +1,151 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/routes/keys-admin.ts
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import { requireFreshTs } from "../mw/requireFreshTs.js";
+import { requireHmac } from "../mw/requireHmac.js";
+import { LOOPBACK, allowlist } from "../mw/allowlist.js";
+import { publicKeyRecord, type KeyProvider, type KeyRecord } from "../keys/keyProvider.js";
+import { SCOPE_PATTERN, TENANT_PATTERN, authOf } from "../keys/scopes.js";
+import { clientIp, isValidCidr } from "../util/ip.js";
+import { asyncH } from "../mw/async.js";
+
+const KeyId = z.string().regex(/^[A-Za-z0-9._-]{1,64}$/, "key id: [A-Za-z0-9._-]{1,64}");
+const Secret = z.string().min(32).max(256);
+const Millis = z.number().int().nonnegative();
+const Access = {
+  scopes: z.array(z.string().regex(SCOPE_PATTERN, "scope: <group>:<name> | <group>:* | *")).max(50).optional(),
+  tenant: z.string().regex(TENANT_PATTERN, "tenant: [A-Za-z0-9][A-Za-z0-9._-]{0,63}").nullable().optional(),
+  cidrs: z.array(z.string().refine(isValidCidr, "bad cidr")).max(50).optional(),
+};
+
+const CreateSchema = z.object({
+  id: KeyId,
+  secret: Secret.optional(),
+  description: z.string().max(200).optional(),
+  notBefore: Millis.optional(),
+  notAfter: Millis.nullable().optional(),
+  ...Access,
+});
+const UpdateSchema = z.object({ description: z.string().max(200).optional(), ...Access });
+const RotateSchema = z.object({
+  secret: Secret.optional(),
+  graceSec: z.number().int().min(0).max(30 * 86400).optional(),
+  notBefore: Millis.optional(),
+  notAfter: Millis.nullable().optional(),
+});
+const RevokeSchema = z.object({ ver: z.number().int().nonnegative().optional() });
+
+const STATUS = { "key-exists": 409, "key-not-found": 404, "version-not-found": 404 } as const;
+
+const actorOf = (req: Request) => ({
+  keyId: authOf(req)?.keyId ?? "default",
+  ip: clientIp(req) || undefined,
+});
+
+// tenant’a bağlı admin anahtarı yalnız kendi tenant’ının anahtarlarını görür; null = global admin
+const adminTenant = (req: Request) => authOf(req)?.tenant ?? null;
+const visibleTo = (tenant: string | null, rec: KeyRecord | null) =>
+  rec && (tenant === null || (rec.tenant ?? null) === tenant) ? rec : null;
+// tenant’lı admin başka tenant’a (ya da global) anahtar veremez
+const tenantAllowed = (tenant: string | null, target: string | null | undefined) =>
+  tenant === null || target === undefined || target === tenant;
+
+/**
+ * HMAC anahtarları: "admin" IP allowlist’i (tanımlı değilse yalnız loopback) + admin:keys scope’lu HMAC.
+ * Tenant’lı admin anahtarı yalnız kendi tenant’ını yönetir (bkz. visibleTo):
+ * - POST /admin/keys                   {id, secret?, description?, notBefore?, notAfter?, scopes?, tenant?, cidrs?}
+ *                                        secret yalnız burada (ve rotate’te) döner
+ * - GET  /admin/keys
+ * - GET  /admin/keys/audit?keyId=&limit=   değişiklik günlüğü (yeniden eskiye)
+ * - GET  /admin/keys/:id
+ * - PATCH /admin/keys/:id              {scopes?, tenant?, cidrs?, description?}
+ * - POST /admin/keys/:id/rotate        {secret?, graceSec?, notBefore?, notAfter?}  eski sürüm(ler) graceSec sonra biter
+ * - POST /admin/keys/:id/revoke        {ver?}  ver yoksa tüm sürümler
+ */
+export default function keysAdminRoutes(keys: KeyProvider) {
+  const r = Router();
+  // anahtar çıkarmak tüm API’ye erişim demek: scope’a ek olarak kaynak IP de sınırlı
+  r.use("/admin/keys", allowlist("admin", { fallback: LOOPBACK }));
+
+  r.post("/admin/keys", requireFreshTs(), requireHmac({ scope: "admin:keys" }), asyncH(async (req: Request, res: Response) => {
+    const parsed = CreateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "bad-schema", details: parsed.error.issues });
+    }
+    const tenant = adminTenant(req);
+    if (!tenantAllowed(tenant, parsed.data.tenant)) return res.status(403).json({ ok: false, error: "tenant-mismatch" });
+    const out = await keys.create({ ...parsed.data, tenant: parsed.data.tenant ?? tenant }, actorOf(req));
+    if ("error" in out) return res.status(STATUS[out.error]).json({ ok: false, error: out.error });
+    const v = out.rec.versions.find((x) => x.ver === out.ver)!;
+    return res.status(201).json({ ok: true, key: publicKeyRecord(out.rec), ver: v.ver, secret: v.secret });
+  }));
+
+  r.get("/admin/keys", requireFreshTs(), requireHmac({ scope: "admin:keys" }), asyncH(async (req: Request, res: Response) => {
+    const tenant = adminTenant(req);
+    const items = (await keys.list()).filter((k) => visibleTo(tenant, k));
+    return res.json({ ok: true, count: items.length, keys: items.map((k) => publicKeyRecord(k)) });
+  }));
+
+  r.get("/admin/keys/audit", requireFreshTs(), requireHmac({ scope: "admin:keys" }), asyncH(async (req: Request, res: Response) => {
+    const limit = Math.max(1, Math.min(Number(req.query.limit || 100) || 100, 1000));
+    const keyId = req.query.keyId ? String(req.query.keyId) : undefined;
+    const tenant = adminTenant(req);
+    let items = await keys.audit(tenant === null ? limit : 1000, keyId);
+    if (tenant !== null) {
+      const own = new Set((await keys.list()).filter((k) => visibleTo(tenant, k)).map((k) => k.id));
+      items = items.filter((a) => own.has(a.keyId)).slice(0, limit);
+    }
+    return res.json({ ok: true, count: items.length, items });
+  }));
+
+  r.get("/admin/keys/:id", requireFreshTs(), requireHmac({ scope: "admin:keys" }), asyncH(async (req: Request, res: Response) => {
+    const rec = visibleTo(adminTenant(req), await keys.get(String(req.params.id), { refresh: true }));
+    if (!rec) return res.status(404).json({ ok: false, error: "key-not-found" });
+    return res.json({ ok: true, key: publicKeyRecord(rec) });
+  }));
+
+  r.patch("/admin/keys/:id", requireFreshTs(), requireHmac({ scope: "admin:keys" }), asyncH(async (req: Request, res: Response) => {
+    const parsed = UpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "bad-schema", details: parsed.error.issues });
+    }
+    const tenant = adminTenant(req);
+    if (!visibleTo(tenant, await keys.get(String(req.params.id), { refresh: true }))) {
+      return res.status(404).json({ ok: false, error: "key-not-found" });
+    }
+    if (!tenantAllowed(tenant, parsed.data.tenant)) return res.status(403).json({ ok: false, error: "tenant-mismatch" });
+    const out = await keys.update(String(req.params.id), parsed.data, actorOf(req));
+    if ("error" in out) return res.status(STATUS[out.error]).json({ ok: false, error: out.error });
+    return res.json({ ok: true, key: publicKeyRecord(out.rec) });
+  }));
+
+  r.post("/admin/keys/:id/rotate", requireFreshTs(), requireHmac({ scope: "admin:keys" }), asyncH(async (req: Request, res: Response) => {
+    const parsed = RotateSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "bad-schema", details: parsed.error.issues });
+    }
+    if (!visibleTo(adminTenant(req), await keys.get(String(req.params.id), { refresh: true }))) {
+      return res.status(404).json({ ok: false, error: "key-not-found" });
+    }
+    const out = await keys.rotate(String(req.params.id), parsed.data, actorOf(req));
+    if ("error" in out) return res.status(STATUS[out.error]).json({ ok: false, error: out.error });
+    const v = out.rec.versions.find((x) => x.ver === out.ver)!;
+    return res.json({ ok: true, key: publicKeyRecord(out.rec), ver: v.ver, secret: v.secret });
+  }));
+
+  r.post("/admin/keys/:id/revoke", requireFreshTs(), requireHmac({ scope: "admin:keys" }), asyncH(async (req: Request, res: Response) => {
+    const parsed = RevokeSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "bad-schema", details: parsed.error.issues });
+    }
+    if (!visibleTo(adminTenant(req), await keys.get(String(req.params.id), { refresh: true }))) {
+      return res.status(404).json({ ok: false, error: "key-not-found" });
+    }
+    const out = await keys.revoke(String(req.params.id), parsed.data.ver ?? null, actorOf(req));
+    if ("error" in out) return res.status(STATUS[out.error]).json({ ok: false, error: out.error });
+    return res.json({ ok: true, key: publicKeyRecord(out.rec) });
+  }));
+
+  return r;
+}
@@ -4,6 +4,9 @@
 import { Router } from "express";
 import fs from "node:fs";
 import path from "node:path";
+import { verifyChainFile } from "../store/integrity.js";
+import { dayFilePath } from "../store/proof-store.js";
+import { receiptsForRecord } from "../anchor/receipts.js";
 
 export default function proofsExplorerRoutes(opts: {
   dataDir: string;         // ProofStore klasörü (NDJSON dosyaları burada)
@@ -37,15 +40,16 @@ export default function proofsExplorerRoutes(opts: {
     try {
       const files = await fs.promises.readdir(ANCHOR_DIR).catch(() => []);
       const items = [];
-      for (const f of files.sort().slice(-60)) {
-        // Son 60 gün
-        if (!f.endsWith(".root.json")) continue;
+      // Son 60 gün (receipts/.ots dosyaları pencereyi daraltmasın diye önce süz)
+      for (const f of files.filter((f) => f.endsWith(".root.json")).sort().slice(-60)) {
         const raw = await fs.promises
           .readFile(path.join(ANCHOR_DIR, f), "utf8")
           .catch(() => "");
         if (!raw) continue;
         try {
-          items.push(JSON.parse(raw));
+          const rec = JSON.parse(raw);
+          const receipts = await receiptsForRecord(ANCHOR_DIR, rec);
+          items.push({ ...rec, receipts });
         } catch {}
       }
       res.json({ ok: true, count: items.length, items });
@@ -56,6 +60,22 @@ export default function proofsExplorerRoutes(opts: {
     }
   });
 
+  // Hash-chain bütünlük denetimi: ?day=YYYY-MM-DD (varsayılan bugün), opsiyonel ?head=<beklenen son hash>
+  r.get("/proofs/integrity", async (req, res) => {
+    const day = String(req.query.day || new Date().toISOString().slice(0, 10));
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(day))
+      return res.status(400).json({ ok: false, error: "bad-day" });
+    const fp = dayFilePath(opts.dataDir, day);
+    if (!fs.existsSync(fp)) return res.status(404).json({ ok: false, error: "day-not-found" });
+    try {
+      const head = typeof req.query.head === "string" ? req.query.head : undefined;
+      const report = await verifyChainFile(fp, { expectHead: head });
+      res.json({ ok: true, intact: report.ok, report: { ...report, file: path.basename(fp) } });
+    } catch (e: any) {
+      res.status(500).json({ ok: false, error: e?.message || "integrity-failed" });
+    }
+  });
+
   return r;
 }
 
@@ -69,12 +89,33 @@ function latestProofFile(dir: string) {
   return files.sort().at(-1)!;
 }
 
+// Dosyanın tamamını değil, sondan geriye 64KB’lık parçalar halinde n satır bulunana kadar okur
 async function readLastLines(fp: string, n: number): Promise<string[]> {
+  let fh: fs.promises.FileHandle;
   try {
-    const raw = await fs.promises.readFile(fp, "utf8");
-    const lines = raw.split(/\r?\n/);
-    return lines.slice(-n);
+    fh = await fs.promises.open(fp, "r");
   } catch {
     return [];
   }
+  try {
+    const { size } = await fh.stat();
+    const CHUNK = 64 * 1024;
+    let pos = size;
+    let chunks: Buffer[] = [];
+    let newlines = 0;
+    while (pos > 0 && newlines <= n) {
+      const len = Math.min(CHUNK, pos);
+      pos -= len;
+      const buf = Buffer.alloc(len);
+      await fh.read(buf, 0, len, pos);
+      for (const b of buf) if (b === 0x0a) newlines++;
+      chunks = [buf, ...chunks];
+    }
+    const lines = Buffer.concat(chunks).toString("utf8").split(/\r?\n/);
+    // baştaki satır parçası (pos > 0) eksik olabilir
+    if (pos > 0) lines.shift();
+    return lines.slice(-n);
+  } finally {
+    await fh.close();
+  }
 }
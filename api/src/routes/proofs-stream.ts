@@ -0,0 +1,120 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/routes/proofs-stream.ts
+import { Router } from "express";
+import type { IncomingMessage, Server } from "node:http";
+import { WebSocketServer, WebSocket } from "ws";
+import {
+  parseCursor,
+  STREAM_MAX_CLIENTS,
+  type ProofStream,
+  type StreamEvent,
+} from "../store/proof-stream.js";
+import { tenantIdOf } from "../tenant/namespace.js";
+import { issueStreamToken } from "../tenant/stream-token.js";
+
+const PING_SEC = Number(process.env.STREAM_PING_SEC || 15);
+// yavaş istemci: gönderilmemiş veri bu sınırı aşarsa bağlantı kapatılır
+const MAX_BUFFERED = Number(process.env.STREAM_MAX_BUFFERED_BYTES || 1024 * 1024);
+
+/**
+ * GET /proofs/stream (SSE)
+ * - event: line | root | anchor | gap, data: JSON
+ * - line olaylarının id’si "<day>:<offset>"; yeniden bağlanınca Last-Event-ID
+ *   (veya ?lastEventId=) o noktadan devam ettirir
+ * - çağıranın tenant’ı x-api-key / imzalı x-key-id ile; başlık gönderemeyen tarayıcı istemcileri
+ *   POST /proofs/stream/token’dan aldıkları ?streamToken= ile (bkz. tenant/stream-token.ts)
+ */
+export default function proofsStreamRoutes(stream: ProofStream) {
+  const r = Router();
+
+  r.post("/proofs/stream/token", (req, res) => res.json({ ok: true, ...issueStreamToken(tenantIdOf(req)) }));
+
+  r.get("/proofs/stream", (req, res) => {
+    if (stream.clients() >= STREAM_MAX_CLIENTS) {
+      return res.status(503).json({ ok: false, error: "too-many-stream-clients" });
+    }
+    const rawFrom = req.header("last-event-id") ?? req.query.lastEventId;
+    const from = parseCursor(rawFrom);
+    if (rawFrom !== undefined && rawFrom !== "" && !from) {
+      return res.status(400).json({ ok: false, error: "bad-last-event-id" });
+    }
+
+    res.status(200).set({
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no", // nginx tamponlamasın
+    });
+    res.flushHeaders();
+    res.write(`retry: 3000\n\n`);
+
+    let closed = false;
+    const send = (e: StreamEvent) => {
+      if (closed) return;
+      if (res.writableLength > MAX_BUFFERED) return end();
+      res.write(`${"id" in e ? `id: ${e.id}\n` : ""}event: ${e.type}\ndata: ${JSON.stringify(e.data)}\n\n`);
+    };
+    const unsubscribe = stream.subscribe(send, { from, transport: "sse" });
+    const ping = setInterval(() => !closed && res.write(`: ping\n\n`), PING_SEC * 1000);
+    const end = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(ping);
+      unsubscribe.then((u) => u()).catch(() => {});
+      res.end();
+    };
+    req.on("close", end);
+    unsubscribe.catch(end);
+  });
+
+  return r;
+}
+
+/**
+ * Aynı yol üzerinde WebSocket alternatifi: ws(s)://host/proofs/stream?lastEventId=<day>:<offset>[&streamToken=…]
+ * Her mesaj: {"type":"line"|"root"|"anchor"|"gap","id"?:"...","data":{...}}
+ */
+export function attachProofStreamWs(
+  server: Server,
+  streamFor: (req: IncomingMessage) => Promise<ProofStream | null> // çağıranın tenant’ının akışı
+) {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: 4 * 1024 });
+
+  server.on("upgrade", async (req, socket, head) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    if (url.pathname !== "/proofs/stream") return;
+    const stream = await streamFor(req).catch(() => null);
+    if (!stream) {
+      socket.end("HTTP/1.1 401 Unauthorized\r\n\r\n");
+      return;
+    }
+    const rawFrom = url.searchParams.get("lastEventId");
+    const from = parseCursor(rawFrom);
+    if (stream.clients() >= STREAM_MAX_CLIENTS || (rawFrom && !from)) {
+      socket.end(`HTTP/1.1 ${rawFrom && !from ? "400 Bad Request" : "503 Service Unavailable"}\r\n\r\n`);
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      const send = (e: StreamEvent) => {
+        if (ws.readyState !== WebSocket.OPEN) return;
+        if (ws.bufferedAmount > MAX_BUFFERED) return ws.terminate();
+        ws.send(JSON.stringify(e));
+      };
+      const unsubscribe = stream.subscribe(send, { from, transport: "ws" });
+      let alive = true;
+      ws.on("pong", () => (alive = true));
+      const ping = setInterval(() => {
+        if (!alive) return ws.terminate();
+        alive = false;
+        ws.ping();
+      }, PING_SEC * 1000);
+      ws.on("close", () => {
+        clearInterval(ping);
+        unsubscribe.then((u) => u()).catch(() => {});
+      });
+      ws.on("error", () => ws.terminate());
+    });
+  });
+
+  return wss;
+}
@@ -0,0 +1,90 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/routes/transparency.ts
+import { Router } from "express";
+import fs from "node:fs";
+import { readDayLeaves } from "../store/day-file.js";
+import { dayFilePath } from "../store/proof-store.js";
+import { consistencyProof, leafHash, merkleRoot, toHex0x } from "../crypto/merkle.js";
+import type { SthLog } from "../store/sth.js";
+import { loadSigningKey, rawPublicKeyB64 } from "../keys/keyProvider.js";
+
+/**
+ * Transparency-log uçları (append-only denetimi):
+ * - GET /proofs/consistency?from=<size>&to=<size>&day=YYYY-MM-DD
+ *   from yapraklı kökün, to yapraklı kökün öneki olduğunu kanıtlar (RFC 6962).
+ *   Doğrulama: crypto/merkle.ts verifyConsistency / SDK verifyConsistency.
+ * - GET /proofs/sth/latest, GET /proofs/sth?day=   Signed Tree Head’ler
+ * - GET /proofs/sth/pubkey                         STH doğrulama anahtarı (Ed25519, ham 32 bayt base64)
+ */
+export default function transparencyRoutes(opts: { dataDir: string; sthLog: SthLog }) {
+  const r = Router();
+
+  r.get("/proofs/consistency", async (req, res) => {
+    const day = String(req.query.day || new Date().toISOString().slice(0, 10));
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) return res.status(400).json({ ok: false, error: "bad-day" });
+    const from = Number(req.query.from);
+    const to = Number(req.query.to);
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < 1 || from > to) {
+      return res.status(400).json({ ok: false, error: "from & to required (1 <= from <= to)" });
+    }
+    const fp = dayFilePath(opts.dataDir, day);
+    if (!fs.existsSync(fp)) return res.status(404).json({ ok: false, error: "day-not-found" });
+    try {
+      const d = await readDayLeaves(fp);
+      if (d.treeVer !== 2) {
+        return res.status(400).json({ ok: false, error: "consistency-requires-treeVer-2", treeVer: d.treeVer });
+      }
+      if (to > d.leaves.length) {
+        return res.status(400).json({ ok: false, error: "to-exceeds-tree-size", treeSize: d.leaves.length });
+      }
+      const hs = d.leaves.slice(0, to).map((l) => leafHash(l));
+      return res.json({
+        ok: true,
+        day,
+        treeVer: d.treeVer,
+        from,
+        to,
+        oldRoot: toHex0x(merkleRoot(hs.slice(0, from))),
+        newRoot: toHex0x(merkleRoot(hs)),
+        proof: consistencyProof(hs, from, to),
+      });
+    } catch (e: any) {
+      return res.status(500).json({ ok: false, error: e?.message || "consistency-failed" });
+    }
+  });
+
+  r.get("/proofs/sth/latest", async (_req, res) => {
+    try {
+      const sth = await opts.sthLog.latest();
+      if (!sth) return res.status(404).json({ ok: false, error: "no-sth-yet" });
+      return res.json({ ok: true, sth });
+    } catch {
+      return res.status(500).json({ ok: false, error: "sth-read-failed" });
+    }
+  });
+
+  r.get("/proofs/sth", async (req, res) => {
+    const day = String(req.query.day || new Date().toISOString().slice(0, 10));
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) return res.status(400).json({ ok: false, error: "bad-day" });
+    try {
+      const items = await opts.sthLog.list(day);
+      return res.json({ ok: true, day, count: items.length, items });
+    } catch {
+      return res.status(500).json({ ok: false, error: "sth-read-failed" });
+    }
+  });
+
+  r.get("/proofs/sth/pubkey", async (_req, res) => {
+    const key = await loadSigningKey().catch(() => null);
+    if (!key) return res.status(503).json({ ok: false, error: "signing-key-unavailable" });
+    return res.json({
+      ok: true,
+      keyId: key.keyId,
+      alg: key.alg,
+      publicKey: rawPublicKeyB64(key.publicKey),
+      pem: key.publicKey.export({ format: "pem", type: "spki" }),
+    });
+  });
+
+  return r;
+}
@@ -6,12 +6,19 @@ import { cacheControl } from "../mw/cacheControl.js";
 import { FLAGS } from "../config/flags.js";
 import { StatusIndex } from "../store/status-index.js";
 
-const DATA_DIR = process.env.DATA_DIR || ".data";
-const index = new StatusIndex(DATA_DIR);
-await index.boot();
-
-export default function verifyRoutes() {
+/** dataDir: çağıranın tenant dizini (server.ts tenantRoutes ile tenant başına kurar) */
+export default function verifyRoutes(opts: { dataDir: string }) {
   const r = Router();
+  const index = new StatusIndex(opts.dataDir);
+  // boot hatası başlangıçta işlenmemiş rejection olmasın; indeks o zaman kullanılamaz, istekler 503 alır
+  const booted = index.boot().then(
+    () => true,
+    (err: unknown) => {
+      // eslint-disable-next-line no-console
+      console.error(`[verify] status index boot failed for ${opts.dataDir}`, err);
+      return false;
+    }
+  );
 
   r.get(
     "/verify/status",
@@ -19,7 +26,8 @@ export default function verifyRoutes() {
       ttlSec: FLAGS.badgeCacheTtlSec,
       swrSec: FLAGS.badgeStaleWhileRevalidateSec,
     }),
-    (req, res) => {
+    async (req, res) => {
+      if (!(await booted)) return res.status(503).json({ ok: false, error: "status-index-unavailable" });
       const contentId =
         typeof req.query.contentId === "string" ? req.query.contentId : undefined;
       const proofId =
@@ -0,0 +1,120 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/routes/webhooks-admin.ts
+import { Router, type Request, type Response } from "express";
+import crypto from "node:crypto";
+import { z } from "zod";
+import { requireFreshTs } from "../mw/requireFreshTs.js";
+import { requireHmac } from "../mw/requireHmac.js";
+import { asyncH } from "../mw/async.js";
+import { DEFAULT_TENANT } from "../keys/scopes.js";
+import { WEBHOOK_EVENTS } from "../webhooks/bus.js";
+import type { WebhookStore, WebhookSubscription } from "../webhooks/store.js";
+
+const Url = z
+  .string()
+  .url()
+  .refine((u) => /^https?:$/.test(new URL(u).protocol), "url must be http(s)");
+const Events = z.array(z.enum(WEBHOOK_EVENTS)).min(1);
+
+const CreateSchema = z.object({
+  url: Url,
+  events: Events,
+  secret: z.string().min(16).max(256).optional(),
+  description: z.string().max(200).optional(),
+});
+const UpdateSchema = z.object({
+  url: Url.optional(),
+  events: Events.optional(),
+  active: z.boolean().optional(),
+  description: z.string().max(200).optional(),
+});
+
+// secret yalnız oluşturulurken döner
+const publicSub = ({ secret: _secret, ...s }: WebhookSubscription) => s;
+
+// router tenantContext’ten önce bağlı: tenant, doğrulanmış anahtarın tenant’ıdır
+const callerTenant = (req: Request) => ((req as any).auth?.tenant as string | null | undefined) ?? DEFAULT_TENANT;
+const ownedBy = (sub: WebhookSubscription | null, tenant: string) =>
+  sub && (sub.tenant ?? DEFAULT_TENANT) === tenant ? sub : null;
+
+/**
+ * Webhook abonelikleri (HMAC). Her anahtar yalnız kendi tenant’ının aboneliklerini görür ve yönetir:
+ * - POST   /admin/webhooks                    {url, events[], secret?, description?}
+ * - GET    /admin/webhooks
+ * - GET    /admin/webhooks/:id
+ * - PATCH  /admin/webhooks/:id                {url?, events?, active?, description?}
+ * - DELETE /admin/webhooks/:id
+ * - GET    /admin/webhooks/:id/deliveries?limit=   son teslimat denemeleri (yeniden eskiye)
+ */
+export default function webhooksAdminRoutes(store: WebhookStore) {
+  const r = Router();
+
+  r.post("/admin/webhooks", requireFreshTs(), requireHmac({ scope: "admin:webhooks" }), asyncH(async (req: Request, res: Response) => {
+    const parsed = CreateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "bad-schema", details: parsed.error.issues });
+    }
+    const now = Date.now();
+    const sub: WebhookSubscription = {
+      id: "wh_" + crypto.randomBytes(8).toString("hex"),
+      url: parsed.data.url,
+      events: [...new Set(parsed.data.events)],
+      secret: parsed.data.secret ?? "whsec_" + crypto.randomBytes(24).toString("hex"),
+      active: true,
+      description: parsed.data.description,
+      tenant: callerTenant(req),
+      createdAt: now,
+      updatedAt: now,
+    };
+    await store.putSub(sub);
+    return res.status(201).json({ ok: true, subscription: sub });
+  }));
+
+  r.get("/admin/webhooks", requireFreshTs(), requireHmac({ scope: "admin:webhooks" }), asyncH(async (req: Request, res: Response) => {
+    const tenant = callerTenant(req);
+    const subs = (await store.listSubs()).filter((s) => ownedBy(s, tenant));
+    return res.json({ ok: true, count: subs.length, subscriptions: subs.map(publicSub) });
+  }));
+
+  r.get("/admin/webhooks/:id", requireFreshTs(), requireHmac({ scope: "admin:webhooks" }), asyncH(async (req: Request, res: Response) => {
+    const sub = ownedBy(await store.getSub(String(req.params.id)), callerTenant(req));
+    if (!sub) return res.status(404).json({ ok: false, error: "webhook-not-found" });
+    return res.json({ ok: true, subscription: publicSub(sub) });
+  }));
+
+  r.patch("/admin/webhooks/:id", requireFreshTs(), requireHmac({ scope: "admin:webhooks" }), asyncH(async (req: Request, res: Response) => {
+    const sub = ownedBy(await store.getSub(String(req.params.id)), callerTenant(req));
+    if (!sub) return res.status(404).json({ ok: false, error: "webhook-not-found" });
+    const parsed = UpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ ok: false, error: "bad-schema", details: parsed.error.issues });
+    }
+    const { events, ...rest } = parsed.data;
+    const next: WebhookSubscription = {
+      ...sub,
+      ...rest,
+      ...(events ? { events: [...new Set(events)] } : {}),
+      updatedAt: Date.now(),
+    };
+    await store.putSub(next);
+    return res.json({ ok: true, subscription: publicSub(next) });
+  }));
+
+  r.delete("/admin/webhooks/:id", requireFreshTs(), requireHmac({ scope: "admin:webhooks" }), asyncH(async (req: Request, res: Response) => {
+    const id = String(req.params.id);
+    if (!ownedBy(await store.getSub(id), callerTenant(req))) return res.status(404).json({ ok: false, error: "webhook-not-found" });
+    const removed = await store.delSub(id);
+    if (!removed) return res.status(404).json({ ok: false, error: "webhook-not-found" });
+    return res.json({ ok: true });
+  }));
+
+  r.get("/admin/webhooks/:id/deliveries", requireFreshTs(), requireHmac({ scope: "admin:webhooks" }), asyncH(async (req: Request, res: Response) => {
+    const id = String(req.params.id);
+    if (!ownedBy(await store.getSub(id), callerTenant(req))) return res.status(404).json({ ok: false, error: "webhook-not-found" });
+    const limit = Math.max(1, Math.min(Number(req.query.limit || 50) || 50, 200));
+    const deliveries = await store.listLog(id, limit);
+    return res.json({ ok: true, count: deliveries.length, deliveries });
+  }));
+
+  return r;
+}
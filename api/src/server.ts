@@ -11,10 +11,13 @@ import { createClient } from "ioredis";
 
 import { rateLimit } from "./mw/rateLimit.js";
 import { requireFreshTs } from "./mw/requireFreshTs.js";
-import { requireHmac } from "./mw/requireHmac.js";
-import { riskScore } from "./risk/riskScore.js";
-import { ProofStore, type ProofLine } from "./store/proof-store.js";
-import { verifyMerkleProof } from "./crypto/merkle.js";
+import { requireHmacOrSignature } from "./mw/requireHmac.js";
+import { idempotency } from "./mw/idempotency.js";
+import { noteRiskError, riskEngine } from "./risk/engine.js";
+import { issuePowChallenge, powDifficulty, powSubject, verifyPowSolution } from "./risk/pow.js";
+import { type ProofLine } from "./store/proof-store.js";
+import { parseEvent } from "./store/events.js";
+import { verifyMerkleProof, TREE_VERSION } from "./crypto/merkle.js";
 import healthRoutes from "./routes/health.js";
 import verifyRoutes from "./routes/verify.js";
 import captureRoutes from "./routes/capture.js";
@@ -22,21 +25,43 @@ import correctionsRoutes from "./routes/corrections.js";
 import disputesRoutes from "./routes/disputes.js";
 import historyRoutes from "./routes/history.js";
 import fheRoutes from "./routes/fhe.js";
-import { AppendQueue } from "./store/append-queue.js";
+import { LeaderElector, runOnLeader } from "./util/leader.js";
+import { JOB_LEASE_SEC, type Lease, type LeaseCheck } from "./store/job-queue.js";
 import { registry, httpRequestsTotal, httpDuration } from "./metrics/registry.js";
-import { scheduleDailyAnchor, setAnchorRedis } from "./cron/daily-anchor.js";
+import { scheduleDailyAnchor } from "./cron/daily-anchor.js";
 import { scheduleAnchorRetry } from "./cron/anchor-retry.js";
+import { scheduleSignedTreeHeads } from "./cron/sth.js";
+import { AnchorDlq } from "./anchor/dlq.js";
+import anchorAdminRoutes from "./routes/anchor-admin.js";
+import webhooksAdminRoutes from "./routes/webhooks-admin.js";
+import keysAdminRoutes from "./routes/keys-admin.js";
+import { keyProvider } from "./keys/keyProvider.js";
+import { createWebhookStore } from "./webhooks/store.js";
+import { WebhookDispatcher } from "./webhooks/dispatcher.js";
+import { scheduleWebhookRetry } from "./cron/webhook-retry.js";
+import jobsRoutes from "./routes/jobs.js";
 import proofsExplorerRoutes from "./routes/proofs-explorer.js";
+import proofsStreamRoutes, { attachProofStreamWs } from "./routes/proofs-stream.js";
+import inclusionRoutes from "./routes/inclusion.js";
+import transparencyRoutes from "./routes/transparency.js";
+import { TenantRegistry, tenantContext, tenantOf, tenantRoutes } from "./tenant/registry.js";
+import { resolveTenant } from "./tenant/resolve.js";
+import { SUPER_ROOT_TENANT, superRootDir } from "./tenant/namespace.js";
+import { DEFAULT_TENANT } from "./keys/scopes.js";
+import { TRUSTED_PROXY_HOPS } from "./util/ip.js";
+import { metricsGuard } from "./mw/metricsGuard.js";
 
 const PORT = Number(process.env.PORT || 4000);
 const DATA_DIR = process.env.DATA_DIR || ".data";
 const JSON_LIMIT = process.env.JSON_LIMIT || "256kb";
 const MAX_DEPTH = Number(process.env.JSON_MAX_DEPTH || 100);
 const REDIS_URL = process.env.REDIS_URL || "";
+const ANCHOR_DIR = process.env.ANCHOR_DIR || ".anchors";
 
 const app = express();
 app.disable("x-powered-by");
-app.set("trust proxy", true);
+// req.ip/req.ips de util/ip.ts’teki istemci IP’siyle aynı hop’u seçsin
+app.set("trust proxy", TRUSTED_PROXY_HOPS);
 
 // ------------------------------
 // RAW BODY CAPTURE (for HMAC) + SIZE CAP
@@ -121,7 +146,7 @@ app.use((req, res, next) => {
   });
   next();
 });
-app.get("/metrics", async (_req, res) => {
+app.get("/metrics", metricsGuard(), async (_req, res) => {
   res.set("Content-Type", registry.contentType);
   res.end(await registry.metrics());
 });
@@ -129,25 +154,34 @@ app.get("/metrics", async (_req, res) => {
 // ------------------------------
 // STATE
 // ------------------------------
-const store = new ProofStore(DATA_DIR);
 let redis: ReturnType<typeof createClient> | null = null;
-let appendWorker: AppendQueue | null = null;
 
 if (REDIS_URL) {
   redis = new createClient({ url: REDIS_URL });
   redis.connect().catch((err) =>
     logger.error({ err }, "Redis connection error")
   );
-  appendWorker = new AppendQueue(DATA_DIR, redis);
-  await appendWorker.init();
-  setAnchorRedis(redis);
 }
+// proof satırları group commit ile yazılır (Redis varsa lider stream’den boşaltır)
+// Redis varsa tek lider: append stream’lerini o boşaltır, cron’lar yalnız onda çalışır
+const leader = redis ? new LeaderElector(redis as any) : null;
 
 // ------------------------------
-// JOB QUEUE (in-memory fallback)
+// TENANTS: tenant başına ProofStore + append/iş kuyruğu (Redis Streams, yoksa <dir>/jobs.ndjson),
+// STH log’u, anchor dizini + DLQ. Varsayılan tenant DATA_DIR / ANCHOR_DIR kökünde.
 // ------------------------------
-type Job = { id: string; payload: any; createdAt: number };
-const queue: Job[] = [];
+const tenants = new TenantRegistry({ dataDir: DATA_DIR, anchorsDir: ANCHOR_DIR, redis: redis as any, elector: leader });
+await tenants.get(DEFAULT_TENANT);
+// SUPER_ROOT_ENABLE: tenant kökleri tek super-root altında anchor’lanır; hatalı hedefleri bu DLQ tutar
+const superDlq = new AnchorDlq(redis, superRootDir(ANCHOR_DIR), SUPER_ROOT_TENANT);
+
+// ------------------------------
+// WEBHOOKS (abonelikler Redis’te, yoksa DATA_DIR/webhooks.json)
+// ------------------------------
+const webhookStore = createWebhookStore(redis as any, DATA_DIR);
+await webhookStore.init();
+const webhooks = new WebhookDispatcher(webhookStore).start();
+
 function depthOf(x: any, depth = 0): number {
   if (x === null || typeof x !== "object") return depth;
   if (depth > MAX_DEPTH) return depth;
@@ -158,32 +192,42 @@ function depthOf(x: any, depth = 0): number {
     depth + 1
   );
 }
-function pushJob(payload: any): Job {
-  const job: Job = { id: randomUUID(), payload, createdAt: Date.now() };
-  queue.push(job);
-  return job;
-}
-function popJob(): Job | undefined {
-  return queue.shift();
-}
 
 // ------------------------------
 // ROUTES
 // ------------------------------
 app.use(healthRoutes);
-app.use(verifyRoutes());
-app.use(historyRoutes());
-app.use(correctionsRoutes(store));
-app.use(disputesRoutes(store));
-app.use(captureRoutes(store));
-app.use("/api", fheRoutes());
+app.use(keysAdminRoutes(keyProvider()));
+app.use(webhooksAdminRoutes(webhookStore));
+
+// herkese açık inclusion aramaları (kova anahtarı tenant’lıdır; tek limiter tüm tenant’lara yeter)
+const inclusionLimit = rateLimit({
+  bucketSize: Number(process.env.RL_BUCKET_INCLUSION || 30),
+  refillPerSec: Number(process.env.RL_REFILL_INCLUSION || 2),
+});
 
-// Proof Explorer routes
+// Buradan sonrası çağıranın tenant’ında (x-key-id’nin tenant’ı, x-api-key eşlemesi ya da varsayılan)
+app.use(tenantContext(tenants));
 app.use(
-  proofsExplorerRoutes({
-    dataDir: DATA_DIR,
-    anchorsDir: process.env.ANCHOR_DIR || ".anchors",
-    fileHint: () => store.currentFilePath,
+  tenantRoutes((t) => {
+    const r = express.Router();
+    r.use(verifyRoutes({ dataDir: t.dataDir }));
+    r.use(historyRoutes({ dataDir: t.dataDir }));
+    // zincire yazan route’lar append kuyruğundan geçer (Redis’te yalnız lider, fencing token’la yazar)
+    r.use(correctionsRoutes(t.appendQueue));
+    r.use(disputesRoutes(t.appendQueue));
+    r.use(captureRoutes(t.store, t.appendQueue));
+    r.use("/api", fheRoutes(t.appendQueue));
+    // Proof Explorer routes
+    r.use(
+      proofsStreamRoutes(t.stream),
+      proofsExplorerRoutes({ dataDir: t.dataDir, anchorsDir: t.anchorsDir, fileHint: () => t.store.currentFilePath })
+    );
+    r.use(inclusionRoutes({ dataDir: t.dataDir, anchorsDir: t.anchorsDir, status: t.jobQueue.status, limit: inclusionLimit }));
+    r.use(transparencyRoutes({ dataDir: t.dataDir, sthLog: t.sthLog }));
+    r.use(anchorAdminRoutes(t.dlq, t.id === DEFAULT_TENANT ? { superDlq } : {}));
+    r.use(jobsRoutes({ queue: t.jobQueue, dataDir: t.dataDir, anchorsDir: t.anchorsDir }));
+    return r;
   })
 );
 
@@ -194,7 +238,8 @@ app.post(
     bucketSize: Number(process.env.RL_BUCKET || 80),
     refillPerSec: Number(process.env.RL_REFILL || 5),
   }),
-  (req, res) => {
+  idempotency({ scope: "submit" }),
+  async (req, res) => {
     const raw = req.body?.payload;
     if (typeof raw === "undefined")
       return res
@@ -211,52 +256,108 @@ app.post(
         .status(400)
         .json({ ok: false, error: "payload-too-deep", depth: d });
 
-    const score = riskScore({ payloadSize: size });
-    if (score >= 60)
-      return res.status(429).json({
-        ok: false,
-        challenge: { type: "pow", difficulty: 6 },
-      });
+    // RISK_MODE=dry-run’da karar yalnız loglanır/sayılır (bkz. risk/engine.ts).
+    // Risk altyapısı (Redis) hata verirse gönderim engellenmez: loglanır, privora_risk_errors_total sayılır.
+    const risk = await riskEngine()
+      .assess(req, { route: "submit", payload: raw })
+      .catch((e) => noteRiskError("submit", e));
+    const difficulty = risk?.enforced ? powDifficulty(risk.score) : 0;
+    if (difficulty > 0) {
+      // çözümsüz ya da geçersiz çözüm: yeni challenge; istemci X-Pow-Solution ile aynı isteği tekrarlar
+      const subject = powSubject(req);
+      const solution = req.header("x-pow-solution");
+      const pow = solution
+        ? await verifyPowSolution(solution, subject, difficulty).catch((e) => noteRiskError("submit", e))
+        : null;
+      // undefined: çözüm doğrulanamadı (tekrar deposu erişilemez) → yukarıdaki gibi açık kalınır
+      if (pow !== undefined && !pow?.ok)
+        return res.status(429).json({
+          ok: false,
+          error: pow ? pow.error : "pow-required",
+          challenge: issuePowChallenge(subject, difficulty),
+        });
+    }
 
-    const job = pushJob(raw);
-    return res.json({ ok: true, jobId: job.id });
+    try {
+      const job = await tenantOf(req).jobQueue.enqueue(raw);
+      return res.json({ ok: true, jobId: job.id });
+    } catch (e) {
+      logger.error({ err: e }, "submit: enqueue failed");
+      return res.status(503).json({ ok: false, error: "queue-unavailable" });
+    }
   }
 );
 
 // Internal: Next job
-app.post("/next-job", requireFreshTs(), requireHmac(), (_req, res) => {
-  const job = popJob();
-  if (!job) return res.json({ ok: true, job: null });
-  return res.json({ ok: true, job: { id: job.id, payload: job.payload } });
+// Toplu lease: ?max / body.max işe kadar, leaseSec süreyle. Süre içinde /proof veya
+// /jobs/:id/heartbeat gelmezse iş başka worker’a yeniden teslim edilir (eski leaseToken geçersizleşir).
+const NEXT_JOB_MAX = Number(process.env.NEXT_JOB_MAX || 50);
+const JOB_LEASE_MAX_SEC = Number(process.env.JOB_LEASE_MAX_SEC || 3600);
+app.post("/next-job", requireFreshTs(), requireHmacOrSignature({ scope: "jobs:lease" }), async (req, res) => {
+  const consumer = String(req.header("x-worker-id") || req.header("x-key-id") || "default");
+  const max = Math.min(NEXT_JOB_MAX, Math.max(1, Number(req.body?.max) || 1));
+  const leaseSec = Math.min(JOB_LEASE_MAX_SEC, Math.max(5, Number(req.body?.leaseSec) || JOB_LEASE_SEC));
+  let leases: Lease[];
+  try {
+    leases = await tenantOf(req).jobQueue.lease(consumer, { max, leaseSec });
+  } catch (e) {
+    logger.error({ err: e }, "next-job: lease failed");
+    return res.status(503).json({ ok: false, error: "queue-unavailable" });
+  }
+  return res.json({
+    ok: true,
+    worker: consumer,
+    jobs: leases.map((l) => ({
+      id: l.job.id,
+      payload: l.job.payload,
+      leaseToken: l.token,
+      leaseUntil: l.leaseUntil,
+      attempt: l.attempt,
+    })),
+  });
 });
 
 // Internal: Proof store
-app.post("/proof", requireFreshTs(), requireHmac(), async (req, res) => {
-  const { jobId, proofHash, manifestHash } = req.body ?? {};
-  if (!jobId || !proofHash)
+app.post("/proof", requireFreshTs(), requireHmacOrSignature({ scope: "proofs:write" }), async (req, res) => {
+  const { jobId, proofHash, manifestHash, leaseToken } = req.body ?? {};
+  if (!jobId || !proofHash || !leaseToken)
     return res
       .status(400)
-      .json({ ok: false, error: "jobId & proofHash required" });
+      .json({ ok: false, error: "jobId, proofHash & leaseToken required" });
+  const { jobQueue, appendQueue, store } = tenantOf(req);
   const line: ProofLine = {
     jobId: String(jobId),
     proofHash: String(proofHash),
     manifestHash: manifestHash ? String(manifestHash) : undefined,
     createdAt: Date.now(),
   };
-  const file = store.currentFilePath;
-  const serialized = JSON.stringify(line);
-  const eventId = (req.headers["x-request-id"] as string) || randomUUID();
-  if (appendWorker) {
-    await appendWorker.enqueue(file, serialized, eventId);
-  } else {
-    await store.append(line);
+  const ev = parseEvent({ t: "pc", ...line });
+  if (!ev.success) return res.status(400).json({ ok: false, error: ev.error, details: ev.issues });
+  let acked: LeaseCheck;
+  try {
+    // iş başka worker’a geçtiyse (lease süresi dolmuş) eski worker’ın kanıtı yazılmaz
+    const check = await jobQueue.checkLease(line.jobId, String(leaseToken));
+    if (check !== "ok") return res.status(409).json({ ok: false, error: check });
+    // aynı kanıtın tekrar gönderimi (ör. yanıtı kaybolan retry) ikinci satır üretmesin
+    const eventId = `${line.jobId}:${line.proofHash}`;
+    await appendQueue.enqueueEvent(ev.data, eventId);
+    // ack ancak kalıcı yazımdan sonra: Redis modunda XADD yazım değildir, liderin done kaydı beklenir.
+    // Süre dolarsa ack yok; worker aynı gövdeyle yeniden dener (eventId tekrar yazımı önler) ya da iş
+    // lease bitince yeniden teslim edilir
+    if (!(await appendQueue.written(eventId)))
+      return res.status(503).set("Retry-After", "1").json({ ok: false, error: "append-pending" });
+    acked = await jobQueue.ack(line.jobId, String(leaseToken), { proofHash: line.proofHash, day: store.currentRoot().day });
+  } catch (e) {
+    // iş ack’lenmediyse lease bitince yeniden teslim edilir; eventId tekrar yazımı önler
+    logger.error({ err: e, jobId: line.jobId }, "proof: store failed");
+    return res.status(503).json({ ok: false, error: "queue-unavailable" });
   }
-  return res.json({ ok: true, stored: true });
+  return res.json({ ok: true, stored: true, acked: acked === "ok" });
 });
 
 // Proof status
-app.get("/proofs", (_req, res) => {
-  const snap = store.currentRoot();
+app.get("/proofs", (req, res) => {
+  const snap = tenantOf(req).store.currentRoot();
   return res.json({
     ok: true,
     info: {
@@ -264,6 +365,7 @@ app.get("/proofs", (_req, res) => {
       leafCount: snap?.leafCount ?? 0,
       merkleRoot: snap?.merkleRoot ?? null,
       file: snap?.file ?? null,
+      treeVer: snap?.treeVer ?? TREE_VERSION,
     },
   });
 });
@@ -274,10 +376,12 @@ app.get("/proofs/verify", (req, res) => {
     const leaf = String(req.query.leaf || "");
     const root = String(req.query.root || "");
     const branch = JSON.parse(String(req.query.branch || "[]"));
+    const ver = Number(req.query.ver || TREE_VERSION) === 1 ? 1 : 2;
     const ok = verifyMerkleProof(
       leaf as `0x${string}`,
       branch,
-      root as `0x${string}`
+      root as `0x${string}`,
+      ver
     );
     return res.json({ ok, verified: ok });
   } catch (e: any) {
@@ -298,15 +402,21 @@ app.use((err: any, _req, res, _next) => {
 // ------------------------------
 // SCHEDULES
 // ------------------------------
-scheduleDailyAnchor(store);
-scheduleAnchorRetry(redis);
+runOnLeader(leader, [
+  scheduleDailyAnchor(() => tenants.all(), superDlq),
+  scheduleAnchorRetry(async () => [...(await tenants.all()).map((t) => t.dlq), superDlq]),
+  scheduleWebhookRetry(webhooks),
+  scheduleSignedTreeHeads(() => tenants.all()),
+]);
 
 // ------------------------------
 // GRACEFUL SHUTDOWN
 // ------------------------------
 async function shutdown() {
   try {
-    await appendWorker?.close();
+    await tenants.close();
+    await leader?.stop();
+    webhooks.close();
     if (redis) await redis.quit();
   } finally {
     process.exit(0);
@@ -318,6 +428,10 @@ process.on("SIGINT", shutdown);
 // ------------------------------
 // START SERVER
 // ------------------------------
-app.listen(PORT, () =>
+const server = app.listen(PORT, () =>
   logger.info({ port: PORT }, "[api] listening")
 );
+attachProofStreamWs(server, async (req) => {
+  const r = await resolveTenant(req, redis as any);
+  return "error" in r ? null : (await tenants.get(r.tenant)).stream;
+});
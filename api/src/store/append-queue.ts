@@ -1,13 +1,44 @@
 // SPDX-License-Identifier: Apache-2.0
 // api/src/store/append-queue.ts
+// Zincir yazım hattı: proof satırları ("pc") ve route’lardan gelen diğer olaylar (capture, px, do/du, fhe)
+// zincire yalnız buradan girer.
+// - Redis varsa: privora:append:stream (consumer group privora-appenders). Sadece lider okur;
+//   N olay / T ms’lik gruplar ProofStore.appendManyAny ile sırayla zincirlenip tek yazım + fsync ile
+//   diske iner (group commit), XACK yazımdan SONRA. Lider yazamadan çökerse kayıtlar PEL’de kalır
+//   ve yeni lider XAUTOCLAIM ile devralır. Her batch liderin fencing token’ıyla yazılır; lease’i
+//   düşmüş (duraklamış) eski liderin geç kalan yazımını ProofStore reddeder.
+// - Takipçiler (lider olmayan instance’lar) yazmaz; liderin dosyaya eklediklerini ProofStore.follow ile
+//   okuyup kendi kökünü / canlı akışını günceller.
+// - Idempotency: yazılan eventId’ler privora:append:done:<id> (TTL’li) → failover’da tekrar yazılmaz.
+//   Tek açık pencere: append ile done kaydı arasındaki çökme (at-least-once).
+// - Redis yoksa doğrudan ProofStore.appendManyAny (eşzamanlı çağrılar birleşir, + bellek içi LRU).
+// - Tenant başına ayrı kuyruk: anahtarlar tenantRedisKey ile öneklenir (varsayılan tenant’ta değişmez).
 import type { Redis } from "ioredis";
-import fs from "node:fs";
-import path from "node:path";
-import { LeaderElector } from "../util/leader.js";
-import { registry, labels } from "../metrics/registry.js";
 import client from "prom-client";
+import type { LeaderElector } from "../util/leader.js";
+import { registry, labels } from "../metrics/registry.js";
+import { parseEvent, type StoreEvent } from "./events.js";
+import type { ProofLine, ProofStore } from "./proof-store.js";
+import { DEFAULT_TENANT } from "../keys/scopes.js";
+import { tenantRedisKey } from "../tenant/namespace.js";
+
+export type AppendItem = { eventId: string; event: StoreEvent };
+type StreamEntry = [string, string[]];
 
-export type AppendItem = { eventId: string; file: string; line: string };
+// eski sürümdeki "privora:append" LIST’iyle çakışmasın diye ayrı anahtar
+const STREAM = "privora:append:stream";
+const GROUP = "privora-appenders";
+const DEAD = "privora:append:dead";
+const DONE_PREFIX = "privora:append:done:";
+const IDEM_TTL_SEC = Number(process.env.APPEND_IDEM_TTL_SEC || 7 * 86400);
+const BATCH = Number(process.env.APPEND_BATCH || 100);            // group commit: en fazla N satır
+const FLUSH_MS = Number(process.env.APPEND_FLUSH_MS || 5);        // ilk satırdan sonra en fazla T ms beklenir
+const CLAIM_IDLE_MS = Number(process.env.APPEND_CLAIM_IDLE_MS || 30_000);
+const RECLAIM_EVERY_MS = Number(process.env.APPEND_RECLAIM_EVERY_MS || 10_000);
+const STREAM_MAXLEN = Number(process.env.APPEND_STREAM_MAXLEN || 1_000_000);
+const FOLLOW_MS = Number(process.env.APPEND_FOLLOW_MS || 500);    // takipçinin diski okuma sıklığı
+const WAIT_MS = Number(process.env.APPEND_WAIT_MS || 5000);       // written(): liderin yazımını en çok bu kadar bekle
+const WAIT_POLL_MS = 25;
 
 const dequeued = new client.Counter({
   name: "privora_append_dequeued_total",
@@ -19,20 +50,36 @@ const appendErrors = new client.Counter({
   help: "Append write errors",
   registers: [registry],
 });
+const duplicates = new client.Counter({
+  name: "privora_append_duplicates_total",
+  help: "Append items skipped because their eventId was already written",
+  registers: [registry],
+});
+const reclaimed = new client.Counter({
+  name: "privora_append_reclaimed_total",
+  help: "Pending append items taken over via XAUTOCLAIM",
+  registers: [registry],
+});
 const drainLatency = new client.Histogram({
   name: "privora_append_drain_latency_ms",
   help: "Drain loop latency (ms)",
   buckets: [1, 5, 10, 20, 50, 100, 250, 500],
   registers: [registry],
 });
-const leaderGauge = new client.Gauge({
-  name: "leader_is_leader",
-  help: "1 if this instance is leader",
-  labelNames: ["instance_id"],
+const batchSize = new client.Histogram({
+  name: "privora_append_batch_size",
+  help: "Lines per group commit",
+  buckets: [1, 2, 5, 10, 25, 50, 100, 250, 500],
+  registers: [registry],
+});
+const flushLatency = new client.Histogram({
+  name: "privora_append_flush_latency_ms",
+  help: "Group commit write + fsync latency (ms)",
+  buckets: [1, 2, 5, 10, 20, 50, 100, 250, 500, 1000],
   registers: [registry],
 });
 
-// Basit LRU (idempotency) — son N eventId
+// Basit LRU (idempotency) — son N eventId; yalnız Redis’siz tek instance modunda
 class IdLRU {
   private max: number;
   private map = new Map<string, number>();
@@ -48,71 +95,237 @@ class IdLRU {
   }
 }
 
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
 export class AppendQueue {
-  private elector: LeaderElector | null = null;
-  private drainTimer?: NodeJS.Timeout;
+  private reader: Redis | null = null; // BLOCK’lu okuma paylaşılan bağlantıyı tutmasın
+  private loop: Promise<void> | null = null;
+  private stopped = false;
   private lru = new IdLRU();
+  private local: { item: AppendItem; resolve: () => void; reject: (e: unknown) => void }[] = [];
+  private flushing = false;
+  private consumer = `${labels.instance_id}:${process.pid}`;
+  private stream: string;
+  private dead: string;
+  private donePrefix: string;
 
-  constructor(private dir: string, private redis: Redis | null) {}
+  // elector: Redis modunda zorunlu; cron’larla ve diğer tenant kuyruklarıyla paylaşılır, yaşam döngüsü çağıranda
+  constructor(
+    private store: ProofStore,
+    private redis: Redis | null,
+    private elector: LeaderElector | null = null,
+    tenant = DEFAULT_TENANT
+  ) {
+    this.stream = tenantRedisKey(tenant, STREAM);
+    this.dead = tenantRedisKey(tenant, DEAD);
+    this.donePrefix = tenantRedisKey(tenant, DONE_PREFIX);
+  }
 
   async init() {
-    if (this.redis) {
-      this.elector = new LeaderElector(this.redis);
-      await this.elector.start();
-      this.startDrainLoop();
+    if (!this.redis) return;
+    if (!this.elector) throw new Error("AppendQueue: LeaderElector required when Redis is set");
+    try {
+      await this.redis.xgroup("CREATE", this.stream, GROUP, "0", "MKSTREAM");
+    } catch (e: any) {
+      if (!String(e?.message || e).includes("BUSYGROUP")) throw e;
     }
-    if (!fs.existsSync(this.dir)) fs.mkdirSync(this.dir, { recursive: true });
+    this.reader = this.redis.duplicate();
+    await this.elector.start();
+    this.loop = this.run();
   }
 
-  async enqueue(file: string, line: string, eventId?: string) {
-    const payload: AppendItem = { file, line, eventId: eventId || cryptoRandom() };
+  /** Proof satırı ("pc") ekler; bkz. enqueueEvent */
+  async enqueue(line: ProofLine, eventId?: string) {
+    return this.enqueueEvent(
+      { t: "pc", jobId: line.jobId, proofHash: line.proofHash, manifestHash: line.manifestHash, createdAt: line.createdAt },
+      eventId
+    );
+  }
+
+  /**
+   * Şemaya uymayan olay kuyruğa girmez (hata fırlatır).
+   * Redis: stream’e kalıcı olarak eklenince döner (yazım lider tarafından yapılır).
+   * Lokal: olay zincire yazılıp fsync’lenince döner; eşzamanlı çağrılar tek yazımda birleşir.
+   * eventId aynı olayın tekrarını (retry, failover) tek satıra indirir.
+   */
+  async enqueueEvent(ev: StoreEvent, eventId?: string) {
+    const parsed = parseEvent(ev);
+    if (!parsed.success) throw new Error(parsed.error);
+    const item: AppendItem = { eventId: eventId || cryptoRandom(), event: parsed.data };
     if (this.redis) {
-      await this.redis.rpush("privora:append", JSON.stringify(payload));
+      await this.redis.xadd(this.stream, "MAXLEN", "~", STREAM_MAXLEN, "*", "id", item.eventId, "item", JSON.stringify(item));
       return;
     }
-    // fallback: lokal; idempotency kontrol
-    if (!this.lru.has(payload.eventId)) {
-      await fs.promises.appendFile(file, payload.line + "\n", { flag: "a" });
-      this.lru.add(payload.eventId);
+    return new Promise<void>((resolve, reject) => {
+      this.local.push({ item, resolve, reject });
+      if (!this.flushing) {
+        this.flushing = true;
+        void this.flushLocal();
+      }
+    });
+  }
+
+  /**
+   * eventId zincire yazıldı mı. Redis: liderin done kaydı timeoutMs boyunca yoklanır; süre dolarsa false
+   * (olay stream’de kalır, yazım sonra gerçekleşir). Lokal: enqueueEvent zaten fsync’ten sonra döner → true.
+   */
+  async written(eventId: string, timeoutMs = WAIT_MS) {
+    if (!this.redis) return true;
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      if (await this.redis.exists(this.donePrefix + eventId)) return true;
+      if (this.stopped || Date.now() >= deadline) return false;
+      await sleep(WAIT_POLL_MS);
     }
   }
 
-  private startDrainLoop() {
-    if (!this.redis || !this.elector) return;
-    const key = "privora:append";
-    const loop = async () => {
+  // yazım sürerken gelenler birikir ve bir sonraki yazımda topluca gider (bekleme eklemeden)
+  private async flushLocal() {
+    try {
+      while (this.local.length) {
+        const batch = this.local.splice(0, BATCH);
+        const seen = new Set<string>();
+        const fresh = batch.filter(({ item }) => {
+          if (this.lru.has(item.eventId) || seen.has(item.eventId)) return false;
+          seen.add(item.eventId);
+          return true;
+        });
+        duplicates.inc(batch.length - fresh.length);
+        try {
+          await this.writeBatch(fresh.map((b) => b.item.event));
+          for (const b of fresh) this.lru.add(b.item.eventId);
+          batch.forEach((b) => b.resolve());
+        } catch (e) {
+          batch.forEach((b) => b.reject(e));
+        }
+      }
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  private async writeBatch(evs: StoreEvent[], fencingToken: number | null = null) {
+    if (!evs.length) return;
+    batchSize.observe(evs.length);
+    const end = flushLatency.startTimer();
+    try {
+      await this.store.appendManyAny(evs, { fencingToken });
+    } finally {
+      end();
+    }
+  }
+
+  private async run() {
+    let wasLeader = false;
+    let lastReclaim = 0;
+    while (!this.stopped) {
       const end = drainLatency.startTimer();
       try {
-        const isLeader = this.elector!.isLeader;
-        leaderGauge.set({ instance_id: labels.instance_id }, isLeader ? 1 : 0);
-
-        if (isLeader) {
-          const res = await this.redis!.blpop(key, 1); // 1s blokla
-          if (res && res[1]) {
-            const item = JSON.parse(res[1]) as AppendItem;
-            if (!this.lru.has(item.eventId)) {
-              const fpath = path.resolve(item.file);
-              await fs.promises.mkdir(path.dirname(fpath), { recursive: true });
-              await fs.promises.appendFile(fpath, item.line + "\n", { flag: "a" });
-              this.lru.add(item.eventId);
-            }
-            dequeued.inc();
-          }
+        if (!this.elector!.isLeader) {
+          wasLeader = false;
+          await this.store.follow();
+          await sleep(FOLLOW_MS);
+          continue;
         }
-      } catch {
+        // lider yeni seçildiyse: zincir ucunu diskten tazele, önceki liderin yarım kalanlarını hemen devral
+        if (!wasLeader) await this.store.reload();
+        if (!wasLeader || Date.now() - lastReclaim > RECLAIM_EVERY_MS) {
+          await this.reclaim();
+          lastReclaim = Date.now();
+          wasLeader = true;
+        }
+        const batch = await this.collect();
+        if (batch.length) await this.commit(batch);
+      } catch (e) {
         appendErrors.inc();
+        console.error("[append-queue] drain error", e);
+        await sleep(500);
       } finally {
         end();
-        this.drainTimer = setImmediate(loop) as unknown as NodeJS.Timeout;
-        (this.drainTimer as any).unref?.();
       }
-    };
-    loop();
+    }
+  }
+
+  /** İlk kayıt gelene kadar (en çok 1 sn) bekler, sonra BATCH dolana ya da FLUSH_MS geçene kadar toplar */
+  private async collect() {
+    const read = async (count: number, blockMs: number) =>
+      ((await this.reader!.xreadgroup(
+        "GROUP", GROUP, this.consumer, "COUNT", count, "BLOCK", blockMs, "STREAMS", this.stream, ">"
+      )) as [string, StreamEntry[]][] | null)?.[0]?.[1] ?? [];
+
+    const out = await read(BATCH, 1000);
+    const deadline = Date.now() + FLUSH_MS;
+    while (out.length && out.length < BATCH && !this.stopped) {
+      const left = deadline - Date.now();
+      if (left < 1) break;
+      const more = await read(BATCH - out.length, left);
+      if (!more.length) break;
+      out.push(...more);
+    }
+    return out;
+  }
+
+  /** CLAIM_IDLE_MS’ten uzun süredir ack’lenmemiş kayıtları (çökmüş lider / kendi hatalarımız) devralır */
+  private async reclaim() {
+    let cursor = "0-0";
+    do {
+      const [next, entries] = (await this.redis!.xautoclaim(
+        this.stream, GROUP, this.consumer, CLAIM_IDLE_MS, cursor, "COUNT", BATCH
+      )) as [string, (StreamEntry | null)[]];
+      const live = entries.filter((e): e is StreamEntry => !!e); // null: stream’den silinmiş (MAXLEN)
+      reclaimed.inc(live.length);
+      if (live.length) await this.commit(live);
+      cursor = next;
+    } while (cursor !== "0-0" && !this.stopped);
+  }
+
+  /**
+   * Group commit: sırayla zincirle, tek yazım + fsync, sonra done kayıtları ve XACK tek MULTI’de.
+   * Yazım hata verirse hiçbiri ack’lenmez; kayıtlar PEL’de kalır ve reclaim ile tekrar denenir.
+   */
+  private async commit(entries: StreamEntry[]) {
+    const dead: StreamEntry[] = [];
+    const parsed: { sid: string; item: AppendItem }[] = [];
+    for (const [sid, fields] of entries) {
+      const i = fields.indexOf("item");
+      let raw: any = null;
+      try { raw = i < 0 ? null : JSON.parse(fields[i + 1]); } catch {}
+      // eski sürümün kayıtları { eventId, line } (yalnız proof satırı)
+      const ev = parseEvent(raw?.event ?? (raw?.line ? { t: "pc", ...raw.line } : null));
+      // bozuk / şemaya uymayan kayıt tekrar denemekle düzelmez → dead stream
+      if (!raw?.eventId || !ev.success) dead.push([sid, fields]);
+      else parsed.push({ sid, item: { eventId: String(raw.eventId), event: ev.data } });
+    }
+
+    const done = parsed.length
+      ? await this.redis!.mget(...parsed.map((p) => this.donePrefix + p.item.eventId))
+      : [];
+    const seen = new Set<string>();
+    const fresh = parsed.filter((p, i) => {
+      if (done[i] || seen.has(p.item.eventId)) return false;
+      seen.add(p.item.eventId);
+      return true;
+    });
+    duplicates.inc(parsed.length - fresh.length);
+
+    // token yoksa lease bu arada düştü: yazma, kayıtlar PEL’de kalsın
+    const token = this.elector!.token;
+    if (token === null) throw new Error("append-queue: leadership lost before commit");
+    await this.writeBatch(fresh.map((p) => p.item.event), token);
+
+    const m = this.redis!.multi();
+    for (const p of fresh) m.set(this.donePrefix + p.item.eventId, p.sid, "EX", IDEM_TTL_SEC);
+    for (const [sid, fields] of dead) m.xadd(this.dead, "*", "sid", sid, "fields", JSON.stringify(fields), "at", String(Date.now()));
+    m.xack(this.stream, GROUP, ...entries.map(([sid]) => sid));
+    await m.exec();
+    if (dead.length) appendErrors.inc(dead.length);
+    dequeued.inc(entries.length);
   }
 
   async close() {
-    if (this.drainTimer) clearTimeout(this.drainTimer);
-    await this.elector?.stop();
+    this.stopped = true;
+    await this.loop?.catch(() => {});
+    this.reader?.disconnect();
   }
 }
 
@@ -0,0 +1,92 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/store/day-file.ts
+// Gün dosyasını stream’leyip header + Merkle yapraklarını çıkarır (cron, script ve route’lar ortak kullanır)
+import fs from "node:fs";
+import path from "node:path";
+import readline from "node:readline";
+import { leafOf } from "./events.js";
+import { rootForVersion, treeVersionOf, type TreeVersion } from "../crypto/merkle.js";
+
+export type DayLeaves = {
+  file: string;
+  day: string | null;
+  header: Record<string, unknown> | null;
+  treeVer: TreeVersion;
+  leaves: string[];
+  /** match verildiyse eşleşen ilk leaf satırının indeksi (yoksa -1) */
+  matchIndex: number;
+  matchLine: Record<string, any> | null;
+};
+
+/** Gün dosyaları, yeniden eskiye */
+export function listDayFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((f) => /^proofs-\d{4}-\d{2}-\d{2}\.ndjson$/.test(f))
+    .sort()
+    .reverse()
+    .map((f) => path.join(dir, f));
+}
+
+export async function readDayLeaves(
+  file: string,
+  match?: (obj: Record<string, any>, leaf: string) => boolean
+): Promise<DayLeaves> {
+  const out: DayLeaves = {
+    file,
+    day: path.basename(file).match(/\d{4}-\d{2}-\d{2}/)?.[0] ?? null,
+    header: null,
+    treeVer: 1,
+    leaves: [],
+    matchIndex: -1,
+    matchLine: null,
+  };
+  const rl = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+  for await (const raw of rl) {
+    const line = raw.trim();
+    if (!line) continue;
+    let obj: any;
+    try { obj = JSON.parse(line); } catch { continue; }
+    if (obj?.t === "header") {
+      out.header = obj;
+      out.treeVer = treeVersionOf(obj);
+      continue;
+    }
+    const leaf = leafOf(obj);
+    if (!leaf) continue;
+    if (match && out.matchIndex < 0 && match(obj, leaf)) {
+      out.matchIndex = out.leaves.length;
+      out.matchLine = obj;
+    }
+    out.leaves.push(leaf);
+  }
+  return out;
+}
+
+/** Gün dosyalarında (yeniden eskiye) eşleşen ilk yaprağı bulur; maxDays: day yoksa yalnız en yeni N gün */
+export async function findLeaf(
+  dir: string,
+  match: (obj: Record<string, any>, leaf: string) => boolean,
+  opts: { day?: string; maxDays?: number } = {}
+): Promise<DayLeaves | null> {
+  const files = opts.day
+    ? listDayFiles(dir).filter((f) => path.basename(f) === `proofs-${opts.day}.ndjson`)
+    : listDayFiles(dir).slice(0, opts.maxDays);
+  for (const f of files) {
+    const d = await readDayLeaves(f, match);
+    if (d.matchIndex >= 0) return d;
+  }
+  return null;
+}
+
+/** Dosyanın kendi header’ındaki ağaç sürümüyle kökü hesaplar */
+export async function computeDayRoot(file: string) {
+  const d = await readDayLeaves(file);
+  return {
+    day: d.day,
+    treeVer: d.treeVer,
+    leafCount: d.leaves.length,
+    merkleRoot: rootForVersion(d.treeVer, d.leaves),
+  };
+}
@@ -0,0 +1,48 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/store/events.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isEventKind, kindOf, leafOf, parseEvent } from "./events.js";
+
+const at = 1767312000000;
+
+test("kindOf resolves registered kinds and treats legacy proof lines as pc", () => {
+  assert.equal(kindOf({ t: "capture" }), "capture");
+  assert.equal(kindOf({ jobId: "j", proofHash: "0xab" }), "pc"); // ver:1 satırı, t yok
+  assert.equal(kindOf({ t: "nope", proofHash: "0xab" }), null);
+  assert.equal(kindOf({ jobId: "j" }), null);
+  assert.equal(kindOf(null), null);
+  assert.equal(kindOf("pc"), null);
+  assert.ok(isEventKind("du"));
+  assert.ok(!isEventKind("toString")); // prototip alanları tür değildir
+});
+
+test("parseEvent validates against the kind's schema and reports issues", () => {
+  const ok = parseEvent({ jobId: "j1", proofHash: "0xab", createdAt: at });
+  assert.ok(ok.success);
+  assert.deepEqual(ok.data, { t: "pc", jobId: "j1", proofHash: "0xab", createdAt: at });
+
+  const bad = parseEvent({ t: "capture", contentId: "c", proofHash: "0xab", contentType: "", createdAt: at });
+  assert.ok(!bad.success);
+  assert.equal(bad.error, "bad-capture-event");
+  assert.deepEqual(bad.issues?.map((i) => i.path.join(".")), ["contentType"]);
+
+  const status = parseEvent({ t: "du", disputeId: "d1", status: "maybe", updatedAt: at });
+  assert.ok(!status.success && status.error === "bad-du-event");
+
+  assert.deepEqual(parseEvent({ t: "zz" }), { success: false, error: "unknown-event-kind" });
+  // şemada olmayan alanlar atılır
+  const fhe = parseEvent({ t: "fhe", operationId: "op-000001", userWallet: "w", fieldName: "f", op: "encrypt", schemaVer: 1, createdAt: at, extra: 1 });
+  assert.ok(fhe.success && !("extra" in fhe.data));
+});
+
+test("only pc, px and capture events produce Merkle leaves", () => {
+  assert.equal(leafOf({ t: "pc", proofHash: "0x01" }), "0x01");
+  assert.equal(leafOf({ proofHash: "0x02" }), "0x02");
+  assert.equal(leafOf({ t: "px", newProofHash: "0x03", proofHash: "0xff" }), "0x03");
+  assert.equal(leafOf({ t: "capture", proofHash: "0x04" }), "0x04");
+  assert.equal(leafOf({ t: "do", disputeId: "d1" }), null);
+  assert.equal(leafOf({ t: "du", disputeId: "d1" }), null);
+  assert.equal(leafOf({ t: "fhe", operationId: "op" }), null);
+  assert.equal(leafOf({ t: "zz" }), null);
+});
@@ -0,0 +1,170 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/store/events.ts
+// Typed event model for the NDJSON store: her satır türü + validator + leaf kuralı
+import { z } from "zod";
+
+export const PcEventSchema = z.object({
+  t: z.literal("pc"),
+  jobId: z.string().min(1),
+  proofHash: z.string().min(1),
+  manifestHash: z.string().optional(),
+  createdAt: z.number().int(),
+});
+
+export const PxEventSchema = z.object({
+  t: z.literal("px"),
+  correctionId: z.string().min(1),
+  supersedes: z.string().min(1),
+  newProofHash: z.string().min(1),
+  reason: z.string().optional(),
+  createdAt: z.number().int(),
+});
+
+export const DisputeStatus = z.enum(["accepted", "rejected", "needs-more-info"]);
+
+export const DoEventSchema = z.object({
+  t: z.literal("do"),
+  disputeId: z.string().min(1),
+  proofId: z.string().min(1),
+  issue: z.string().min(1),
+  evidenceCid: z.string().optional(),
+  openedAt: z.number().int(),
+});
+
+export const DuEventSchema = z.object({
+  t: z.literal("du"),
+  disputeId: z.string().min(1),
+  status: DisputeStatus,
+  note: z.string().optional(),
+  updatedAt: z.number().int(),
+});
+
+export const CaptureEventSchema = z.object({
+  t: z.literal("capture"),
+  contentId: z.string().min(1),
+  proofHash: z.string().min(1),
+  contentType: z.string().min(1),
+  manifestHash: z.string().optional(),
+  createdAt: z.number().int(),
+});
+
+export const FheOpEnum = z.enum([
+  "encrypt",
+  "decrypt",
+  "op:add",
+  "op:mul",
+  "op:sub",
+  "op:neg",
+  "op:rot",
+  "op:bootstrap",
+  "circuit:create",
+  "circuit:exec",
+]);
+
+/** /api/fhe/ingest gövdesi (t/createdAt hariç) */
+export const FheIngestSchema = z.object({
+  operationId: z.string().min(8),
+  userWallet: z.string().min(1),
+  fieldName: z.string().min(1),
+  op: FheOpEnum,
+  schemaVer: z.number().int().min(1),
+  keyVer: z.string().optional(),
+  ciphertextSize: z.number().int().nonnegative().optional(),
+  metadata: z
+    .object({
+      scheme: z.string().min(1),
+      securityLevel: z.string().optional(),
+      noiseLevel: z.number().optional(),
+      bootstrappable: z.boolean().optional(),
+      version: z.string().optional(),
+      timestamp: z.number().int().optional(),
+    })
+    .partial()
+    .passthrough()
+    .optional(),
+  chain: z
+    .object({
+      chainId: z.string().optional(),
+      txHash: z.string().optional(),
+      contract: z.string().optional(),
+    })
+    .partial()
+    .optional(),
+});
+
+export const FheEventSchema = z
+  .object({ t: z.literal("fhe") })
+  .merge(FheIngestSchema)
+  .extend({ createdAt: z.number().int() });
+
+export type PcEvent = z.infer<typeof PcEventSchema>;
+export type PxEvent = z.infer<typeof PxEventSchema>;
+export type DoEvent = z.infer<typeof DoEventSchema>;
+export type DuEvent = z.infer<typeof DuEventSchema>;
+export type CaptureEvent = z.infer<typeof CaptureEventSchema>;
+export type FheEvent = z.infer<typeof FheEventSchema>;
+
+export type StoreEvent = PcEvent | PxEvent | DoEvent | DuEvent | CaptureEvent | FheEvent;
+export type EventKind = StoreEvent["t"];
+
+/** Diske yazılmış hali: zincir alanları store tarafından doldurulur */
+export type ChainedEvent<E extends StoreEvent = StoreEvent> = E & {
+  prevHash: string | null;
+  lineHash: string;
+};
+
+type EventSpec<E extends StoreEvent> = {
+  schema: z.ZodType<E, z.ZodTypeDef, unknown>;
+  /** Merkle yaprağı üreten türler için; yoksa olay sadece zincirlenir */
+  leaf?: (e: E) => string;
+};
+
+/**
+ * Olay türü registry’si.
+ * - Her tür aynı prevHash/lineHash zincirinden geçer.
+ * - Sadece leaf tanımlı türler (pc, px, capture) Merkle yapraklarına girer;
+ *   dispute/fhe kayıtları zincirde ama ağaçta değildir.
+ */
+export const EVENT_REGISTRY: { [K in EventKind]: EventSpec<Extract<StoreEvent, { t: K }>> } = {
+  pc: { schema: PcEventSchema, leaf: (e) => e.proofHash },
+  px: { schema: PxEventSchema, leaf: (e) => e.newProofHash },
+  capture: { schema: CaptureEventSchema, leaf: (e) => e.proofHash },
+  do: { schema: DoEventSchema },
+  du: { schema: DuEventSchema },
+  fhe: { schema: FheEventSchema },
+};
+
+export function isEventKind(t: unknown): t is EventKind {
+  return typeof t === "string" && Object.prototype.hasOwnProperty.call(EVENT_REGISTRY, t);
+}
+
+/**
+ * Satırın türünü çözer. ver:1 dosyalarındaki eski proof satırlarında `t` yoktur;
+ * proofHash taşıyorsa "pc" kabul edilir.
+ */
+export function kindOf(obj: any): EventKind | null {
+  if (!obj || typeof obj !== "object") return null;
+  if (isEventKind(obj.t)) return obj.t;
+  if (obj.t === undefined && typeof obj.proofHash === "string") return "pc";
+  return null;
+}
+
+/** Olayı registry’deki şemaya göre doğrular; normalize edilmiş olayı döner. */
+export function parseEvent(input: unknown):
+  | { success: true; data: StoreEvent }
+  | { success: false; error: string; issues?: z.ZodIssue[] } {
+  const kind = kindOf(input);
+  if (!kind) return { success: false, error: "unknown-event-kind" };
+  const spec = EVENT_REGISTRY[kind] as EventSpec<StoreEvent>;
+  const parsed = spec.schema.safeParse({ ...(input as object), t: kind });
+  if (!parsed.success) return { success: false, error: `bad-${kind}-event`, issues: parsed.error.issues };
+  return { success: true, data: parsed.data };
+}
+
+/** Merkle yaprağı (yoksa null) */
+export function leafOf(obj: unknown): string | null {
+  const kind = kindOf(obj);
+  if (!kind) return null;
+  const spec = EVENT_REGISTRY[kind] as EventSpec<StoreEvent>;
+  return spec.leaf ? spec.leaf(obj as StoreEvent) : null;
+}
@@ -0,0 +1,101 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/store/integrity.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { ProofStore, type ProofLine } from "./proof-store.js";
+import { verifyChainFile } from "./integrity.js";
+
+const proof = (i: number): ProofLine => ({
+  jobId: `job-${i}`,
+  proofHash: "0x" + i.toString(16).padStart(64, "0"),
+  createdAt: 1767312000000 + i,
+});
+
+/** 5 satırlık sağlam zincir; lines[0] header, head son satırın lineHash’i */
+async function withChain(fn: (c: { dir: string; file: string; lines: string[]; head: string }) => Promise<void>) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "integrity-"));
+  try {
+    const store = new ProofStore(dir);
+    await store.appendBatch(Array.from({ length: 5 }, (_, i) => proof(i)));
+    const file = store.currentFilePath;
+    const lines = fs.readFileSync(file, "utf8").trim().split("\n");
+    await fn({ dir, file, lines, head: JSON.parse(lines.at(-1)!).lineHash });
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+/** Değiştirilmiş kopya: aynı gün adıyla ayrı dizine yazılır */
+function variant(dir: string, file: string, lines: string[], trailer = "\n") {
+  const out = path.join(dir, "tampered", path.basename(file));
+  fs.mkdirSync(path.dirname(out), { recursive: true });
+  fs.writeFileSync(out, lines.join("\n") + trailer);
+  return out;
+}
+
+test("an intact chain verifies and reports its head", () =>
+  withChain(async ({ file, head }) => {
+    const r = await verifyChainFile(file, { expectHead: head });
+    assert.equal(r.ok, true);
+    assert.equal(r.lines, 5);
+    assert.equal(r.head, head);
+    assert.equal(r.header.ok, true);
+    assert.match(r.day!, /^\d{4}-\d{2}-\d{2}$/);
+    assert.equal(r.firstBroken, null);
+  }));
+
+test("an edited line fails its recomputed hash", () =>
+  withChain(async ({ dir, file, lines }) => {
+    const edited = JSON.parse(lines[3]);
+    edited.proofHash = "0x" + "ff".repeat(32);
+    const r = await verifyChainFile(variant(dir, file, [...lines.slice(0, 3), JSON.stringify(edited), ...lines.slice(4)]));
+    assert.equal(r.ok, false);
+    assert.equal(r.firstBroken?.kind, "bad-hash");
+    assert.equal(r.firstBroken?.line, 4);
+    // zincir diskteki lineHash’ten devam eder: tek düzenleme tek sorun
+    assert.equal(r.issues.length, 1);
+  }));
+
+test("a removed line breaks the next prevHash and a repeated line is a duplicate", async () => {
+  await withChain(async ({ dir, file, lines }) => {
+    const r = await verifyChainFile(variant(dir, file, [...lines.slice(0, 2), ...lines.slice(3)]));
+    assert.equal(r.ok, false);
+    assert.deepEqual(r.missing.map((i) => [i.line, i.got]), [[3, JSON.parse(lines[3]).prevHash]]);
+  });
+  await withChain(async ({ dir, file, lines }) => {
+    const r = await verifyChainFile(variant(dir, file, [...lines.slice(0, 3), lines[2], ...lines.slice(3)]));
+    assert.deepEqual(r.duplicates.map((i) => [i.line, i.firstSeenLine]), [[4, 3]]);
+  });
+  await withChain(async ({ dir, file, lines }) => {
+    const r = await verifyChainFile(variant(dir, file, [lines[0], lines[1], lines[3], lines[2], ...lines.slice(4)]));
+    assert.equal(r.firstBroken?.kind, "missing");
+    assert.ok(r.issues.some((i) => i.kind === "reordered"));
+  });
+});
+
+test("a truncated tail is caught by the expected head or as a partial line", () =>
+  withChain(async ({ dir, file, lines, head }) => {
+    // tam satır kesilmiş: zincir kendi içinde sağlam, yalnız beklenen head tutmaz
+    const cut = variant(dir, file, lines.slice(0, -1));
+    assert.equal((await verifyChainFile(cut)).ok, true);
+    const r = await verifyChainFile(cut, { expectHead: head });
+    assert.equal(r.ok, false);
+    assert.deepEqual(r.firstBroken, { line: 5, kind: "head-mismatch", expected: head, got: JSON.parse(lines.at(-2)!).lineHash });
+
+    // yazım ortasında kesilmiş son satır
+    const partial = variant(dir, file, [...lines.slice(0, -1), lines.at(-1)!.slice(0, 40)], "");
+    const p = await verifyChainFile(partial);
+    assert.equal(p.firstBroken?.kind, "bad-json");
+    assert.equal(p.firstBroken?.line, 6);
+  }));
+
+test("a file without a header line is rejected", () =>
+  withChain(async ({ dir, file, lines }) => {
+    const r = await verifyChainFile(variant(dir, file, lines.slice(1)));
+    assert.equal(r.ok, false);
+    assert.deepEqual(r.firstBroken, { line: 1, kind: "bad-header" });
+    assert.equal(r.header.ok, false);
+  }));
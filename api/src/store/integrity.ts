@@ -0,0 +1,130 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/store/integrity.ts
+// NDJSON gün dosyası için hash-chain bütünlük denetimi (stream; tüm dosyayı belleğe almaz)
+import fs from "node:fs";
+import path from "node:path";
+import readline from "node:readline";
+import { chainBase, chainHash, headerHash } from "./proof-store.js";
+
+export type IntegrityIssueKind =
+  | "bad-header"   // ilk satır header değil / parse edilemedi
+  | "bad-json"     // satır JSON değil
+  | "bad-hash"     // lineHash, prevHash + base’den yeniden hesaplanamıyor (satır düzenlenmiş)
+  | "missing"      // prevHash bilinmeyen bir hash’e işaret ediyor (arada satır silinmiş)
+  | "reordered"    // prevHash daha önceki (ama son olmayan) bir satırı gösteriyor
+  | "duplicate"    // aynı lineHash ikinci kez görüldü
+  | "head-mismatch"; // beklenen head verildiyse ve son hash tutmuyorsa (kuyruk kesilmiş)
+
+export type IntegrityIssue = {
+  line: number;               // dosyadaki 1 tabanlı satır no
+  kind: IntegrityIssueKind;
+  expected?: string | null;
+  got?: string | null;
+  firstSeenLine?: number;     // duplicate için
+};
+
+export type IntegrityReport = {
+  ok: boolean;
+  file: string;
+  day: string | null;
+  header: { ok: boolean; hash: string | null; ver: number | null };
+  lines: number;              // kontrol edilen olay satırı (header hariç)
+  firstBroken: IntegrityIssue | null;
+  missing: IntegrityIssue[];
+  duplicates: IntegrityIssue[];
+  issues: IntegrityIssue[];
+  head: string | null;        // son geçerli zincir hash’i
+};
+
+/**
+ * Dosyayı baştan yürür:
+ * - header hash’i ilk satırın prevHash’i olmalı
+ * - her satırın lineHash’i sha256(prevHash + base) ile yeniden hesaplanır
+ * - kopuk / tekrarlanan satırlar raporlanır; ilk bozulma ayrıca işaretlenir
+ * Bir kopukluktan sonra zincir diskteki lineHash’ten devam ettirilir ki
+ * tek bir silme tüm dosyayı "bozuk" göstermesin.
+ */
+export async function verifyChainFile(
+  file: string,
+  opts: { expectHead?: string } = {}
+): Promise<IntegrityReport> {
+  const report: IntegrityReport = {
+    ok: false,
+    file,
+    day: path.basename(file).match(/\d{4}-\d{2}-\d{2}/)?.[0] ?? null,
+    header: { ok: false, hash: null, ver: null },
+    lines: 0,
+    firstBroken: null,
+    missing: [],
+    duplicates: [],
+    issues: [],
+    head: null,
+  };
+  const flag = (issue: IntegrityIssue) => {
+    report.issues.push(issue);
+    if (!report.firstBroken) report.firstBroken = issue;
+    if (issue.kind === "missing") report.missing.push(issue);
+    if (issue.kind === "duplicate") report.duplicates.push(issue);
+  };
+
+  const seen = new Map<string, number>(); // lineHash -> satır no
+  let expected: string | null = null;
+  let lineNo = 0;
+  let sawHeader = false;
+
+  const rl = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+  for await (const raw of rl) {
+    lineNo++;
+    const line = raw.trim();
+    if (!line) continue;
+
+    let obj: any;
+    try {
+      obj = JSON.parse(line);
+    } catch {
+      flag({ line: lineNo, kind: sawHeader ? "bad-json" : "bad-header" });
+      sawHeader = true;
+      continue;
+    }
+
+    if (!sawHeader) {
+      sawHeader = true;
+      if (obj?.t !== "header") {
+        flag({ line: lineNo, kind: "bad-header" });
+      } else {
+        expected = headerHash(obj);
+        report.header = { ok: true, hash: expected, ver: typeof obj.ver === "number" ? obj.ver : null };
+        continue;
+      }
+    }
+
+    report.lines++;
+    const lineHash: string | null = typeof obj?.lineHash === "string" ? obj.lineHash : null;
+    const prevHash: string | null = obj?.prevHash ?? null;
+
+    if (lineHash && seen.has(lineHash)) {
+      flag({ line: lineNo, kind: "duplicate", got: lineHash, firstSeenLine: seen.get(lineHash) });
+      continue; // head ilerlemez
+    }
+
+    const recomputed = chainHash(prevHash, chainBase(obj));
+    if (lineHash !== recomputed) {
+      flag({ line: lineNo, kind: "bad-hash", expected: recomputed, got: lineHash });
+    } else if (prevHash !== expected) {
+      const earlier = prevHash ? seen.has(prevHash) : false;
+      flag({ line: lineNo, kind: earlier ? "reordered" : "missing", expected, got: prevHash });
+    }
+
+    const next = lineHash ?? recomputed;
+    seen.set(next, lineNo);
+    expected = next;
+  }
+
+  if (!sawHeader) flag({ line: 0, kind: "bad-header" });
+  report.head = expected;
+  if (opts.expectHead && opts.expectHead !== expected) {
+    flag({ line: lineNo, kind: "head-mismatch", expected: opts.expectHead, got: expected });
+  }
+  report.ok = report.issues.length === 0;
+  return report;
+}
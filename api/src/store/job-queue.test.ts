@@ -0,0 +1,114 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/store/job-queue.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { FileJobQueue } from "./job-queue.js";
+
+async function withDir(fn: (dir: string) => Promise<void>) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "jobs-"));
+  try { await fn(dir); } finally { fs.rmSync(dir, { recursive: true, force: true }); }
+}
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+test("leased jobs are invisible until their lease expires and survive a restart", () =>
+  withDir(async (dir) => {
+    const q = new FileJobQueue(dir);
+    await q.init();
+    const a = await q.enqueue({ n: 1 });
+    const b = await q.enqueue({ n: 2 });
+
+    const [l1] = await q.lease("w1", { leaseSec: 60 });
+    assert.equal(l1.job.id, a.id);
+    const [l2] = await q.lease("w2", { leaseSec: 60 });
+    assert.equal(l2.job.id, b.id);
+    assert.deepEqual(await q.lease("w3", { leaseSec: 60 }), []);
+    assert.deepEqual(await q.depth(), { queued: 0, leased: 2, dead: 0 });
+
+    assert.equal(await q.ack(a.id, l1.token), "ok");
+    assert.equal(await q.ack(a.id, l1.token), "unknown-job");
+
+    // restart sonrası b hâlâ w2’de: aynı log’dan açılan instance işi tekrar vermez, token geçerli kalır
+    const q2 = new FileJobQueue(dir);
+    await q2.init();
+    assert.deepEqual(await q2.depth(), { queued: 0, leased: 1, dead: 0 });
+    assert.deepEqual(await q2.lease("w3", { leaseSec: 60 }), []);
+    assert.equal(await q2.checkLease(b.id, l2.token), "ok");
+  }));
+
+test("batch leases, heartbeats and stale tokens after reassignment", () =>
+  withDir(async (dir) => {
+    const q = new FileJobQueue(dir);
+    await q.init();
+    for (let i = 0; i < 5; i++) await q.enqueue(i);
+
+    const batch = await q.lease("w1", { max: 3, leaseSec: 0.05 });
+    assert.deepEqual(batch.map((l) => l.job.payload), [0, 1, 2]);
+    assert.equal(new Set(batch.map((l) => l.token)).size, 3);
+
+    // yalnızca ilk iş heartbeat alır; diğer ikisinin lease’i dolar ve w2’ye geçer
+    assert.equal((await q.heartbeat(batch[0].job.id, batch[0].token, 60)).check, "ok");
+    await sleep(80);
+    const re = await q.lease("w2", { max: 10, leaseSec: 60 });
+    assert.deepEqual(re.map((l) => l.job.payload), [1, 2, 3, 4]);
+    assert.equal(re[0].attempt, 2);
+
+    // eski worker tamamlayamaz, yeni token ile tamamlanır
+    assert.equal(await q.ack(batch[1].job.id, batch[1].token), "stale-lease");
+    assert.equal((await q.heartbeat(batch[1].job.id, batch[1].token)).check, "stale-lease");
+    assert.equal(await q.ack(re[0].job.id, re[0].token), "ok");
+
+    const workers = await q.workers();
+    assert.deepEqual(workers.map((w) => [w.worker, w.leases]), [["w2", 3], ["w1", 1]]);
+  }));
+
+test("expired leases are redelivered and dead-lettered after max attempts", () =>
+  withDir(async (dir) => {
+    const q = new FileJobQueue(dir);
+    await q.init();
+    const j = await q.enqueue("x");
+    const attempts: number[] = [];
+    for (let i = 0; i < 10; i++) {
+      const [l] = await q.lease("w", { leaseSec: 0 });
+      if (!l) break;
+      attempts.push(l.attempt);
+      await sleep(2);
+    }
+    assert.deepEqual(attempts, [1, 2, 3, 4, 5]);
+    assert.deepEqual(await q.depth(), { queued: 0, leased: 0, dead: 1 });
+    const dead = fs.readFileSync(path.join(dir, "jobs-dead.ndjson"), "utf8").trim().split("\n").map((l) => JSON.parse(l));
+    assert.equal(dead[0].job.id, j.id);
+    assert.equal(dead[0].reason, "max-attempts");
+
+    // yeniden açılışta dead sayısı ve boş kuyruk korunur
+    const q2 = new FileJobQueue(dir);
+    await q2.init();
+    assert.deepEqual(await q2.depth(), { queued: 0, leased: 0, dead: 1 });
+  }));
+
+test("job status follows queued → leased → proven and survives a restart", () =>
+  withDir(async (dir) => {
+    const q = new FileJobQueue(dir);
+    await q.init();
+    const ok = await q.enqueue("a");
+    const bad = await q.enqueue("b");
+    const [l1] = await q.lease("w1", { leaseSec: 60 });
+    const [l2] = await q.lease("w2", { leaseSec: 60 });
+    assert.equal((await q.status.get(ok.id))?.worker, "w1");
+
+    assert.equal(await q.ack(ok.id, l1.token, { proofHash: "0xabc", day: "2026-01-02" }), "ok");
+    assert.equal(await q.fail(bad.id, l2.token, "unprovable"), "ok");
+    // terminal durumdan geri dönüş yok
+    assert.equal(await q.status.transition(ok.id, { state: "leased" }), null);
+
+    const q2 = new FileJobQueue(dir);
+    await q2.init();
+    const st = await q2.status.get(ok.id);
+    assert.equal(st?.state, "proven");
+    assert.equal(st?.proofHash, "0xabc");
+    assert.deepEqual(st?.history.map((h) => h.state), ["queued", "leased", "proven"]);
+    assert.equal((await q2.status.get(bad.id))?.reason, "unprovable");
+    assert.equal(await q2.status.get("nope"), null);
+  }));
@@ -0,0 +1,492 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/store/job-queue.ts
+// /submit → /next-job → /proof iş kuyruğu (iş durumları: store/job-status.ts).
+// REDIS_URL varsa Redis Streams (consumer group), yoksa dosya tabanlı op-log (tek instance).
+// Her ikisi de: toplu lease + visibility timeout, lease token’ı ile heartbeat / ack,
+// süresi dolan lease’lerin yeniden teslimi (eski token geçersizleşir), max denemede dead-letter.
+// Tenant başına ayrı kuyruk: dosya modunda tenant dizini, Redis’te tenantRedisKey önekli anahtarlar.
+import type { Redis } from "ioredis";
+import fs from "node:fs";
+import path from "node:path";
+import { randomBytes, randomUUID } from "node:crypto";
+import client from "prom-client";
+import { registry } from "../metrics/registry.js";
+import { createJobStatusStore, type JobStatusStore } from "./job-status.js";
+import { DEFAULT_TENANT } from "../keys/scopes.js";
+import { tenantRedisKey } from "../tenant/namespace.js";
+
+export type Job = { id: string; payload: unknown; createdAt: number };
+export type Lease = { job: Job; attempt: number; leaseUntil: number; consumer: string; token: string };
+export type QueueDepth = { queued: number; leased: number; dead: number };
+/** Lease token kontrolü: stale = iş başka bir lease’e geçmiş (veya token yanlış) */
+export type LeaseCheck = "ok" | "unknown-job" | "stale-lease";
+export type WorkerInfo = { worker: string; leases: number; lastSeen: number };
+
+export interface JobQueue {
+  init(): Promise<void>;
+  enqueue(payload: unknown): Promise<Job>;
+  /** En fazla max işi (önce süresi dolmuş lease’ler) consumer’a leaseSec süreyle kiralar */
+  lease(consumer: string, opts?: { max?: number; leaseSec?: number }): Promise<Lease[]>;
+  /** Lease’i uzatır; token artık geçerli değilse check != "ok" */
+  heartbeat(jobId: string, token: string, leaseSec?: number): Promise<{ check: LeaseCheck; leaseUntil?: number }>;
+  checkLease(jobId: string, token: string): Promise<LeaseCheck>;
+  /** İş tamamlandı (proven) */
+  ack(jobId: string, token: string, proof?: { proofHash: string; day: string }): Promise<LeaseCheck>;
+  /** Worker işi kalıcı olarak başarısız bildirdi: kuyruktan çıkar, durum "failed" */
+  fail(jobId: string, token: string, reason: string): Promise<LeaseCheck>;
+  /** Aktif lease sayısı ve son görülme zamanıyla worker’lar */
+  workers(): Promise<WorkerInfo[]>;
+  readonly status: JobStatusStore;
+  depth(): Promise<QueueDepth>;
+  close(): Promise<void>;
+}
+
+export const JOB_LEASE_SEC = Number(process.env.JOB_LEASE_SEC || 300);
+const JOB_MAX_ATTEMPTS = Number(process.env.JOB_MAX_ATTEMPTS || 5);
+const newToken = () => randomBytes(16).toString("hex");
+
+const redelivered = new client.Counter({
+  name: "privora_jobs_redelivered_total",
+  help: "Jobs redelivered after lease expiry",
+  registers: [registry],
+});
+const deadLettered = new client.Counter({
+  name: "privora_jobs_dead_total",
+  help: "Jobs moved to the dead-letter queue after max attempts",
+  registers: [registry],
+});
+const current = new Map<string, JobQueue>(); // tenant → kuyruk
+new client.Gauge({
+  name: "privora_job_queue_depth",
+  help: "Job queue depth",
+  labelNames: ["queue", "tenant"], // queue: queued | leased | dead
+  registers: [registry],
+  async collect() {
+    for (const [tenant, q] of current) {
+      const d = await q.depth().catch(() => null);
+      if (!d) continue;
+      this.set({ queue: "queued", tenant }, d.queued);
+      this.set({ queue: "leased", tenant }, d.leased);
+      this.set({ queue: "dead", tenant }, d.dead);
+    }
+  },
+});
+
+export function createJobQueue(redis: Redis | null, dir: string, tenant = DEFAULT_TENANT): JobQueue {
+  const status = createJobStatusStore(redis, dir, tenant);
+  const q = redis ? new RedisJobQueue(redis, status, tenant) : new FileJobQueue(dir, status);
+  current.set(tenant, q);
+  return q;
+}
+
+/* ---------------------------
+ * Redis Streams
+ *   privora:jobs          stream (consumer group privora-workers)
+ *   privora:jobs:leases   zset  streamId → leaseUntil
+ *   privora:jobs:lease    hash  jobId → {token, consumer, until, sid}
+ *   privora:jobs:ids      hash  jobId → streamId
+ *   privora:jobs:attempts hash  jobId → teslim sayısı
+ *   privora:jobs:workers  hash  worker → lastSeen
+ *   privora:jobs:dead     stream (dead-letter)
+ * --------------------------*/
+const STREAM = "privora:jobs";
+const GROUP = "privora-workers";
+const LEASES = "privora:jobs:leases";
+const LEASE_META = "privora:jobs:lease";
+const IDS = "privora:jobs:ids";
+const ATTEMPTS = "privora:jobs:attempts";
+const WORKERS = "privora:jobs:workers";
+const DEAD = "privora:jobs:dead";
+// XREADGROUP ile lease zset’e yazma arasında ölen instance’ın işleri bu süreden sonra sahipsiz sayılır
+const ORPHAN_MS = Number(process.env.JOB_ORPHAN_SEC || 3600) * 1000;
+
+type LeaseMeta = { token: string; consumer: string; until: number; sid: string };
+
+export class RedisJobQueue implements JobQueue {
+  private k: Record<"stream" | "leases" | "leaseMeta" | "ids" | "attempts" | "workers" | "dead", string>;
+
+  constructor(private redis: Redis, readonly status: JobStatusStore, tenant = DEFAULT_TENANT) {
+    const key = (k: string) => tenantRedisKey(tenant, k);
+    this.k = {
+      stream: key(STREAM),
+      leases: key(LEASES),
+      leaseMeta: key(LEASE_META),
+      ids: key(IDS),
+      attempts: key(ATTEMPTS),
+      workers: key(WORKERS),
+      dead: key(DEAD),
+    };
+  }
+
+  async init() {
+    await this.status.init();
+    try {
+      await this.redis.xgroup("CREATE", this.k.stream, GROUP, "0", "MKSTREAM");
+    } catch (e: any) {
+      if (!String(e?.message || e).includes("BUSYGROUP")) throw e;
+    }
+  }
+
+  async enqueue(payload: unknown) {
+    const job: Job = { id: randomUUID(), payload, createdAt: Date.now() };
+    const sid = await this.redis.xadd(this.k.stream, "*", "job", JSON.stringify(job));
+    await this.redis.hset(this.k.ids, job.id, sid!);
+    await this.status.transition(job.id, { state: "queued", at: job.createdAt });
+    return job;
+  }
+
+  async lease(consumer: string, opts: { max?: number; leaseSec?: number } = {}): Promise<Lease[]> {
+    const max = Math.max(1, opts.max ?? 1);
+    const now = Date.now();
+    const until = now + (opts.leaseSec ?? JOB_LEASE_SEC) * 1000;
+    const out: Lease[] = [];
+    await this.redis.hset(this.k.workers, consumer, String(now));
+    await this.adoptOrphans();
+
+    // 1) süresi dolmuş lease’ler: ZREM’i kazanan instance işi devralır
+    const expired = await this.redis.zrangebyscore(this.k.leases, 0, now, "LIMIT", 0, max);
+    for (const sid of expired) {
+      if ((await this.redis.zrem(this.k.leases, sid)) !== 1) continue;
+      const claimed = (await this.redis.xclaim(this.k.stream, GROUP, consumer, 0, sid)) as [string, string[]][];
+      const job = claimed[0] ? parseJob(claimed[0][1]) : null;
+      if (!job) continue; // bu arada ack’lenmiş
+      const attempts = Number((await this.redis.hget(this.k.attempts, job.id)) || 0);
+      if (attempts >= JOB_MAX_ATTEMPTS) {
+        await this.deadLetter(sid, job, attempts, "max-attempts");
+        continue;
+      }
+      redelivered.inc();
+      out.push(await this.grant(sid, job, consumer, until));
+    }
+
+    // 2) yeni işler
+    if (out.length < max) {
+      const res = (await this.redis.xreadgroup(
+        "GROUP", GROUP, consumer, "COUNT", max - out.length, "STREAMS", this.k.stream, ">"
+      )) as [string, [string, string[]][]][] | null;
+      for (const [sid, fields] of res?.[0]?.[1] ?? []) {
+        const job = parseJob(fields);
+        if (!job) {
+          await this.redis.xack(this.k.stream, GROUP, sid);
+          continue;
+        }
+        out.push(await this.grant(sid, job, consumer, until));
+      }
+    }
+    return out;
+  }
+
+  private async grant(sid: string, job: Job, consumer: string, until: number): Promise<Lease> {
+    const token = newToken();
+    const meta: LeaseMeta = { token, consumer, until, sid };
+    await this.redis.multi().zadd(this.k.leases, until, sid).hset(this.k.leaseMeta, job.id, JSON.stringify(meta)).exec();
+    const attempt = await this.redis.hincrby(this.k.attempts, job.id, 1);
+    await this.status.transition(job.id, { state: "leased", worker: consumer, attempt, leaseUntil: until });
+    return { job, attempt, leaseUntil: until, consumer, token };
+  }
+
+  /** Pending olup lease kaydı olmayan (yarım kalmış teslim) girdileri süresi dolmuş olarak işaretle */
+  private async adoptOrphans() {
+    const rows = (await this.redis.xpending(this.k.stream, GROUP, "IDLE", ORPHAN_MS, "-", "+", 10)) as [string, string, number, number][];
+    for (const [sid] of rows) {
+      if ((await this.redis.zscore(this.k.leases, sid)) === null) await this.redis.zadd(this.k.leases, "NX", 0, sid);
+    }
+  }
+
+  private async meta(jobId: string): Promise<LeaseMeta | null> {
+    const raw = await this.redis.hget(this.k.leaseMeta, jobId);
+    return raw ? (JSON.parse(raw) as LeaseMeta) : null;
+  }
+
+  async checkLease(jobId: string, token: string): Promise<LeaseCheck> {
+    if (!(await this.redis.hexists(this.k.ids, jobId))) return "unknown-job";
+    const m = await this.meta(jobId);
+    return m && token && m.token === token ? "ok" : "stale-lease";
+  }
+
+  async heartbeat(jobId: string, token: string, leaseSec = JOB_LEASE_SEC) {
+    const check = await this.checkLease(jobId, token);
+    if (check !== "ok") return { check };
+    const m = (await this.meta(jobId))!;
+    const until = Date.now() + leaseSec * 1000;
+    await this.redis
+      .multi()
+      .zadd(this.k.leases, until, m.sid)
+      .hset(this.k.leaseMeta, jobId, JSON.stringify({ ...m, until }))
+      .hset(this.k.workers, m.consumer, String(Date.now()))
+      .exec();
+    return { check, leaseUntil: until };
+  }
+
+  private async deadLetter(sid: string, job: Job, attempts: number, reason: string) {
+    await this.redis
+      .multi()
+      .xadd(this.k.dead, "*", "job", JSON.stringify(job), "reason", reason, "attempts", String(attempts), "at", String(Date.now()))
+      .xack(this.k.stream, GROUP, sid)
+      .xdel(this.k.stream, sid)
+      .zrem(this.k.leases, sid)
+      .hdel(this.k.ids, job.id)
+      .hdel(this.k.attempts, job.id)
+      .hdel(this.k.leaseMeta, job.id)
+      .exec();
+    deadLettered.inc();
+    await this.status.transition(job.id, { state: "dead", attempt: attempts, reason });
+  }
+
+  async ack(jobId: string, token: string, proof?: { proofHash: string; day: string }) {
+    const check = await this.remove(jobId, token);
+    if (check === "ok") await this.status.transition(jobId, { state: "proven", ...proof });
+    return check;
+  }
+
+  async fail(jobId: string, token: string, reason: string) {
+    const check = await this.remove(jobId, token);
+    if (check === "ok") await this.status.transition(jobId, { state: "failed", reason });
+    return check;
+  }
+
+  private async remove(jobId: string, token: string): Promise<LeaseCheck> {
+    const check = await this.checkLease(jobId, token);
+    if (check !== "ok") return check;
+    const sid = (await this.redis.hget(this.k.ids, jobId))!;
+    await this.redis
+      .multi()
+      .xack(this.k.stream, GROUP, sid)
+      .xdel(this.k.stream, sid)
+      .zrem(this.k.leases, sid)
+      .hdel(this.k.ids, jobId)
+      .hdel(this.k.attempts, jobId)
+      .hdel(this.k.leaseMeta, jobId)
+      .exec();
+    return "ok";
+  }
+
+  async workers(): Promise<WorkerInfo[]> {
+    const [seen, metas] = await Promise.all([this.redis.hgetall(this.k.workers), this.redis.hvals(this.k.leaseMeta)]);
+    return summarizeWorkers(
+      Object.entries(seen).map(([w, t]) => [w, Number(t)] as [string, number]),
+      metas.map((raw) => JSON.parse(raw) as LeaseMeta)
+    );
+  }
+
+  async depth(): Promise<QueueDepth> {
+    const [len, pending, dead] = await Promise.all([
+      this.redis.xlen(this.k.stream),
+      this.redis.xpending(this.k.stream, GROUP) as Promise<[number, ...unknown[]]>,
+      this.redis.xlen(this.k.dead),
+    ]);
+    const leased = Number(pending?.[0] || 0);
+    return { queued: Math.max(0, len - leased), leased, dead };
+  }
+
+  async close() {}
+}
+
+function parseJob(fields: string[]): Job | null {
+  const i = fields.indexOf("job");
+  if (i < 0) return null;
+  try { return JSON.parse(fields[i + 1]) as Job; } catch { return null; }
+}
+
+/** Süresi dolmamış lease’leri worker başına sayar; son görülmeye göre yeniden eskiye */
+function summarizeWorkers(seen: [string, number][], leases: { consumer: string | null; until: number | null }[]) {
+  const now = Date.now();
+  const out = new Map<string, WorkerInfo>(seen.map(([w, t]) => [w, { worker: w, leases: 0, lastSeen: t }]));
+  for (const l of leases) {
+    if (!l.consumer || l.until === null || l.until <= now) continue;
+    const w = out.get(l.consumer) ?? { worker: l.consumer, leases: 0, lastSeen: 0 };
+    w.leases++;
+    out.set(l.consumer, w);
+  }
+  return [...out.values()].sort((a, b) => b.lastSeen - a.lastSeen);
+}
+
+/* ---------------------------
+ * Dosya tabanlı kuyruk: <dir>/jobs.ndjson op-log’u
+ *   {op:"enq", job} | {op:"lease", id, until, consumer, attempt, token} | {op:"ack", id} | {op:"dead", id}
+ * Heartbeat aynı attempt ile yeni bir "lease" op’u yazar.
+ * Açılışta replay edilip canlı işlerle yeniden yazılır (compaction).
+ * Dead-letter: <dir>/jobs-dead.ndjson
+ * --------------------------*/
+type FileEntry = {
+  job: Job;
+  attempts: number;
+  leaseUntil: number | null;
+  consumer: string | null;
+  token: string | null;
+};
+
+export class FileJobQueue implements JobQueue {
+  private jobs = new Map<string, FileEntry>(); // ekleme sırası = FIFO
+  private lastSeen = new Map<string, number>();
+  private deadCount = 0;
+  private opsSinceCompact = 0;
+  private tail: Promise<unknown> = Promise.resolve();
+  private logFile: string;
+  private deadFile: string;
+
+  constructor(private dir: string, readonly status: JobStatusStore = createJobStatusStore(null, dir)) {
+    this.logFile = path.join(dir, "jobs.ndjson");
+    this.deadFile = path.join(dir, "jobs-dead.ndjson");
+  }
+
+  async init() {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    await this.status.init();
+    const raw = await fs.promises.readFile(this.logFile, "utf8").catch(() => "");
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      let op: any;
+      try { op = JSON.parse(line); } catch { continue; } // yarım yazılmış son satır
+      if (op.op === "enq") {
+        this.jobs.set(op.job.id, { job: op.job, attempts: 0, leaseUntil: null, consumer: null, token: null });
+      } else if (op.op === "lease") {
+        const e = this.jobs.get(op.id);
+        if (e) Object.assign(e, { attempts: op.attempt, leaseUntil: op.until, consumer: op.consumer, token: op.token ?? null });
+      } else if (op.op === "ack" || op.op === "dead") this.jobs.delete(op.id);
+    }
+    const dead = await fs.promises.readFile(this.deadFile, "utf8").catch(() => "");
+    this.deadCount = dead.split("\n").filter((l) => l.trim()).length;
+    await this.serial(() => this.compact());
+  }
+
+  async enqueue(payload: unknown) {
+    const job: Job = { id: randomUUID(), payload, createdAt: Date.now() };
+    await this.serial(async () => {
+      await this.log({ op: "enq", job });
+      this.jobs.set(job.id, { job, attempts: 0, leaseUntil: null, consumer: null, token: null });
+    });
+    await this.status.transition(job.id, { state: "queued", at: job.createdAt });
+    return job;
+  }
+
+  lease(consumer: string, opts: { max?: number; leaseSec?: number } = {}) {
+    return this.serial(async (): Promise<Lease[]> => {
+      const max = Math.max(1, opts.max ?? 1);
+      const now = Date.now();
+      const until = now + (opts.leaseSec ?? JOB_LEASE_SEC) * 1000;
+      this.lastSeen.set(consumer, now);
+      const out: Lease[] = [];
+      // önce süresi dolmuş lease’ler (yeniden teslim), sonra hiç kiralanmamışlar
+      const ordered = [...this.jobs.values()].sort((a, b) => rank(a) - rank(b));
+      for (const e of ordered) {
+        if (out.length >= max) break;
+        if (e.leaseUntil !== null && e.leaseUntil > now) continue;
+        const redelivery = e.leaseUntil !== null;
+        if (e.attempts >= JOB_MAX_ATTEMPTS) {
+          await this.deadLetter(e, "max-attempts");
+          continue;
+        }
+        const attempt = e.attempts + 1;
+        const token = newToken();
+        await this.log({ op: "lease", id: e.job.id, until, consumer, attempt, token });
+        Object.assign(e, { attempts: attempt, leaseUntil: until, consumer, token });
+        if (redelivery) redelivered.inc();
+        await this.status.transition(e.job.id, { state: "leased", worker: consumer, attempt, leaseUntil: until });
+        out.push({ job: e.job, attempt, leaseUntil: until, consumer, token });
+      }
+      return out;
+    });
+  }
+
+  async checkLease(jobId: string, token: string): Promise<LeaseCheck> {
+    const e = this.jobs.get(jobId);
+    if (!e) return "unknown-job";
+    return token && e.token === token ? "ok" : "stale-lease";
+  }
+
+  heartbeat(jobId: string, token: string, leaseSec = JOB_LEASE_SEC) {
+    return this.serial(async (): Promise<{ check: LeaseCheck; leaseUntil?: number }> => {
+      const check = await this.checkLease(jobId, token);
+      if (check !== "ok") return { check };
+      const e = this.jobs.get(jobId)!;
+      const until = Date.now() + leaseSec * 1000;
+      await this.log({ op: "lease", id: jobId, until, consumer: e.consumer, attempt: e.attempts, token });
+      e.leaseUntil = until;
+      this.lastSeen.set(e.consumer!, Date.now());
+      return { check, leaseUntil: until };
+    });
+  }
+
+  async ack(jobId: string, token: string, proof?: { proofHash: string; day: string }) {
+    const check = await this.remove(jobId, token);
+    if (check === "ok") await this.status.transition(jobId, { state: "proven", ...proof });
+    return check;
+  }
+
+  async fail(jobId: string, token: string, reason: string) {
+    const check = await this.remove(jobId, token);
+    if (check === "ok") await this.status.transition(jobId, { state: "failed", reason });
+    return check;
+  }
+
+  private remove(jobId: string, token: string) {
+    return this.serial(async (): Promise<LeaseCheck> => {
+      const check = await this.checkLease(jobId, token);
+      if (check !== "ok") return check;
+      await this.log({ op: "ack", id: jobId });
+      this.jobs.delete(jobId);
+      return "ok";
+    });
+  }
+
+  async workers() {
+    return summarizeWorkers(
+      [...this.lastSeen.entries()],
+      [...this.jobs.values()].map((e) => ({ consumer: e.consumer, until: e.leaseUntil }))
+    );
+  }
+
+  async depth(): Promise<QueueDepth> {
+    const now = Date.now();
+    let leased = 0;
+    for (const e of this.jobs.values()) if (e.leaseUntil !== null && e.leaseUntil > now) leased++;
+    return { queued: this.jobs.size - leased, leased, dead: this.deadCount };
+  }
+
+  async close() {
+    await this.tail;
+  }
+
+  private async deadLetter(e: FileEntry, reason: string) {
+    const rec = { job: e.job, reason, attempts: e.attempts, at: Date.now() };
+    await fs.promises.appendFile(this.deadFile, JSON.stringify(rec) + "\n");
+    await this.log({ op: "dead", id: e.job.id });
+    this.jobs.delete(e.job.id);
+    this.deadCount++;
+    deadLettered.inc();
+    await this.status.transition(e.job.id, { state: "dead", attempt: e.attempts, reason });
+  }
+
+  private async log(op: object) {
+    await fs.promises.appendFile(this.logFile, JSON.stringify(op) + "\n");
+    if (++this.opsSinceCompact > 5000 && this.opsSinceCompact > 4 * this.jobs.size) await this.compact();
+  }
+
+  private async compact() {
+    const lines: string[] = [];
+    for (const e of this.jobs.values()) {
+      lines.push(JSON.stringify({ op: "enq", job: e.job }));
+      if (e.leaseUntil !== null) {
+        lines.push(JSON.stringify({
+          op: "lease", id: e.job.id, until: e.leaseUntil, consumer: e.consumer, attempt: e.attempts, token: e.token,
+        }));
+      }
+    }
+    const tmp = this.logFile + ".tmp";
+    await fs.promises.writeFile(tmp, lines.map((l) => l + "\n").join(""));
+    await fs.promises.rename(tmp, this.logFile);
+    this.opsSinceCompact = 0;
+  }
+
+  private serial<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.tail.then(fn);
+    this.tail = run.catch(() => {});
+    return run;
+  }
+}
+
+// süresi dolmuş lease: 0, hiç kiralanmamış: 1 (Map sırası her grupta korunur; sort stable)
+function rank(e: FileEntry) {
+  return e.leaseUntil !== null ? 0 : 1;
+}
@@ -0,0 +1,170 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/store/job-status.ts
+// İş yaşam döngüsü: queued → leased → proven | failed | dead
+// (süresi dolan lease bir sonraki teslimde tekrar "leased" olur, attempt artar)
+// Redis: privora:jobs:status:<id> (TTL’li), yoksa <dir>/jobs-status.ndjson op-log’u.
+import type { Redis } from "ioredis";
+import fs from "node:fs";
+import path from "node:path";
+import { emitEvent } from "../webhooks/bus.js";
+import { DEFAULT_TENANT } from "../keys/scopes.js";
+import { tenantRedisKey } from "../tenant/namespace.js";
+
+export type JobState = "queued" | "leased" | "proven" | "failed" | "dead";
+export const TERMINAL_STATES: JobState[] = ["proven", "failed", "dead"];
+
+const NEXT: Record<JobState, JobState[]> = {
+  queued: ["leased", "dead"],
+  leased: ["leased", "proven", "failed", "dead"],
+  proven: [],
+  failed: [],
+  dead: [],
+};
+
+export type JobTransition = {
+  state: JobState;
+  at: number;
+  worker?: string;
+  attempt?: number;
+  leaseUntil?: number;
+  proofHash?: string;
+  day?: string;
+  reason?: string;
+};
+
+export type JobStatus = {
+  id: string;
+  state: JobState;
+  createdAt: number;
+  updatedAt: number;
+  worker: string | null;
+  attempt: number;
+  leaseUntil: number | null;
+  proofHash: string | null;
+  day: string | null;
+  reason: string | null;
+  history: JobTransition[];
+};
+
+const STATUS_TTL_SEC = Number(process.env.JOB_STATUS_TTL_SEC || 7 * 86400);
+
+/** Geçiş geçersizse (ör. proven → leased) null döner; kayıt değişmez */
+export function applyTransition(prev: JobStatus | null, id: string, t: JobTransition): JobStatus | null {
+  if (!prev) {
+    if (t.state !== "queued") return null;
+    return {
+      id, state: "queued", createdAt: t.at, updatedAt: t.at, worker: null, attempt: 0,
+      leaseUntil: null, proofHash: null, day: null, reason: null, history: [t],
+    };
+  }
+  if (!NEXT[prev.state].includes(t.state)) return null;
+  return {
+    ...prev,
+    state: t.state,
+    updatedAt: t.at,
+    worker: t.worker ?? prev.worker,
+    attempt: t.attempt ?? prev.attempt,
+    leaseUntil: t.state === "leased" ? t.leaseUntil ?? null : null,
+    proofHash: t.proofHash ?? prev.proofHash,
+    day: t.day ?? prev.day,
+    reason: t.reason ?? prev.reason,
+    history: [...prev.history, t],
+  };
+}
+
+/** proven → job.proven; failed/dead → job.failed (dead: deneme hakkı bitti) */
+function publishTerminal(st: JobStatus, tenant: string) {
+  if (!TERMINAL_STATES.includes(st.state)) return;
+  emitEvent(st.state === "proven" ? "job.proven" : "job.failed", {
+    jobId: st.id,
+    state: st.state,
+    attempt: st.attempt,
+    worker: st.worker,
+    proofHash: st.proofHash,
+    day: st.day,
+    reason: st.reason,
+  }, tenant);
+}
+
+export interface JobStatusStore {
+  init(): Promise<void>;
+  get(id: string): Promise<JobStatus | null>;
+  transition(id: string, t: Omit<JobTransition, "at"> & { at?: number }): Promise<JobStatus | null>;
+}
+
+export function createJobStatusStore(redis: Redis | null, dir: string, tenant = DEFAULT_TENANT): JobStatusStore {
+  return redis ? new RedisJobStatusStore(redis, tenant) : new FileJobStatusStore(dir, tenant);
+}
+
+export class RedisJobStatusStore implements JobStatusStore {
+  constructor(private redis: Redis, private tenant = DEFAULT_TENANT) {}
+  async init() {}
+  private key(id: string) { return tenantRedisKey(this.tenant, `privora:jobs:status:${id}`); }
+
+  async get(id: string) {
+    const raw = await this.redis.get(this.key(id));
+    return raw ? (JSON.parse(raw) as JobStatus) : null;
+  }
+
+  /** Bir işin geçişleri tek worker’ın sıralı çağrılarından gelir; get+set yeterli */
+  async transition(id: string, t: Omit<JobTransition, "at"> & { at?: number }) {
+    const next = applyTransition(await this.get(id), id, { ...t, at: t.at ?? Date.now() });
+    if (!next) return null;
+    await this.redis.set(this.key(id), JSON.stringify(next), "EX", STATUS_TTL_SEC);
+    publishTerminal(next, this.tenant);
+    return next;
+  }
+}
+
+export class FileJobStatusStore implements JobStatusStore {
+  private map = new Map<string, JobStatus>();
+  private tail: Promise<unknown> = Promise.resolve();
+  private file: string;
+
+  constructor(private dir: string, private tenant = DEFAULT_TENANT) {
+    this.file = path.join(dir, "jobs-status.ndjson");
+  }
+
+  async init() {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const raw = await fs.promises.readFile(this.file, "utf8").catch(() => "");
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const { id, ...t } = JSON.parse(line);
+        const next = applyTransition(this.map.get(id) ?? null, id, t);
+        if (next) this.map.set(id, next);
+      } catch {}
+    }
+    // compaction: TTL’i geçmiş terminal kayıtlar atılır, kalanlar geçmişleriyle yeniden yazılır
+    const cutoff = Date.now() - STATUS_TTL_SEC * 1000;
+    const lines: string[] = [];
+    for (const [id, st] of this.map) {
+      if (TERMINAL_STATES.includes(st.state) && st.updatedAt < cutoff) {
+        this.map.delete(id);
+        continue;
+      }
+      for (const t of st.history) lines.push(JSON.stringify({ id, ...t }));
+    }
+    await fs.promises.writeFile(this.file + ".tmp", lines.map((l) => l + "\n").join(""));
+    await fs.promises.rename(this.file + ".tmp", this.file);
+  }
+
+  async get(id: string) {
+    return this.map.get(id) ?? null;
+  }
+
+  transition(id: string, t: Omit<JobTransition, "at"> & { at?: number }) {
+    const run = this.tail.then(async () => {
+      const full = { ...t, at: t.at ?? Date.now() };
+      const next = applyTransition(this.map.get(id) ?? null, id, full);
+      if (!next) return null;
+      await fs.promises.appendFile(this.file, JSON.stringify({ id, ...full }) + "\n");
+      this.map.set(id, next);
+      publishTerminal(next, this.tenant);
+      return next;
+    });
+    this.tail = run.catch(() => {});
+    return run;
+  }
+}
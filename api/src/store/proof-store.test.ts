@@ -0,0 +1,153 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/store/proof-store.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { ProofStore, type AppendedLine, type ProofLine } from "./proof-store.js";
+import { verifyChainFile } from "./integrity.js";
+
+async function withDir(fn: (dir: string) => Promise<void>) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "store-"));
+  try { await fn(dir); } finally { fs.rmSync(dir, { recursive: true, force: true }); }
+}
+
+const proof = (i: number): ProofLine => ({
+  jobId: `job-${i}`,
+  proofHash: "0x" + i.toString(16).padStart(64, "0"),
+  createdAt: 1767312000000 + i,
+});
+
+test("group commit chains a batch in order with the same root as one-by-one appends", () =>
+  withDir(async (dir) => {
+    const batched = new ProofStore(path.join(dir, "a"));
+    const single = new ProofStore(path.join(dir, "b"));
+    const seen: AppendedLine[] = [];
+    batched.onAppend((a) => seen.push(a));
+
+    const lines = Array.from({ length: 25 }, (_, i) => proof(i));
+    await batched.appendBatch(lines.slice(0, 10));
+    await batched.appendBatch(lines.slice(10));
+    for (const l of lines) await single.append(l);
+
+    assert.equal(batched.currentRoot().leafCount, 25);
+    assert.equal(batched.currentRoot().merkleRoot, single.currentRoot().merkleRoot);
+    assert.deepEqual(seen.map((a) => (a.line as { jobId?: string }).jobId), lines.map((l) => l.jobId));
+    // her satırın offset’i kendi satır sonunu gösterir
+    const size = (await fs.promises.stat(batched.currentFilePath)).size;
+    assert.equal(seen.at(-1)!.offset, size);
+    assert.ok(seen.every((a, i) => i === 0 || a.offset > seen[i - 1].offset));
+
+    const report = await verifyChainFile(batched.currentFilePath);
+    assert.ok(report.ok);
+  }));
+
+test("a batch with one invalid line writes nothing and the chain continues", () =>
+  withDir(async (dir) => {
+    const store = new ProofStore(dir);
+    await store.appendBatch([proof(1)]);
+    const before = await fs.promises.readFile(store.currentFilePath, "utf8");
+    await assert.rejects(store.appendBatch([proof(2), { ...proof(3), proofHash: "" }]));
+    assert.equal(await fs.promises.readFile(store.currentFilePath, "utf8"), before);
+
+    await store.appendBatch([proof(2), proof(3)]);
+    assert.equal(store.currentRoot().leafCount, 3);
+    assert.ok((await verifyChainFile(store.currentFilePath)).ok);
+
+    // yeniden açılınca zincir kaldığı yerden devam eder
+    const again = new ProofStore(dir);
+    await again.appendBatch([proof(4), proof(5)]);
+    assert.equal(again.currentRoot().leafCount, 5);
+    assert.ok((await verifyChainFile(again.currentFilePath)).ok);
+  }));
+test("appendAny and appendManyAny chain every event kind and reject invalid events without writing", () =>
+  withDir(async (dir) => {
+    const store = new ProofStore(dir);
+    const at = 1767312000000;
+    const first = await store.appendAny({ t: "capture", contentId: "c1", proofHash: "0x" + "c1".repeat(32), contentType: "media", createdAt: at });
+    assert.ok(first.prevHash); // ilk satır header’a bağlanır
+    const [dOpen, dUpd] = await store.appendManyAny([
+      { t: "do", disputeId: "d1", proofId: "c1", issue: "wrong", openedAt: at },
+      { t: "du", disputeId: "d1", status: "accepted", updatedAt: at },
+    ]);
+    assert.equal(dOpen.prevHash, first.lineHash);
+    assert.equal(dUpd.prevHash, dOpen.lineHash);
+    assert.equal(store.currentRoot().leafCount, 1); // dispute satırları yaprak değil
+
+    const before = await fs.promises.readFile(store.currentFilePath, "utf8");
+    await assert.rejects(
+      store.appendAny({ t: "capture", contentId: "c2", proofHash: "0x01", contentType: "", createdAt: at }),
+      /^Error: bad-capture-event \(contentType: /
+    );
+    await assert.rejects(
+      store.appendManyAny([
+        { t: "px", correctionId: "x1", supersedes: "c1", newProofHash: "0x02", createdAt: at },
+        { t: "du", disputeId: "d1", status: "maybe" as "accepted", updatedAt: at },
+      ]),
+      /bad-du-event/
+    );
+    await assert.rejects(store.appendAny({ t: "zz" } as never), /unknown-event-kind/);
+    assert.equal(await fs.promises.readFile(store.currentFilePath, "utf8"), before);
+
+    // hatalardan sonra zincir kaldığı yerden devam eder
+    const px = await store.appendAny({ t: "px", correctionId: "x1", supersedes: "c1", newProofHash: "0x02", createdAt: at });
+    assert.equal(px.prevHash, dUpd.lineHash);
+    assert.equal(store.currentRoot().leafCount, 2);
+    assert.ok((await verifyChainFile(store.currentFilePath)).ok);
+  }));
+
+test("appends carrying a stale fencing token are rejected", () =>
+  withDir(async (dir) => {
+    const store = new ProofStore(dir);
+    await store.appendBatch([proof(1)], { fencingToken: 3 });
+    // yeni lider (başka process) daha büyük token’la yazdı
+    const next = new ProofStore(dir);
+    await next.appendBatch([proof(2)], { fencingToken: 4 });
+
+    await assert.rejects(store.appendBatch([proof(3)], { fencingToken: 3 }), /stale-fencing-token/);
+    await store.reload();
+    assert.equal(store.currentRoot().leafCount, 2);
+    await store.appendBatch([proof(3)], { fencingToken: 5 });
+    assert.equal(store.currentRoot().leafCount, 3);
+    assert.ok((await verifyChainFile(store.currentFilePath)).ok);
+  }));
+
+test("a stale fence lock left by a crashed writer is broken and the lock is released after each batch", () =>
+  withDir(async (dir) => {
+    const store = new ProofStore(dir);
+    const lock = path.join(dir, "leader-fence.lock");
+    fs.writeFileSync(lock, "");
+    const old = new Date(Date.now() - 60_000);
+    fs.utimesSync(lock, old, old);
+    await store.appendBatch([proof(1)], { fencingToken: 1 });
+    assert.ok(!fs.existsSync(lock));
+    assert.equal(JSON.parse(fs.readFileSync(path.join(dir, "leader-fence.json"), "utf8")).token, 1);
+
+    // aynı süreçte sıraya giren fenced batch’ler kilidi sırayla alır
+    await Promise.all([2, 3, 4].map((t) => store.appendBatch([proof(t)], { fencingToken: t })));
+    assert.equal(store.currentRoot().leafCount, 4);
+    assert.ok(!fs.existsSync(lock));
+  }));
+
+test("a follower tails the leader's file: root, chain tip and live listeners follow without writing", () =>
+  withDir(async (dir) => {
+    const leader = new ProofStore(dir);
+    await leader.appendBatch([proof(1), proof(2)]);
+    const follower = new ProofStore(dir);
+    await follower.follow();
+    assert.equal(follower.currentRoot().leafCount, 2);
+
+    const seen: AppendedLine[] = [];
+    follower.onAppend((a) => seen.push(a));
+    await leader.appendBatch([proof(3)]);
+    await leader.appendAny({ t: "do", disputeId: "d1", proofId: "p", issue: "x", openedAt: 1 });
+    // yarım yazılmış satır bir sonraki turu bekler
+    fs.appendFileSync(leader.currentFilePath, '{"t":"pc","jobId"');
+    const before = fs.statSync(leader.currentFilePath).size;
+    await follower.follow();
+    assert.deepEqual(seen.map((a) => a.line.t), ["pc", "do"]);
+    assert.equal(follower.currentRoot().merkleRoot, leader.currentRoot().merkleRoot);
+    assert.equal(seen.at(-1)!.offset, before - '{"t":"pc","jobId"'.length);
+    assert.equal(fs.statSync(leader.currentFilePath).size, before); // takipçi yazmadı
+  }));
@@ -7,6 +7,11 @@ import fs from "node:fs";
 import path from "node:path";
 import readline from "node:readline";
 import crypto from "node:crypto";
+import { parseEvent, leafOf, type StoreEvent, type ChainedEvent } from "./events.js";
+import { TREE_VERSION, leafHash, rootForVersion, toHex0x, treeVersionOf, type TreeVersion } from "../crypto/merkle.js";
+import { MerkleFrontier, type FrontierState } from "../crypto/frontier.js";
+import { emitEvent, type WebhookEventType } from "../webhooks/bus.js";
+import { DEFAULT_TENANT } from "../keys/scopes.js";
 
 export type ProofLine = {
   jobId: string;
@@ -18,32 +23,142 @@ export type ProofLine = {
   lineHash?: string;
 };
 
-type RootSnap = { day: string; leafCount: number; merkleRoot: string | null; file: string | null };
+export type RootSnap = {
+  day: string;
+  leafCount: number;
+  merkleRoot: string | null;
+  file: string | null;
+  treeVer: TreeVersion;
+};
+
+// zincire yazılan olay → webhook olay türü (pc için job.proven iş kuyruğunun ack’inden gelir)
+const WEBHOOK_OF: Partial<Record<StoreEvent["t"], WebhookEventType>> = {
+  capture: "capture.recorded",
+  do: "dispute.opened",
+  du: "dispute.updated",
+  px: "correction.created",
+};
+
+const toPc = (line: ProofLine) => ({
+  t: "pc" as const,
+  jobId: line.jobId,
+  proofHash: line.proofHash,
+  manifestHash: line.manifestHash,
+  createdAt: line.createdAt,
+});
+
+/** Şemaya uymayan olay zincire hiç girmez */
+function validated<E extends StoreEvent>(ev: E): E {
+  const parsed = parseEvent(ev);
+  if (!parsed.success) {
+    const detail = parsed.issues?.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ");
+    throw new Error(`${parsed.error}${detail ? ` (${detail})` : ""}`);
+  }
+  return parsed.data as E;
+}
+
+/** Zincire yazılan her satır: offset satır sonudur (Last-Event-ID olarak kullanılır) */
+export type AppendedLine = { day: string; offset: number; line: ChainedEvent; root: RootSnap };
+
+const sha256 = (s: string) => crypto.createHash("sha256").update(s).digest("hex");
+
+/** Gün dosyası: <dir>/proofs-YYYY-MM-DD.ndjson */
+export function dayFilePath(dir: string, day: string) {
+  return path.join(dir, `proofs-${day}.ndjson`);
+}
+
+/** Header satırının hash’i (ilk satırın prevHash’i) */
+export function headerHash(hdr: object) {
+  return sha256(JSON.stringify(hdr));
+}
+
+/** lineHash = sha256(prevHash + canonical base); base = satırın zincir alanları hariç JSON’u */
+export function chainHash(prevHash: string | null, rawBase: string) {
+  return sha256((prevHash || "") + rawBase);
+}
+
+/** Diskteki satırdan base’i geri üretir (prevHash/lineHash sona eklendiği için sıra korunur) */
+export function chainBase(obj: Record<string, unknown>) {
+  const { prevHash: _p, lineHash: _l, ...base } = obj;
+  return JSON.stringify(base);
+}
+
+const SNAPSHOT_EVERY = Number(process.env.FRONTIER_SNAPSHOT_EVERY || 64);
+// fence kilidi: bekleme üst sınırı ve çöken sürecin bıraktığı kilidin kırılma yaşı
+const FENCE_LOCK_WAIT_MS = Number(process.env.FENCE_LOCK_WAIT_MS || 5000);
+const FENCE_LOCK_STALE_MS = Number(process.env.FENCE_LOCK_STALE_MS || 30_000);
+
+/** Frontier snapshot’ı: <dir>/proofs-YYYY-MM-DD.frontier.json */
+export function frontierSnapshotPath(dayFile: string) {
+  return dayFile.replace(/\.ndjson$/, ".frontier.json");
+}
+
+type FrontierSnapshot = {
+  day: string;
+  treeVer: TreeVersion;
+  offset: number;          // snapshot’ın kapsadığı dosya uzunluğu (byte)
+  lastHash: string | null; // offset’teki son satırın lineHash’i
+  frontier: FrontierState;
+};
+
+export type AppendOpts = {
+  /** Lider dönem token’ı (LeaderElector.token); verilirse fence kontrolünden geçer */
+  fencingToken?: number | null;
+};
 
 export class ProofStore {
   public currentFilePath: string;
   private dir: string;
   private lastHash: string | null = null;
-  private leafs: string[] = [];
+  // treeVer 2: sadece sağ kenar; treeVer 1 (legacy) dosyalarda yaprak listesi tutulur
+  private frontier = new MerkleFrontier();
+  private legacyLeafs: string[] | null = null;
+  private treeVer: TreeVersion = TREE_VERSION as TreeVersion;
+  private offset = 0;
+  private sinceSnapshot = 0;
   private day: string;
+  private ready: Promise<void>;
+  // append’ler tek sırada çalışır; aynı lastHash’ten iki satır türemesin
+  private tail: Promise<unknown> = Promise.resolve();
+  private appendListeners = new Set<(a: AppendedLine) => void>();
 
-  constructor(dir: string) {
+  constructor(dir: string, readonly tenant: string = DEFAULT_TENANT) {
     this.dir = dir;
     if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
     this.day = new Date().toISOString().slice(0,10);
-    this.currentFilePath = path.join(this.dir, `proofs-${this.day}.ndjson`);
-    void this.ensureHeader(this.currentFilePath);
-    void this.recoverState(this.currentFilePath);
+    this.currentFilePath = dayFilePath(this.dir, this.day);
+    this.ready = this.open(this.currentFilePath);
   }
 
-  private sha(s: string) { return crypto.createHash("sha256").update(s).digest("hex"); }
-
   private async fsStatSafe(fp: string) {
     try { return await fs.promises.stat(fp); } catch { return { size: 0 } as fs.Stats; }
   }
 
-  private async appendRaw(fp: string, text: string) {
-    await fs.promises.appendFile(fp, text);
+  private async appendRaw(fp: string, text: string, opts: { sync?: boolean } = {}) {
+    if (opts.sync) {
+      const fh = await fs.promises.open(fp, "a");
+      try {
+        await fh.writeFile(text);
+        await fh.datasync();
+      } finally {
+        await fh.close();
+      }
+    } else {
+      await fs.promises.appendFile(fp, text);
+    }
+    this.offset += Buffer.byteLength(text);
+  }
+
+  private async open(fp: string) {
+    this.lastHash = null;
+    this.frontier = new MerkleFrontier();
+    this.legacyLeafs = null;
+    this.treeVer = TREE_VERSION as TreeVersion;
+    this.offset = 0;
+    this.sinceSnapshot = 0;
+    const st = await this.fsStatSafe(fp);
+    if (st.size > 0) await this.recoverState(fp, st.size);
+    else await this.ensureHeader(fp);
   }
 
   private async ensureHeader(fp: string) {
@@ -55,71 +170,341 @@ export class ProofStore {
       createdAt: Date.now(),
       leafHashAlg: (process.env.MERKLE_LEAF_HASH || "sha256").toLowerCase(),
       fileFormat: "ndjson",
+      treeVer: TREE_VERSION, // bkz. crypto/merkle.ts
     };
     const raw = JSON.stringify(hdr) + "\n";
     await this.appendRaw(fp, raw);
-    this.lastHash = this.sha(JSON.stringify(hdr));
+    this.lastHash = headerHash(hdr);
+    this.treeVer = TREE_VERSION as TreeVersion;
+  }
+
+  private addLeaf(leaf: string) {
+    if (this.legacyLeafs) this.legacyLeafs.push(leaf);
+    else this.frontier.append(leafHash(leaf));
   }
 
-  private async recoverState(fp: string) {
+  /**
+   * Snapshot varsa ve dosyayla tutarlıysa oradan devam eder, sadece offset’ten
+   * sonraki satırları oynatır; yoksa tüm günü baştan okur.
+   */
+  private async recoverState(fp: string, size: number) {
     if (!fs.existsSync(fp)) return;
-    const rl = readline.createInterface({ input: fs.createReadStream(fp) });
-    let last: string | null = null;
+    const snap = await this.loadSnapshot(fp, size);
+    let start = 0;
+    if (snap) {
+      this.lastHash = snap.lastHash;
+      this.treeVer = snap.treeVer;
+      this.frontier = MerkleFrontier.fromJSON(snap.frontier);
+      start = snap.offset;
+    }
+    const rl = readline.createInterface({ input: fs.createReadStream(fp, { start }) });
     for await (const raw of rl) {
       const line = raw.trim();
       if (!line) continue;
       const obj = JSON.parse(line);
       if (obj.t === "header") {
-        this.lastHash = this.sha(JSON.stringify(obj));
+        this.lastHash = headerHash(obj);
+        this.treeVer = treeVersionOf(obj); // eski dosyalar kendi algoritmasıyla devam eder
+        if (this.treeVer === 1) this.legacyLeafs = [];
         continue;
       }
-      last = line;
-      if (obj.proofHash) this.leafs.push(obj.proofHash);
-      this.lastHash = obj.lineHash || this.sha((this.lastHash || "") + line);
+      const leaf = leafOf(obj);
+      if (leaf) this.addLeaf(leaf);
+      // lineHash’e körü körüne güvenme: yeniden hesapla, uyuşmazlığı raporla.
+      // Zincir diskle sürekli kalsın diye devam noktası yine diskteki hash’tir;
+      // tam denetim için bkz. store/integrity.ts (GET /proofs/integrity).
+      const expected = chainHash(this.lastHash, chainBase(obj));
+      if (obj.lineHash && (obj.lineHash !== expected || obj.prevHash !== this.lastHash)) {
+        console.warn("[proof-store] chain mismatch while recovering", { file: fp, lineHash: obj.lineHash });
+      }
+      this.lastHash = obj.lineHash || expected;
     }
+    this.offset = size;
     if (!this.lastHash) await this.ensureHeader(fp);
+    else if (!snap || start < size) await this.saveSnapshot();
+  }
+
+  private async loadSnapshot(fp: string, size: number): Promise<FrontierSnapshot | null> {
+    try {
+      const raw = await fs.promises.readFile(frontierSnapshotPath(fp), "utf8");
+      const snap = JSON.parse(raw) as FrontierSnapshot;
+      if (snap.day !== this.day || snap.treeVer !== 2) return null;
+      if (!(snap.offset > 0 && snap.offset <= size)) return null;
+      MerkleFrontier.fromJSON(snap.frontier); // tutarlılık kontrolü
+      // snapshot dosyanın gerçekten o noktasını mı gösteriyor? (truncate/yeniden yazım)
+      const tailObj = await this.lineEndingAt(fp, snap.offset);
+      const tailHash = tailObj?.t === "header" ? headerHash(tailObj) : tailObj?.lineHash;
+      if (!tailHash || tailHash !== snap.lastHash) return null;
+      return snap;
+    } catch {
+      return null;
+    }
+  }
+
+  private async lineEndingAt(fp: string, offset: number): Promise<any | null> {
+    const len = Math.min(offset, 64 * 1024);
+    const fh = await fs.promises.open(fp, "r");
+    try {
+      const buf = Buffer.alloc(len);
+      await fh.read(buf, 0, len, offset - len);
+      const text = buf.toString("utf8");
+      if (!text.endsWith("\n")) return null;
+      const last = text.slice(0, -1).split("\n").pop();
+      return last ? JSON.parse(last) : null;
+    } finally {
+      await fh.close();
+    }
+  }
+
+  private async saveSnapshot() {
+    if (this.treeVer !== 2 || this.legacyLeafs) return;
+    const snap: FrontierSnapshot = {
+      day: this.day,
+      treeVer: this.treeVer,
+      offset: this.offset,
+      lastHash: this.lastHash,
+      frontier: this.frontier.toJSON(),
+    };
+    const fp = frontierSnapshotPath(this.currentFilePath);
+    const tmp = fp + ".tmp";
+    await fs.promises.writeFile(tmp, JSON.stringify(snap));
+    await fs.promises.rename(tmp, fp);
+    this.sinceSnapshot = 0;
   }
 
-  private rotateIfNeeded() {
+  private async rotateIfNeeded() {
     const d = new Date().toISOString().slice(0,10);
     if (d !== this.day) {
       this.day = d;
-      this.currentFilePath = path.join(this.dir, `proofs-${this.day}.ndjson`);
-      this.lastHash = null;
-      this.leafs = [];
-      void this.ensureHeader(this.currentFilePath);
-      void this.recoverState(this.currentFilePath);
+      this.currentFilePath = dayFilePath(this.dir, this.day);
+      this.ready = this.open(this.currentFilePath);
     }
+    await this.ready;
   }
 
+  /** Proof satırı ("pc") ekler; appendAny üzerinden zincirlenir. */
   async append(line: ProofLine) {
-    this.rotateIfNeeded();
-    const rawBase = JSON.stringify({
-      jobId: line.jobId,
-      proofHash: line.proofHash,
-      manifestHash: line.manifestHash,
-      createdAt: line.createdAt,
+    return this.appendAny(toPc(line));
+  }
+
+  /**
+   * Group commit: satırlar verilen sırayla zincirlenir, tek yazım + tek fsync ile diske iner.
+   * Döndüğünde hepsi kalıcıdır; bir satır bile şemaya uymazsa hiçbiri yazılmaz.
+   */
+  async appendBatch(lines: ProofLine[], opts: AppendOpts = {}) {
+    return this.appendManyAny(lines.map(toPc), opts);
+  }
+
+  async appendManyAny<E extends StoreEvent>(evs: E[], opts: AppendOpts = {}): Promise<ChainedEvent<E>[]> {
+    const data = evs.map((ev) => validated(ev));
+    const token = opts.fencingToken;
+    const run = this.tail.then(() =>
+      token == null
+        ? this.writeChained(data, { sync: true })
+        : this.withFenceLock(async () => {
+            await this.checkFence(token);
+            return this.writeChained(data, { sync: true });
+          })
+    );
+    this.tail = run.catch(() => {});
+    return run;
+  }
+
+  /**
+   * Fence kontrolü + yazım tek kritik bölge: <dir>/leader-fence.lock O_EXCL ile alınır.
+   * Böylece kontrolü geçip duraklayan eski lider, arada token’ı yükseltip yazan yeni liderin
+   * satırlarının arkasına yazamaz. Çöken sürecin bıraktığı kilit FENCE_LOCK_STALE_MS sonra kırılır.
+   */
+  private async withFenceLock<T>(fn: () => Promise<T>): Promise<T> {
+    const lock = path.join(this.dir, "leader-fence.lock");
+    const deadline = Date.now() + FENCE_LOCK_WAIT_MS;
+    for (;;) {
+      try {
+        await (await fs.promises.open(lock, "wx")).close();
+        break;
+      } catch (e: any) {
+        if (e?.code !== "EEXIST") throw e;
+        const st = await fs.promises.stat(lock).catch(() => null);
+        if (st && Date.now() - st.mtimeMs > FENCE_LOCK_STALE_MS) {
+          await fs.promises.unlink(lock).catch(() => {});
+          continue;
+        }
+        if (Date.now() > deadline) throw new Error("fence-lock-timeout");
+        await new Promise((r) => setTimeout(r, 5));
+      }
+    }
+    try {
+      return await fn();
+    } finally {
+      await fs.promises.unlink(lock).catch(() => {});
+    }
+  }
+
+  /**
+   * Fencing: <dir>/leader-fence.json şimdiye kadar yazmış en yüksek lider token’ını tutar.
+   * Daha küçük token’la gelen yazım (lease’i düşmüş, duraklamış eski lider) reddedilir;
+   * daha büyüğü görülünce kayıt ilerletilir. Her batch’te diskten okunur (başka process yükseltmiş olabilir).
+   * Yalnız withFenceLock içinde çağrılır.
+   */
+  private async checkFence(token: number) {
+    const fp = path.join(this.dir, "leader-fence.json");
+    let cur = 0;
+    try {
+      cur = Number(JSON.parse(await fs.promises.readFile(fp, "utf8")).token) || 0;
+    } catch {}
+    if (token < cur) throw new Error(`stale-fencing-token (${token} < ${cur})`);
+    if (token > cur) {
+      const tmp = fp + ".tmp";
+      await fs.promises.writeFile(tmp, JSON.stringify({ token, at: Date.now() }));
+      await fs.promises.rename(tmp, fp);
+    }
+  }
+
+  /**
+   * Durumu (lastHash, frontier, offset) diskten yeniden kurar. Yeni seçilen lider çağırır:
+   * önceki lider aynı dosyaya yazmış olabilir, bellekteki zincir ucu eskidir.
+   */
+  async reload() {
+    const run = this.tail.then(() => {
+      this.day = new Date().toISOString().slice(0,10);
+      this.currentFilePath = dayFilePath(this.dir, this.day);
+      this.ready = this.open(this.currentFilePath);
+      return this.ready;
     });
-    const lineHash = this.sha((this.lastHash || "") + rawBase);
-    const chained = { ...JSON.parse(rawBase), prevHash: this.lastHash, lineHash };
-    await this.appendRaw(this.currentFilePath, JSON.stringify(chained) + "\n");
-    this.lastHash = lineHash;
-    this.leafs.push(line.proofHash);
+    this.tail = run.catch(() => {});
+    return run;
   }
 
-  currentRoot(): RootSnap {
-    // minimal merkle: yaprakları hash’leyip katmanlı indirgeme (sha256)
-    const h = (s: string) => this.sha(s);
-    let nodes = this.leafs.map(h);
-    if (nodes.length === 0) return { day: this.day, leafCount: 0, merkleRoot: null, file: this.currentFilePath };
-    while (nodes.length > 1) {
-      const next: string[] = [];
-      for (let i=0; i<nodes.length; i+=2) {
-        if (i+1 < nodes.length) next.push(h(nodes[i] + nodes[i+1]));
-        else next.push(nodes[i]);
+  /**
+   * Takipçi (lider olmayan instance): liderin dosyaya eklediği tam satırları okur; kök, zincir ucu ve
+   * onAppend dinleyicileri (canlı akış) güncellenir. Yazmaz, webhook üretmez (lider üretti).
+   * Gün değiştiyse ya da dosya kısaldıysa durum baştan kurulur.
+   */
+  async follow() {
+    const run = this.tail.then(async () => {
+      const day = new Date().toISOString().slice(0,10);
+      if (day !== this.day) {
+        const next = dayFilePath(this.dir, day);
+        if ((await this.fsStatSafe(next)).size === 0) return; // lider henüz açmadı; header’ı o yazar
+        this.day = day;
+        this.currentFilePath = next;
+        this.ready = this.open(next);
+        return this.ready;
+      }
+      await this.ready;
+      const { size } = await this.fsStatSafe(this.currentFilePath);
+      if (size < this.offset) {
+        this.ready = this.open(this.currentFilePath);
+        return this.ready;
+      }
+      if (size === this.offset) return;
+      const fh = await fs.promises.open(this.currentFilePath, "r");
+      let text: string;
+      try {
+        const buf = Buffer.alloc(size - this.offset);
+        await fh.read(buf, 0, buf.length, this.offset);
+        text = buf.toString("utf8");
+      } finally {
+        await fh.close();
       }
-      nodes = next;
+      // yarım kalan son satır bir sonraki turda okunur
+      const complete = text.slice(0, text.lastIndexOf("\n") + 1);
+      let offset = this.offset;
+      for (const raw of complete.split("\n")) {
+        if (!raw) continue;
+        offset += Buffer.byteLength(raw) + 1;
+        const obj = JSON.parse(raw);
+        if (obj.t === "header") {
+          this.lastHash = headerHash(obj);
+          continue;
+        }
+        const leaf = leafOf(obj);
+        if (leaf) this.addLeaf(leaf);
+        this.lastHash = obj.lineHash ?? chainHash(this.lastHash, chainBase(obj));
+        if (this.appendListeners.size) {
+          const a: AppendedLine = { day: this.day, offset, line: obj, root: this.currentRoot() };
+          for (const fn of this.appendListeners) {
+            try { fn(a); } catch (e) { console.error("[proof-store] append listener error", e); }
+          }
+        }
+      }
+      this.offset = offset;
+    });
+    this.tail = run.catch(() => {});
+    return run;
+  }
+
+  /**
+   * Her olay türü için tek giriş noktası:
+   * - registry’deki şemayla doğrulanır
+   * - prevHash/lineHash zincirine bağlanır
+   * - leaf tanımlı türler Merkle yapraklarına eklenir
+   */
+  async appendAny<E extends StoreEvent>(ev: E): Promise<ChainedEvent<E>> {
+    const data = validated(ev);
+    const run = this.tail.then(async () => (await this.writeChained([data]))[0]);
+    this.tail = run.catch(() => {});
+    return run;
+  }
+
+  private async writeChained<E extends StoreEvent>(evs: E[], opts: { sync?: boolean } = {}): Promise<ChainedEvent<E>[]> {
+    if (!evs.length) return [];
+    await this.rotateIfNeeded();
+    // önce tüm zincir bellekte kurulur; durum ancak yazım başarılıysa ilerler
+    let prev = this.lastHash;
+    const chained: ChainedEvent<E>[] = [];
+    const texts: string[] = [];
+    for (const ev of evs) {
+      const rawBase = JSON.stringify(ev);
+      const lineHash = chainHash(prev, rawBase);
+      const c = { ...JSON.parse(rawBase), prevHash: prev, lineHash } as ChainedEvent<E>;
+      chained.push(c);
+      texts.push(JSON.stringify(c) + "\n");
+      prev = lineHash;
     }
-    return { day: this.day, leafCount: this.leafs.length, merkleRoot: nodes[0], file: this.currentFilePath };
+    let offset = this.offset;
+    await this.appendRaw(this.currentFilePath, texts.join(""), opts);
+
+    for (let i = 0; i < evs.length; i++) {
+      const ev = evs[i];
+      this.lastHash = chained[i].lineHash;
+      offset += Buffer.byteLength(texts[i]);
+      const leaf = leafOf(ev);
+      if (leaf) this.addLeaf(leaf);
+      const type = WEBHOOK_OF[ev.t];
+      if (type) emitEvent(type, { ...chained[i], day: this.day, tenant: this.tenant }, this.tenant);
+      if (this.appendListeners.size) {
+        const a: AppendedLine = { day: this.day, offset, line: chained[i], root: this.currentRoot() };
+        for (const fn of this.appendListeners) {
+          try { fn(a); } catch (e) { console.error("[proof-store] append listener error", e); }
+        }
+      }
+    }
+    this.sinceSnapshot += evs.length;
+    if (this.sinceSnapshot >= SNAPSHOT_EVERY) await this.saveSnapshot();
+    return chained;
+  }
+
+  /** Canlı akış için (bkz. store/proof-stream.ts); kaldırma fonksiyonu döner */
+  onAppend(fn: (a: AppendedLine) => void) {
+    this.appendListeners.add(fn);
+    return () => {
+      this.appendListeners.delete(fn);
+    };
+  }
+
+  /** O(log n): frontier’dan okunur (legacy dosyalarda tam hesap) */
+  currentRoot(): RootSnap {
+    const leafCount = this.legacyLeafs ? this.legacyLeafs.length : this.frontier.size;
+    let merkleRoot: string | null = null;
+    if (this.legacyLeafs) merkleRoot = rootForVersion(1, this.legacyLeafs);
+    else if (leafCount > 0) merkleRoot = toHex0x(this.frontier.root());
+    return {
+      day: this.day,
+      leafCount,
+      merkleRoot,
+      file: this.currentFilePath,
+      treeVer: this.treeVer,
+    };
   }
 }
@@ -0,0 +1,91 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/store/proof-stream.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { ProofStore } from "./proof-store.js";
+import { ProofStream, parseCursor, type StreamEvent } from "./proof-stream.js";
+
+async function withDir(fn: (dir: string) => Promise<void>) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "stream-"));
+  try { await fn(dir); } finally { fs.rmSync(dir, { recursive: true, force: true }); }
+}
+
+const capture = (i: number) => ({
+  t: "capture" as const,
+  contentId: "0x" + String(i).padStart(64, "0"),
+  proofHash: "0x" + String(i).padStart(64, "1"),
+  contentType: "media",
+  createdAt: 1767312000000 + i,
+});
+
+const lines = (evs: StreamEvent[]) =>
+  evs.filter((e) => e.type === "line").map((e) => (e as any).data.line.contentId as string);
+
+test("live subscribers get each chained line with a day:offset id and the new root", () =>
+  withDir(async (dir) => {
+    const store = new ProofStore(dir);
+    const stream = new ProofStream(store, dir);
+    const got: StreamEvent[] = [];
+    const close = await stream.subscribe((e) => got.push(e), { transport: "sse" });
+    assert.equal(got[0].type, "root"); // ilk olay güncel kök
+
+    await store.appendAny(capture(1));
+    await store.appendAny(capture(2));
+    const size = (await fs.promises.stat(store.currentFilePath)).size;
+    close();
+    await store.appendAny(capture(3));
+
+    assert.deepEqual(lines(got), [capture(1).contentId, capture(2).contentId]);
+    const line = got.filter((e) => e.type === "line").at(-1)!;
+    const cur = parseCursor((line as any).id)!;
+    assert.equal(cur.offset, size); // id = satır sonu
+    const root = got.at(-1)!;
+    assert.equal(root.type, "root");
+    assert.equal((root as any).data.leafCount, 2);
+    assert.equal(stream.clients(), 0);
+  }));
+
+test("Last-Event-ID resumes from the line offset without duplicates", () =>
+  withDir(async (dir) => {
+    const store = new ProofStore(dir);
+    const stream = new ProofStream(store, dir);
+    const first: StreamEvent[] = [];
+    const close = await stream.subscribe((e) => first.push(e), { transport: "ws" });
+    await store.appendAny(capture(1));
+    await store.appendAny(capture(2));
+    close();
+    const lastId = (first.filter((e) => e.type === "line").at(-1) as any).id;
+
+    // bağlantı kopukken yazılanlar + replay sırasında gelen canlı satır
+    await store.appendAny(capture(3));
+    await store.appendAny(capture(4));
+    const got: StreamEvent[] = [];
+    const pending = stream.subscribe((e) => got.push(e), { from: parseCursor(lastId), transport: "sse" });
+    const live = store.appendAny(capture(5));
+    const close2 = await pending;
+    await live;
+    await store.appendAny(capture(6));
+    close2();
+
+    assert.deepEqual(lines(got), [3, 4, 5, 6].map((i) => capture(i).contentId));
+    const ids = got.filter((e) => e.type === "line").map((e) => parseCursor((e as any).id)!.offset);
+    assert.deepEqual([...ids].sort((a, b) => a - b), ids);
+  }));
+
+test("replay starting before the header skips it and malformed cursors are rejected", () =>
+  withDir(async (dir) => {
+    const store = new ProofStore(dir);
+    const stream = new ProofStream(store, dir);
+    await store.appendAny(capture(1));
+    const day = new Date().toISOString().slice(0, 10);
+    const got: StreamEvent[] = [];
+    (await stream.subscribe((e) => got.push(e), { from: { day, offset: 0 }, transport: "sse" }))();
+    assert.deepEqual(lines(got), [capture(1).contentId]);
+    assert.equal(parseCursor("2026-01-02"), null);
+    assert.equal(parseCursor("x:1"), null);
+    assert.deepEqual(parseCursor("2026-01-02:42"), { day: "2026-01-02", offset: 42 });
+  }));
+
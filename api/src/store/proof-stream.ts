@@ -0,0 +1,142 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/store/proof-stream.ts
+// Canlı olay akışı (GET /proofs/stream, SSE + WebSocket):
+// - line:   zincire yazılan her satır; id = "<day>:<satır sonu byte offset’i>"
+// - root:   satırla birlikte güncel kök
+// - anchor: bu tenant’ın (ve super-root’un) yeni başarılı anchor receipt’leri (root.anchored)
+// - gap:    tekrar oynatma sınırı aşıldı; istemci /proofs/chain ile tamamlamalı
+// Last-Event-ID verilirse gün dosyası o offset’ten okunur (tüm dosya değil), sonra canlıya geçilir.
+import fs from "node:fs";
+import readline from "node:readline";
+import client from "prom-client";
+import { registry } from "../metrics/registry.js";
+import { onEvent } from "../webhooks/bus.js";
+import { dayFilePath, type ProofStore, type RootSnap } from "./proof-store.js";
+import { DEFAULT_TENANT } from "../keys/scopes.js";
+import { SUPER_ROOT_TENANT } from "../tenant/namespace.js";
+
+export type StreamCursor = { day: string; offset: number };
+
+export type StreamEvent =
+  | { type: "line"; id: string; data: { day: string; offset: number; line: Record<string, unknown> } }
+  | { type: "root"; data: RootSnap }
+  | { type: "anchor"; data: Record<string, unknown> }
+  | { type: "gap"; data: { from: string; reason: string } };
+
+export type StreamTransport = "sse" | "ws";
+
+const REPLAY_MAX = Number(process.env.STREAM_REPLAY_MAX || 5000);
+export const STREAM_MAX_CLIENTS = Number(process.env.STREAM_MAX_CLIENTS || 500);
+
+const clientsGauge = new client.Gauge({
+  name: "privora_stream_clients",
+  help: "Connected live stream clients",
+  labelNames: ["transport"],
+  registers: [registry],
+});
+
+export const cursorOf = (c: StreamCursor) => `${c.day}:${c.offset}`;
+
+export function parseCursor(v: unknown): StreamCursor | null {
+  const m = /^(\d{4}-\d{2}-\d{2}):(\d{1,15})$/.exec(String(v ?? "").trim());
+  return m ? { day: m[1], offset: Number(m[2]) } : null;
+}
+
+type Sub = {
+  send: (e: StreamEvent) => void;
+  buffer: StreamEvent[] | null; // tekrar oynatma sürerken gelen canlı olaylar
+};
+
+export class ProofStream {
+  private subs = new Set<Sub>();
+
+  constructor(private store: ProofStore, private dataDir: string, private tenant = DEFAULT_TENANT) {
+    store.onAppend((a) => {
+      this.publish({ type: "line", id: cursorOf(a), data: { day: a.day, offset: a.offset, line: a.line } });
+      this.publish({ type: "root", data: a.root });
+    });
+    onEvent((ev) => {
+      if (ev.type !== "root.anchored") return;
+      // başka tenant’ın anchor’ı yayınlanmaz; super-root tüm tenant’ları kapsar
+      const t = ev.data.tenant ?? DEFAULT_TENANT;
+      if (t === this.tenant || t === SUPER_ROOT_TENANT) this.publish({ type: "anchor", data: ev.data });
+    });
+  }
+
+  clients() {
+    return this.subs.size;
+  }
+
+  private publish(e: StreamEvent) {
+    for (const s of this.subs) {
+      if (s.buffer) s.buffer.push(e);
+      else s.send(e);
+    }
+  }
+
+  /**
+   * Aboneliği başlatır: from verilmişse önce diskteki kaçırılan satırlar, sonra güncel kök,
+   * ardından canlı olaylar. Kaldırma fonksiyonu döner.
+   */
+  async subscribe(send: Sub["send"], opts: { from?: StreamCursor | null; transport: StreamTransport }) {
+    const sub: Sub = { send, buffer: opts.from ? [] : null };
+    this.subs.add(sub);
+    clientsGauge.inc({ transport: opts.transport });
+    const close = () => {
+      if (this.subs.delete(sub)) clientsGauge.dec({ transport: opts.transport });
+    };
+
+    if (opts.from) {
+      let last: StreamCursor = opts.from;
+      try {
+        last = await this.replay(opts.from, send);
+      } catch {
+        send({ type: "gap", data: { from: cursorOf(opts.from), reason: "replay-failed" } });
+      }
+      // replay sırasında tampona düşen satırlardan diske zaten okunanları at
+      const pending = sub.buffer ?? [];
+      sub.buffer = null;
+      for (const e of pending) {
+        if (e.type === "line" && (e.data.day < last.day || (e.data.day === last.day && e.data.offset <= last.offset))) continue;
+        send(e);
+      }
+    }
+    send({ type: "root", data: this.store.currentRoot() });
+    return close;
+  }
+
+  /** from’dan sonraki satırları gün dosyalarından okur; son gönderilen imleci döner */
+  private async replay(from: StreamCursor, send: Sub["send"]): Promise<StreamCursor> {
+    const days = (await fs.promises.readdir(this.dataDir).catch(() => [] as string[]))
+      .map((f) => /^proofs-(\d{4}-\d{2}-\d{2})\.ndjson$/.exec(f)?.[1])
+      .filter((d): d is string => !!d && d >= from.day)
+      .sort();
+    let last = from;
+    let sent = 0;
+    for (const day of days) {
+      const fp = dayFilePath(this.dataDir, day);
+      const start = day === from.day ? from.offset : 0;
+      const size = (await fs.promises.stat(fp)).size;
+      if (start >= size) continue;
+      // sadece başlangıçtaki boyuta kadar: sonrası canlı tampondan gelir
+      const rl = readline.createInterface({ input: fs.createReadStream(fp, { start, end: size - 1 }) });
+      let offset = start;
+      for await (const raw of rl) {
+        offset += Buffer.byteLength(raw) + 1;
+        if (offset > size) break; // yazımı tamamlanmamış son satır
+        if (!raw.trim()) continue;
+        const line = JSON.parse(raw);
+        if (line.t === "header") continue;
+        if (++sent > REPLAY_MAX) {
+          rl.close();
+          // kalan satırlar atlanır; canlı tampondakiler yine gönderilir
+          send({ type: "gap", data: { from: cursorOf(last), reason: "replay-limit" } });
+          return last;
+        }
+        last = { day, offset };
+        send({ type: "line", id: cursorOf(last), data: { day, offset, line } });
+      }
+    }
+    return last;
+  }
+}
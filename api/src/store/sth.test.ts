@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/store/sth.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { SthLog, signTreeHead, verifyTreeHead, sthFilePath, type TreeHead } from "./sth.js";
+import { verifyChainFile } from "./integrity.js";
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync("ed25519");
+const head = (treeSize: number): TreeHead => ({
+  day: "2026-01-02",
+  treeVer: 2,
+  treeSize,
+  rootHash: "0x" + crypto.createHash("sha256").update(String(treeSize)).digest("hex"),
+  timestamp: 1767312000000 + treeSize,
+  keyId: "sth-test",
+});
+
+test("signed tree heads verify and reject any edited field", () => {
+  const sth = signTreeHead(head(5), privateKey);
+  assert.ok(verifyTreeHead(sth, publicKey));
+  assert.ok(!verifyTreeHead({ ...sth, treeSize: 6 }, publicKey));
+  assert.ok(!verifyTreeHead({ ...sth, rootHash: head(6).rootHash }, publicKey));
+  assert.ok(!verifyTreeHead(sth, crypto.generateKeyPairSync("ed25519").publicKey));
+});
+
+test("STH log is hash-chained and survives a restart", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sth-"));
+  try {
+    const log = new SthLog(dir);
+    await Promise.all([1, 2, 3].map((n) => log.append(signTreeHead(head(n), privateKey))));
+    await new SthLog(dir).append(signTreeHead(head(4), privateKey));
+
+    const items = await new SthLog(dir).list("2026-01-02");
+    assert.deepEqual(items.map((s) => s.treeSize), [1, 2, 3, 4]);
+    assert.ok(items.every((s) => verifyTreeHead(s, publicKey)));
+    assert.equal((await new SthLog(dir).latest())?.treeSize, 4);
+
+    const report = await verifyChainFile(sthFilePath(dir, "2026-01-02"));
+    assert.ok(report.ok, JSON.stringify(report.issues));
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
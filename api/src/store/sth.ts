@@ -0,0 +1,127 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/store/sth.ts
+// Signed Tree Head’ler: imzalama/doğrulama + kendi hash-chain’li NDJSON log’u (sth-YYYY-MM-DD.ndjson)
+import fs from "node:fs";
+import path from "node:path";
+import readline from "node:readline";
+import crypto, { type KeyObject } from "node:crypto";
+import { chainHash, headerHash } from "./proof-store.js";
+import type { TreeVersion } from "../crypto/merkle.js";
+
+export type TreeHead = {
+  day: string;
+  treeVer: TreeVersion;
+  treeSize: number;
+  rootHash: string;   // boş ağaçta SHA256("") (treeVer 2)
+  timestamp: number;  // ms
+  keyId: string;
+  tenant?: string;    // varsayılan tenant’ta yok (v1 imza metni değişmez)
+};
+
+export type SignedTreeHead = TreeHead & { alg: "ed25519"; signature: string /* base64 */ };
+
+/**
+ * İmzalanan metin (SDK ve explorer aynısını üretir):
+ * privora-sth-v1\nDAY\nTREEVER\nTREESIZE\nROOTHASH\nTIMESTAMP\nKEYID
+ * tenant’lı STH: privora-sth-v2\nTENANT\n... (bir tenant’ın imzalı başı başka tenant’ınki diye sunulamasın)
+ */
+export function sthSigningString(h: TreeHead): string {
+  const body = [h.day, h.treeVer, h.treeSize, h.rootHash, h.timestamp, h.keyId];
+  return (h.tenant ? ["privora-sth-v2", h.tenant, ...body] : ["privora-sth-v1", ...body]).join("\n");
+}
+
+export function signTreeHead(h: TreeHead, privateKey: KeyObject): SignedTreeHead {
+  const sig = crypto.sign(null, Buffer.from(sthSigningString(h)), privateKey);
+  return { ...h, alg: "ed25519", signature: sig.toString("base64") };
+}
+
+export function verifyTreeHead(sth: SignedTreeHead, publicKey: KeyObject): boolean {
+  try {
+    return crypto.verify(null, Buffer.from(sthSigningString(sth)), publicKey, Buffer.from(sth.signature, "base64"));
+  } catch {
+    return false;
+  }
+}
+
+export function sthFilePath(dir: string, day: string) {
+  return path.join(dir, `sth-${day}.ndjson`);
+}
+
+/** STH log’u: proof dosyalarıyla aynı header + prevHash/lineHash zinciri */
+export class SthLog {
+  private lastHash: string | null = null;
+  private latestHead: SignedTreeHead | null = null;
+  private day: string | null = null;
+  private tail: Promise<unknown> = Promise.resolve();
+
+  constructor(private dir: string) {
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  }
+
+  async append(sth: SignedTreeHead) {
+    const run = this.tail.then(() => this.write(sth));
+    this.tail = run.catch(() => {});
+    return run;
+  }
+
+  private async write(sth: SignedTreeHead) {
+    const day = sth.day;
+    const fp = sthFilePath(this.dir, day);
+    if (this.day !== day) await this.open(fp, day);
+    const rawBase = JSON.stringify({ t: "sth", ...sth });
+    const lineHash = chainHash(this.lastHash, rawBase);
+    const line = { ...JSON.parse(rawBase), prevHash: this.lastHash, lineHash };
+    await fs.promises.appendFile(fp, JSON.stringify(line) + "\n");
+    this.lastHash = lineHash;
+    this.latestHead = sth;
+    return line;
+  }
+
+  private async open(fp: string, day: string) {
+    this.day = day;
+    this.lastHash = null;
+    const st = await fs.promises.stat(fp).catch(() => null);
+    if (!st || st.size === 0) {
+      const hdr = { t: "header", ver: 1, kind: "sth", createdAt: Date.now() };
+      await fs.promises.appendFile(fp, JSON.stringify(hdr) + "\n");
+      this.lastHash = headerHash(hdr);
+      return;
+    }
+    for await (const obj of readLines(fp)) {
+      this.lastHash = obj.t === "header" ? headerHash(obj) : obj.lineHash;
+    }
+  }
+
+  /** Son STH (bellekte yoksa en yeni sth dosyasının son satırı) */
+  async latest(): Promise<SignedTreeHead | null> {
+    if (this.latestHead) return this.latestHead;
+    const files = fs.existsSync(this.dir)
+      ? fs.readdirSync(this.dir).filter((f) => /^sth-\d{4}-\d{2}-\d{2}\.ndjson$/.test(f)).sort()
+      : [];
+    const last = files.at(-1);
+    if (!last) return null;
+    const heads = await this.list(last.slice(4, 14));
+    return heads.at(-1) ?? null;
+  }
+
+  async list(day: string): Promise<SignedTreeHead[]> {
+    const fp = sthFilePath(this.dir, day);
+    if (!fs.existsSync(fp)) return [];
+    const out: SignedTreeHead[] = [];
+    for await (const obj of readLines(fp)) {
+      if (obj.t !== "sth") continue;
+      const { t: _t, prevHash: _p, lineHash: _l, ...sth } = obj;
+      out.push(sth as SignedTreeHead);
+    }
+    return out;
+  }
+}
+
+async function* readLines(fp: string) {
+  const rl = readline.createInterface({ input: fs.createReadStream(fp), crlfDelay: Infinity });
+  for await (const raw of rl) {
+    const line = raw.trim();
+    if (!line) continue;
+    try { yield JSON.parse(line); } catch { /* bozuk satır: integrity aracı raporlar */ }
+  }
+}
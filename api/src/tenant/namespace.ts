@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/tenant/namespace.ts
+// Tenant verisinin yeri: varsayılan tenant eski dizin ve Redis anahtarlarını aynen kullanır
+// (tek tenant’lı kurulumlar taşınmadan çalışır), diğerleri kendi alt dizin / önekinde.
+import type { Request } from "express";
+import path from "node:path";
+import { DEFAULT_TENANT } from "../keys/scopes.js";
+
+/**
+ * Super-root (tüm tenant köklerini tek anchor’da toplayan ağaç) için ayrılmış ad: TENANT_PATTERN’e
+ * uymaz, dolayısıyla hiçbir tenant’la çakışmaz. Kayıtları ANCHOR_DIR/super altında.
+ */
+export const SUPER_ROOT_TENANT = "_super";
+
+export function superRootDir(anchorsDir: string) {
+  return path.join(anchorsDir, "super");
+}
+
+/** DATA_DIR/tenants/<id>, ANCHOR_DIR/tenants/<id> */
+export function tenantDirs(base: { dataDir: string; anchorsDir: string }, tenant: string) {
+  if (tenant === DEFAULT_TENANT) return { dataDir: base.dataDir, anchorsDir: base.anchorsDir };
+  return {
+    dataDir: path.join(base.dataDir, "tenants", tenant),
+    anchorsDir: path.join(base.anchorsDir, "tenants", tenant),
+  };
+}
+
+/** "privora:jobs" → "privora:t:<tenant>:jobs"; privora: önekli olmayanlar "t:<tenant>:..." */
+export function tenantRedisKey(tenant: string, key: string) {
+  if (tenant === DEFAULT_TENANT) return key;
+  return key.startsWith("privora:") ? `privora:t:${tenant}:${key.slice(8)}` : `t:${tenant}:${key}`;
+}
+
+/** tenantContext’ten geçmiş isteğin tenant’ı (geçmemişse DEFAULT_TENANT) */
+export function tenantIdOf(req: Request): string {
+  return (req as any).tenant?.id ?? DEFAULT_TENANT;
+}
@@ -0,0 +1,140 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/tenant/registry.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { TenantRegistry, tenantContext, tenantRoutes } from "./registry.js";
+import { tenantRedisKey } from "./namespace.js";
+import { issueStreamToken, streamTokenTenant } from "./stream-token.js";
+import { keyProvider } from "../keys/keyProvider.js";
+import { requireHmac } from "../mw/requireHmac.js";
+
+test("tenant redis keys keep the default tenant's names", () => {
+  assert.equal(tenantRedisKey("default", "privora:jobs"), "privora:jobs");
+  assert.equal(tenantRedisKey("acme", "privora:jobs"), "privora:t:acme:jobs");
+  assert.equal(tenantRedisKey("acme", "rl:anon:1.2.3.4"), "t:acme:rl:anon:1.2.3.4");
+});
+
+test("proofs written with a tenant's key are only visible inside that tenant; an unsigned x-key-id cannot select it", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "tenants-"));
+  delete process.env.REDIS_URL;
+  process.env.NODE_ENV = "test";
+  process.env.DATA_DIR = dir;
+  process.env.TENANT_API_KEYS = "ak-acme=acme,ak-globex=globex";
+  const secret = "a".repeat(32);
+  await keyProvider().create({ id: "acme-worker", secret, tenant: "acme" }, { keyId: "ops" });
+
+  const tenants = new TenantRegistry({ dataDir: dir, anchorsDir: path.join(dir, "anchors"), redis: null, elector: null });
+  const app = express();
+  app.use(express.json({ verify: (req: any, _res, buf) => (req._raw = buf) }));
+  app.use((req: any, _res, next) => ((req._raw ??= Buffer.alloc(0)), next())); // server.ts gibi: gövdesiz istekte boş raw
+  app.use(tenantContext(tenants));
+  app.use(
+    tenantRoutes((t) => {
+      const r = express.Router();
+      r.get("/proofs", (_req, res) => res.json({ ok: true, tenant: t.id, leafCount: t.store.currentRoot().leafCount }));
+      r.post("/proof", requireHmac({ scope: "proofs:write" }), async (req, res) => {
+        await t.appendQueue.enqueue({ jobId: req.body.jobId, proofHash: req.body.proofHash, createdAt: Date.now() });
+        res.json({ ok: true });
+      });
+      return r;
+    })
+  );
+  const srv = app.listen(0);
+  const base = `http://127.0.0.1:${(srv.address() as AddressInfo).port}`;
+  const read = async (apiKey?: string, headers: Record<string, string> = {}) => {
+    const r = await fetch(base + "/proofs", { headers: { ...headers, ...(apiKey ? { "x-api-key": apiKey } : {}) } });
+    return { tenant: r.headers.get("x-tenant-id"), body: await r.json() };
+  };
+  try {
+    const body = JSON.stringify({ jobId: "j1", proofHash: "0x" + "1".repeat(64) });
+    const ts = String(Date.now());
+    const nonce = crypto.randomUUID();
+    const canon = ["POST", "/proof", crypto.createHash("sha256").update(body).digest("hex"), ts, nonce].join("\n");
+    const w = await fetch(base + "/proof", {
+      method: "POST",
+      body,
+      headers: {
+        "content-type": "application/json", "x-key-id": "acme-worker", "x-ts": ts, "x-nonce": nonce,
+        "x-signature-256": crypto.createHmac("sha256", secret).update(canon).digest("hex"),
+      },
+    });
+    assert.equal(w.status, 200);
+    assert.equal(w.headers.get("x-tenant-id"), "acme");
+
+    assert.deepEqual(await read("ak-acme"), { tenant: "acme", body: { ok: true, tenant: "acme", leafCount: 1 } });
+    assert.equal((await read("ak-globex")).body.leafCount, 0);
+    // anahtarsız okuma varsayılan tenant’ta kalır
+    assert.deepEqual(await read(), { tenant: "default", body: { ok: true, tenant: "default", leafCount: 0 } });
+
+    // imzasız / imzası tutmayan x-key-id tenant seçemez: varsayılana (ya da x-api-key’in tenant’ına) düşer
+    assert.deepEqual(await read(undefined, { "x-key-id": "acme-worker" }), { tenant: "default", body: { ok: true, tenant: "default", leafCount: 0 } });
+    const forged = { "x-key-id": "acme-worker", "x-ts": String(Date.now()), "x-nonce": "n1", "x-signature-256": "00".repeat(32) };
+    assert.equal((await read(undefined, forged)).tenant, "default");
+    assert.equal((await read("ak-globex", forged)).tenant, "globex");
+    // imzalı okuma anahtarın tenant’ını seçer
+    const rts = String(Date.now());
+    const rcanon = ["GET", "/proofs", crypto.createHash("sha256").update("").digest("hex"), rts, "n2"].join("\n");
+    const signed = { "x-key-id": "acme-worker", "x-ts": rts, "x-nonce": "n2", "x-signature-256": crypto.createHmac("sha256", secret).update(rcanon).digest("hex") };
+    assert.deepEqual(await read(undefined, signed), { tenant: "acme", body: { ok: true, tenant: "acme", leafCount: 1 } });
+
+    // zincir tenant’ın kendi dizininde
+    const acme = await tenants.get("acme");
+    assert.equal(path.dirname(acme.store.currentFilePath), path.join(dir, "tenants", "acme"));
+    assert.deepEqual(tenants.known(), ["acme", "default", "globex"]);
+    await assert.rejects(tenants.get(".."), /bad tenant/);
+  } finally {
+    srv.close();
+    await tenants.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("a stream token selects its tenant on /proofs/stream only, for browsers that cannot send x-api-key", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "tenants-"));
+  delete process.env.REDIS_URL;
+  process.env.TENANT_API_KEYS = "ak-acme=acme";
+  const tenants = new TenantRegistry({ dataDir: dir, anchorsDir: path.join(dir, "anchors"), redis: null, elector: null });
+  const app = express();
+  app.use(tenantContext(tenants));
+  app.use(
+    tenantRoutes((t) => {
+      const r = express.Router();
+      r.post("/proofs/stream/token", (_req, res) => res.json({ ok: true, ...issueStreamToken(t.id) }));
+      r.get(["/proofs/stream", "/proofs"], (_req, res) => res.json({ ok: true, tenant: t.id }));
+      return r;
+    })
+  );
+  const srv = app.listen(0);
+  const base = `http://127.0.0.1:${(srv.address() as AddressInfo).port}`;
+  const tenantAt = async (p: string) => {
+    const r = await fetch(base + p);
+    return r.status === 200 ? (await r.json()).tenant : r.status;
+  };
+  try {
+    const t = await (await fetch(base + "/proofs/stream/token", { method: "POST", headers: { "x-api-key": "ak-acme" } })).json();
+    assert.equal(t.tenant, "acme");
+    assert.equal(await tenantAt(`/proofs/stream?streamToken=${t.token}`), "acme");
+    // başka yolda token tenant seçmez
+    assert.equal(await tenantAt(`/proofs?streamToken=${t.token}`), "default");
+    assert.equal(await tenantAt(`/proofs/stream?streamToken=${t.token}x`), 401);
+
+    const now = Date.now();
+    const issued = issueStreamToken("acme", now);
+    assert.equal(streamTokenTenant(issued.token, now), "acme");
+    assert.equal(streamTokenTenant(issued.token, issued.expiresAt), null);
+    // gövdedeki tenant’ı değiştirmek MAC’i bozar
+    const [enc, sig] = issued.token.split(".");
+    const forged = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(enc, "base64url").toString()), t: "globex" })).toString("base64url");
+    assert.equal(streamTokenTenant(`${forged}.${sig}`, now), null);
+  } finally {
+    srv.close();
+    await tenants.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
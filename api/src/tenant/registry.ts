@@ -0,0 +1,140 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/tenant/registry.ts
+// Tenant başına ayrı NDJSON zinciri / Merkle ağacı (ProofStore), append ve iş kuyruğu, STH log’u,
+// anchor dizini + DLQ ve canlı akış. İlk istekte açılır; cron’lar açık + diskte bulunan tenant’ları dolaşır.
+import type { Request, Response, NextFunction, Router } from "express";
+import type { Redis } from "ioredis";
+import fs from "node:fs";
+import path from "node:path";
+import { ProofStore } from "../store/proof-store.js";
+import { ProofStream } from "../store/proof-stream.js";
+import { SthLog } from "../store/sth.js";
+import { AppendQueue } from "../store/append-queue.js";
+import { createJobQueue, type JobQueue } from "../store/job-queue.js";
+import { AnchorDlq } from "../anchor/dlq.js";
+import type { LeaderElector } from "../util/leader.js";
+import { DEFAULT_TENANT, TENANT_PATTERN } from "../keys/scopes.js";
+import { resolveTenant } from "./resolve.js";
+import { tenantDirs } from "./namespace.js";
+
+export type Tenant = {
+  id: string;
+  dataDir: string;
+  anchorsDir: string;
+  store: ProofStore;
+  stream: ProofStream;
+  sthLog: SthLog;
+  appendQueue: AppendQueue;
+  jobQueue: JobQueue;
+  dlq: AnchorDlq;
+};
+
+export class TenantRegistry {
+  private open = new Map<string, Promise<Tenant>>();
+
+  constructor(
+    private opts: { dataDir: string; anchorsDir: string; redis: Redis | null; elector: LeaderElector | null }
+  ) {}
+
+  get redis() {
+    return this.opts.redis;
+  }
+
+  /** Tenant’ı (gerekirse açarak) döner; eşzamanlı ilk istekler aynı açılışı bekler */
+  get(id: string): Promise<Tenant> {
+    if (!TENANT_PATTERN.test(id)) return Promise.reject(new Error(`bad tenant: ${id}`));
+    let p = this.open.get(id);
+    if (!p) {
+      p = this.create(id);
+      this.open.set(id, p);
+      p.catch(() => this.open.delete(id)); // açılamadıysa sonraki istek tekrar denesin
+    }
+    return p;
+  }
+
+  private async create(id: string): Promise<Tenant> {
+    const { redis, elector } = this.opts;
+    const dirs = tenantDirs(this.opts, id);
+    const store = new ProofStore(dirs.dataDir, id);
+    const appendQueue = new AppendQueue(store, redis, elector, id);
+    await appendQueue.init();
+    const jobQueue = createJobQueue(redis, dirs.dataDir, id);
+    await jobQueue.init();
+    return {
+      id,
+      ...dirs,
+      store,
+      stream: new ProofStream(store, dirs.dataDir, id),
+      sthLog: new SthLog(dirs.dataDir),
+      appendQueue,
+      jobQueue,
+      dlq: new AnchorDlq(redis, dirs.anchorsDir, id),
+    };
+  }
+
+  /** Varsayılan + ENV TENANTS + DATA_DIR/tenants altındaki dizinler + bu süreçte açılanlar */
+  known(): string[] {
+    const ids = new Set([DEFAULT_TENANT, ...this.open.keys()]);
+    for (const t of (process.env.TENANTS || "").split(",").map((s) => s.trim())) if (t) ids.add(t);
+    const dir = path.join(this.opts.dataDir, "tenants");
+    for (const e of fs.existsSync(dir) ? fs.readdirSync(dir, { withFileTypes: true }) : []) {
+      if (e.isDirectory()) ids.add(e.name);
+    }
+    return [...ids].filter((t) => TENANT_PATTERN.test(t)).sort();
+  }
+
+  all(): Promise<Tenant[]> {
+    return Promise.all(this.known().map((t) => this.get(t)));
+  }
+
+  async close() {
+    for (const p of this.open.values()) {
+      const t = await p.catch(() => null);
+      if (!t) continue;
+      await t.appendQueue.close();
+      await t.jobQueue.close();
+    }
+  }
+}
+
+/**
+ * İsteğin tenant’ını çözer (bkz. tenant/resolve.ts) ve req.tenant’a koyar.
+ * Yanıt tenant’a göre değiştiğinden paylaşılan önbellekler için Vary eklenir.
+ */
+export function tenantContext(tenants: TenantRegistry) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const r = await resolveTenant(req, tenants.redis);
+      if ("error" in r) return res.status(r.error === "bad-tenant" ? 403 : 401).json({ ok: false, error: r.error });
+      (req as any).tenant = await tenants.get(r.tenant);
+      res.vary("X-Api-Key").vary("X-Key-Id");
+      res.setHeader("X-Tenant-Id", r.tenant);
+      return next();
+    } catch (e) {
+      return next(e);
+    }
+  };
+}
+
+export function tenantOf(req: Request): Tenant {
+  const t = (req as any).tenant as Tenant | undefined;
+  if (!t) throw new Error("tenantContext middleware missing");
+  return t;
+}
+
+/**
+ * Tenant’a bağlı router’ı tenant başına bir kez kurar ve isteği çağıranın tenant’ınınkine yollar.
+ * Böylece dataDir/store alan route fabrikaları değişmeden tenant içinde kalır.
+ */
+export function tenantRoutes(build: (t: Tenant) => Router) {
+  const routers = new Map<string, Router>();
+  return (req: Request, res: Response, next: NextFunction) => {
+    const t = tenantOf(req);
+    let r = routers.get(t.id);
+    if (!r) {
+      r = build(t);
+      routers.set(t.id, r);
+    }
+    return r(req, res, next);
+  };
+}
@@ -0,0 +1,94 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/tenant/resolve.ts
+// İsteğin tenant’ı:
+// 1) x-key-id + geçerli imza (x-signature → açık anahtar, x-signature-256 → HMAC) ve taze x-ts varsa
+//    anahtar kaydındaki tenant. İmzasız ya da imzası tutmayan x-key-id yok sayılır: başlığı bilen
+//    başka tenant’ın verisini seçemez. (Nonce burada tüketilmez; imzalı rotada requireHmac tüketir.)
+// 2) x-api-key → ENV TENANT_API_KEYS="<apiKey>=<tenant>,..." ya da Redis privora:apikey:<sha256(apiKey)> = <tenant>
+// 3) yalnız /proofs/stream’de ?streamToken= (başlık gönderemeyen EventSource / WebSocket; bkz. stream-token.ts)
+// 4) hiçbiri yoksa DEFAULT_TENANT (TENANT_REQUIRE_API_KEY=true ise bilinmeyen x-api-key 401)
+import type { Redis } from "ioredis";
+import crypto from "node:crypto";
+import { verifyHmacRequest } from "../mw/requireHmac.js";
+import { verifySignatureRequest } from "../mw/requireSignature.js";
+import { isFreshTs } from "../mw/requireFreshTs.js";
+import { headerOf, type SignedRequest } from "../util/requestCanonical.js";
+import { DEFAULT_TENANT, TENANT_PATTERN } from "../keys/scopes.js";
+import { streamTokenTenant } from "./stream-token.js";
+
+export type TenantResolution =
+  | { tenant: string; via: "key" | "api-key" | "stream-token" | "default" }
+  | { error: "unknown-api-key" | "bad-stream-token" | "bad-tenant" };
+
+const REQUIRE_API_KEY = (process.env.TENANT_REQUIRE_API_KEY || "").toLowerCase() === "true";
+const CACHE_TTL_MS = Number(process.env.KEY_CACHE_TTL_MS || 60_000);
+const apiKeyCache = new Map<string, { tenant: string | null; loadedAt: number }>();
+
+const sha256 = (s: string) => crypto.createHash("sha256").update(s).digest("hex");
+
+function envApiKeyTenant(apiKey: string): string | null {
+  for (const p of (process.env.TENANT_API_KEYS || "").split(",").map((s) => s.trim()).filter(Boolean)) {
+    const i = p.lastIndexOf("=");
+    if (i > 0 && p.slice(0, i) === apiKey) return p.slice(i + 1);
+  }
+  return null;
+}
+
+async function apiKeyTenant(redis: Redis | null, apiKey: string): Promise<string | null> {
+  const h = sha256(apiKey);
+  const c = apiKeyCache.get(h);
+  if (c && Date.now() - c.loadedAt < CACHE_TTL_MS) return c.tenant;
+  const tenant = (redis ? await redis.get(`privora:apikey:${h}`) : null) ?? envApiKeyTenant(apiKey);
+  apiKeyCache.set(h, { tenant, loadedAt: Date.now() });
+  return tenant;
+}
+
+/** Test/ops için: API anahtarını tenant’a bağlar (Redis’te yalnız hash’i tutulur) */
+export async function putApiKeyTenant(redis: Redis, apiKey: string, tenant: string) {
+  if (!TENANT_PATTERN.test(tenant)) throw new Error(`bad tenant: ${tenant}`);
+  await redis.set(`privora:apikey:${sha256(apiKey)}`, tenant);
+  apiKeyCache.delete(sha256(apiKey));
+}
+
+/** x-key-id’nin tenant’ı yalnız istek o anahtarla imzalanmışsa; aksi halde null */
+async function verifiedKeyTenant(req: SignedRequest): Promise<string | null | undefined> {
+  if (!isFreshTs(headerOf(req, "x-ts"))) return undefined;
+  if (headerOf(req, "x-signature")) {
+    const v = await verifySignatureRequest(req);
+    return v.ok ? v.access.tenant ?? null : undefined;
+  }
+  if (headerOf(req, "x-signature-256")) {
+    const v = await verifyHmacRequest(req);
+    return v.ok ? v.access.tenant ?? null : undefined;
+  }
+  return undefined;
+}
+
+export async function resolveTenant(req: SignedRequest, redis: Redis | null): Promise<TenantResolution> {
+  let tenant: string | null = null;
+  let via: "key" | "api-key" | "stream-token" | "default" = "default";
+
+  const keyId = headerOf(req, "x-key-id");
+  const apiKey = headerOf(req, "x-api-key");
+  // undefined = doğrulanmamış anahtar → x-api-key / varsayılan (imzalı rota zaten 401 verir)
+  const keyTenant = keyId ? await verifiedKeyTenant(req) : undefined;
+  if (keyTenant !== undefined) {
+    tenant = keyTenant;
+    via = "key";
+  } else if (apiKey) {
+    tenant = await apiKeyTenant(redis, apiKey);
+    if (!tenant && REQUIRE_API_KEY) return { error: "unknown-api-key" };
+    if (tenant) via = "api-key";
+  } else {
+    const url = new URL(req.originalUrl || req.url || "/", "http://localhost");
+    const token = url.pathname === "/proofs/stream" ? url.searchParams.get("streamToken") : null;
+    if (token) {
+      tenant = streamTokenTenant(token);
+      if (!tenant) return { error: "bad-stream-token" };
+      via = "stream-token";
+    }
+  }
+
+  tenant = tenant || DEFAULT_TENANT;
+  return TENANT_PATTERN.test(tenant) ? { tenant, via } : { error: "bad-tenant" };
+}
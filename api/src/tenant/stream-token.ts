@@ -0,0 +1,50 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/tenant/stream-token.ts
+// Canlı akış token’ı: tarayıcıdaki EventSource / WebSocket başlık gönderemez. Çağıran x-api-key (ya da imzalı
+// x-key-id) ile POST /proofs/stream/token’dan kendi tenant’ına bağlı, kısa ömürlü bir token alır ve
+// GET /proofs/stream?streamToken=… ile bağlanır. Token yalnız akış yolunda tenant seçer; API anahtarı URL’ye
+// (erişim loglarına) yazılmaz.
+import crypto from "node:crypto";
+import { TENANT_PATTERN } from "../keys/scopes.js";
+
+const TTL_SEC = Number(process.env.STREAM_TOKEN_TTL_SEC || 3600);
+
+type TokenBody = { v: 1; t: string; exp: number };
+
+// Tüm instance’lar aynı secret’ı kullanmalı; yoksa bir instance’ın token’ı diğerinde geçersiz olur
+let secret: Buffer | null = null;
+function tokenSecret() {
+  if (secret) return secret;
+  const s = process.env.STREAM_TOKEN_SECRET;
+  if (!s) {
+    // eslint-disable-next-line no-console
+    console.warn("[stream-token] STREAM_TOKEN_SECRET not set, using a per-process secret (tokens are not portable across instances)");
+  }
+  secret = s ? Buffer.from(s) : crypto.randomBytes(32);
+  return secret;
+}
+
+const b64u = (b: Buffer | string) => Buffer.from(b).toString("base64url");
+const mac = (body: string) => crypto.createHmac("sha256", tokenSecret()).update(`privora-stream:v1\n${body}`).digest();
+
+export function issueStreamToken(tenant: string, now = Date.now()) {
+  const body: TokenBody = { v: 1, t: tenant, exp: now + TTL_SEC * 1000 };
+  const enc = b64u(JSON.stringify(body));
+  return { token: `${enc}.${b64u(mac(enc))}`, tenant, expiresAt: body.exp };
+}
+
+/** Geçerli token’ın tenant’ı; bozuk, süresi dolmuş ya da MAC’i tutmayan token için null */
+export function streamTokenTenant(token: string, now = Date.now()): string | null {
+  const [enc, sig] = token.split(".");
+  if (!enc || !sig) return null;
+  const want = mac(enc);
+  const got = Buffer.from(sig, "base64url");
+  if (got.length !== want.length || !crypto.timingSafeEqual(got, want)) return null;
+  try {
+    const body = JSON.parse(Buffer.from(enc, "base64url").toString("utf8")) as TokenBody;
+    if (body.v !== 1 || !(body.exp > now) || typeof body.t !== "string" || !TENANT_PATTERN.test(body.t)) return null;
+    return body.t;
+  } catch {
+    return null;
+  }
+}
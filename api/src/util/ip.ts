@@ -0,0 +1,78 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/util/ip.ts
+// İstemci IP’si ve IPv4/IPv6 CIDR eşleştirme: allowlist’ler ve anahtar CIDR’ları (keys/scopes.ts) aynı kodu kullanır.
+import type { Request } from "express";
+import net from "node:net";
+
+/**
+ * Güvenilir proxy sayısı: soket adresinden geriye bu kadar X-Forwarded-For girdisi proxy’lerimizindir,
+ * daha soldakiler istemci beyanıdır (sahte olabilir). 0 = XFF yok sayılır. server.ts "trust proxy"yi de buna ayarlar.
+ */
+export const TRUSTED_PROXY_HOPS = Math.max(0, Math.floor(Number(process.env.TRUSTED_PROXY_HOPS || 0)));
+
+/** "::ffff:1.2.3.4" → "1.2.3.4", "fe80::1%eth0" → "fe80::1"; IP değilse "" */
+export function normalizeIp(ip: string | undefined | null): string {
+  let s = String(ip || "").trim();
+  if (s.startsWith("[") && s.endsWith("]")) s = s.slice(1, -1);
+  const zone = s.indexOf("%");
+  if (zone > 0) s = s.slice(0, zone);
+  if (s.toLowerCase().startsWith("::ffff:") && net.isIPv4(s.slice(7))) s = s.slice(7);
+  return net.isIP(s) ? s.toLowerCase() : "";
+}
+
+export function clientIp(req: Request, hops = TRUSTED_PROXY_HOPS): string {
+  const xff = String(req.headers["x-forwarded-for"] || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  const chain = [...xff, req.socket?.remoteAddress || ""];
+  return normalizeIp(chain[Math.max(0, chain.length - 1 - hops)]);
+}
+
+export function isValidCidr(c: string) {
+  const [addr, bits] = c.trim().split("/");
+  const max = net.isIPv4(addr) ? 32 : net.isIPv6(addr) ? 128 : -1;
+  return max > 0 && (bits === undefined || (/^\d{1,3}$/.test(bits) && Number(bits) <= max));
+}
+
+/** "10.0.0.0/8", "2001:db8::/32" ya da tek IP; geçersiz girdi Error fırlatır */
+export function toBlockList(cidrs: string[]) {
+  const bl = new net.BlockList();
+  for (const c of cidrs) {
+    if (!isValidCidr(c)) throw new Error(`bad cidr: ${c}`);
+    const [addr, bits] = c.trim().split("/");
+    const type = net.isIPv4(addr) ? "ipv4" : "ipv6";
+    if (bits === undefined) bl.addAddress(addr, type);
+    else bl.addSubnet(addr, Number(bits), type);
+  }
+  return bl;
+}
+
+/** Derlenmiş CIDR listesi; geçersiz girdiler atlanır ve invalid’de raporlanır */
+export class CidrSet {
+  readonly entries: string[];
+  readonly invalid: string[];
+  private bl: net.BlockList;
+
+  constructor(entries: string[]) {
+    const list = entries.map((s) => s.trim()).filter(Boolean);
+    this.entries = list.filter(isValidCidr);
+    this.invalid = list.filter((c) => !isValidCidr(c));
+    this.bl = toBlockList(this.entries);
+  }
+
+  get size() {
+    return this.entries.length;
+  }
+
+  has(ip: string) {
+    const addr = normalizeIp(ip);
+    if (!addr) return false;
+    return this.bl.check(addr, net.isIPv4(addr) ? "ipv4" : "ipv6");
+  }
+}
+
+/** Liste boşsa serbest */
+export function ipAllowed(cidrs: string[], ip: string) {
+  return !cidrs.length || new CidrSet(cidrs).has(ip);
+}
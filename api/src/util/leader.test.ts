@@ -0,0 +1,73 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/util/leader.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { LeaderElector } from "./leader.js";
+
+// Lua betiklerinin anlamını taklit eden bellek içi Redis (2 key = acquire, 1 key = release)
+function fakeRedis() {
+  const kv = new Map<string, string>();
+  return {
+    kv,
+    async eval(_script: string, numKeys: number, ...args: (string | number)[]) {
+      if (numKeys === 2) {
+        const [lease, term, id] = args.map(String);
+        const cur = kv.get(lease);
+        if (cur) return cur.split("|")[0] === id ? Number(cur.split("|")[1]) : 0;
+        const token = Number(kv.get(term) || 0) + 1;
+        kv.set(term, String(token));
+        kv.set(lease, `${id}|${token}`);
+        return token;
+      }
+      const [lease, held] = args.map(String);
+      if (kv.get(lease) !== held) return 0;
+      kv.delete(lease);
+      return 1;
+    },
+  };
+}
+
+test("one leader per lease, and every new term gets a higher fencing token", async () => {
+  const redis = fakeRedis();
+  const a = new LeaderElector(redis as any, { id: "a", ttlMs: 60_000, renewMs: 20_000 });
+  const b = new LeaderElector(redis as any, { id: "b", ttlMs: 60_000, renewMs: 20_000 });
+  const events: string[] = [];
+  a.onElected((t) => void events.push(`a+${t}`));
+  a.onDemoted((t) => void events.push(`a-${t}`));
+  b.onElected((t) => void events.push(`b+${t}`));
+
+  await a.start();
+  await b.start();
+  assert.equal(a.isLeader, true);
+  assert.equal(b.isLeader, false);
+  assert.equal(a.token, 1);
+  assert.equal(b.token, null);
+
+  // a’nın lease’i düştü (duraklama): b devralır, a bir sonraki turda düşürülür
+  redis.kv.delete("privora:leader");
+  await b.tick();
+  await a.tick();
+  assert.equal(b.token, 2);
+  assert.equal(a.isLeader, false);
+
+  await b.stop();
+  assert.equal(redis.kv.has("privora:leader"), false);
+  await a.tick();
+  assert.equal(a.token, 3);
+  await a.stop();
+  assert.deepEqual(events, ["a+1", "b+2", "a-1", "a+3", "a-3"]);
+});
+
+test("concurrent start calls share one renew timer that stop clears", async () => {
+  const redis = fakeRedis();
+  let evals = 0;
+  const counted = { eval: (...args: Parameters<typeof redis.eval>) => (evals++, redis.eval(...args)) };
+  const a = new LeaderElector(counted as any, { id: "a", ttlMs: 60, renewMs: 10 });
+
+  await Promise.all([a.start(), a.start(), a.start()]);
+  assert.equal(a.token, 1);
+  await a.stop();
+  const after = evals;
+  await new Promise((r) => setTimeout(r, 50));
+  assert.equal(evals, after);
+});
@@ -0,0 +1,193 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/util/leader.ts
+// Redis lease tabanlı lider seçimi + fencing token.
+// - privora:leader = "<id>|<token>" (PX ttl). Sahibi her RENEW_MS’de uzatır; düşerse başkası alır.
+// - privora:leader:term her yeni dönemde INCR edilir → token tekdüze artar. Yazıcı (ProofStore)
+//   gördüğü en büyük token’dan küçük olanı reddeder; duraklamış eski lider böylece yazamaz.
+// - isLeader yerel saatle de sınırlı: lease dolduysa yenileme cevabı gelmeden lider sayılmaz.
+import type { Redis } from "ioredis";
+import crypto from "node:crypto";
+import client from "prom-client";
+import { registry, labels } from "../metrics/registry.js";
+
+const LEADER_KEY = "privora:leader";
+const TTL_MS = Number(process.env.LEADER_TTL_MS || 10_000);
+const RENEW_MS = Number(process.env.LEADER_RENEW_MS || Math.floor(TTL_MS / 3));
+
+const leaderGauge = new client.Gauge({
+  name: "leader_is_leader",
+  help: "1 if this instance is leader",
+  labelNames: ["instance_id"],
+  registers: [registry],
+});
+const termGauge = new client.Gauge({
+  name: "leader_term",
+  help: "Fencing token of the current term held by this instance (0 if follower)",
+  labelNames: ["instance_id"],
+  registers: [registry],
+});
+const termChanges = new client.Counter({
+  name: "leader_term_changes_total",
+  help: "Leadership transitions seen by this instance",
+  labelNames: ["instance_id", "change"], // elected | demoted
+  registers: [registry],
+});
+
+// KEYS[1]=lease, KEYS[2]=term; ARGV[1]=id, ARGV[2]=ttlMs → token (bizde / yeni aldık) | 0 (başkasında)
+const ACQUIRE_LUA = `
+local cur = redis.call("GET", KEYS[1])
+if cur then
+  local sep = string.find(cur, "|", 1, true)
+  if sep and string.sub(cur, 1, sep - 1) == ARGV[1] then
+    redis.call("PEXPIRE", KEYS[1], ARGV[2])
+    return tonumber(string.sub(cur, sep + 1))
+  end
+  return 0
+end
+local token = redis.call("INCR", KEYS[2])
+redis.call("SET", KEYS[1], ARGV[1] .. "|" .. token, "PX", ARGV[2])
+return token
+`;
+
+// yalnız kendi dönemimizi bırak (compare-and-delete)
+const RELEASE_LUA = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then return redis.call("DEL", KEYS[1]) end
+return 0
+`;
+
+export type LeaderOptions = { key?: string; ttlMs?: number; renewMs?: number; id?: string };
+
+export class LeaderElector {
+  readonly id: string;
+  private key: string;
+  private ttlMs: number;
+  private renewMs: number;
+  private term: number | null = null;
+  private leaseUntil = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private starting: Promise<void> | null = null;
+  private ticking: Promise<void> | null = null;
+  private electedFns = new Set<(token: number) => void | Promise<void>>();
+  private demotedFns = new Set<(token: number) => void | Promise<void>>();
+
+  constructor(private redis: Redis, opts: LeaderOptions = {}) {
+    this.key = opts.key || LEADER_KEY;
+    this.ttlMs = opts.ttlMs ?? TTL_MS;
+    this.renewMs = opts.renewMs ?? RENEW_MS;
+    this.id = (opts.id || `${labels.instance_id}:${process.pid}:${crypto.randomBytes(4).toString("hex")}`).replaceAll("|", "_");
+    if (this.renewMs >= this.ttlMs) throw new Error("LEADER_RENEW_MS must be < LEADER_TTL_MS");
+  }
+
+  get isLeader() {
+    return this.term !== null && Date.now() < this.leaseUntil;
+  }
+
+  /** Geçerli dönemin fencing token’ı; lider değilse null */
+  get token() {
+    return this.isLeader ? this.term : null;
+  }
+
+  /** Lider olununca (her yeni dönemde) token ile çağrılır; kaldırmak için dönen fonksiyon */
+  onElected(fn: (token: number) => void | Promise<void>) {
+    this.electedFns.add(fn);
+    return () => void this.electedFns.delete(fn);
+  }
+
+  /** Liderlik kaybedilince (lease düştü / başkası aldı / stop) eski token ile çağrılır */
+  onDemoted(fn: (token: number) => void | Promise<void>) {
+    this.demotedFns.add(fn);
+    return () => void this.demotedFns.delete(fn);
+  }
+
+  /** Eşzamanlı çağrılar (her tenant’ın AppendQueue.init’i) aynı başlatmayı bekler; tek yenileme zamanlayıcısı kurulur */
+  start() {
+    this.starting ??= (async () => {
+      await this.tick();
+      this.timer = setInterval(() => void this.tick(), this.renewMs);
+      this.timer.unref?.();
+    })();
+    return this.starting;
+  }
+
+  async stop() {
+    await this.starting?.catch(() => {});
+    this.starting = null;
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.ticking;
+    if (this.term === null) return;
+    const held = `${this.id}|${this.term}`;
+    await this.redis.eval(RELEASE_LUA, 1, this.key, held).catch(() => {});
+    this.demote();
+  }
+
+  /** Tek yenileme turu; turlar üst üste binmez */
+  tick() {
+    this.ticking ??= this.renew().finally(() => (this.ticking = null));
+    return this.ticking;
+  }
+
+  private async renew() {
+    // lease isteğin GÖNDERİLDİĞİ andan sayılır; dönüş gecikmesi güvenli tarafta kalır
+    const sentAt = Date.now();
+    try {
+      const token = Number(await this.redis.eval(ACQUIRE_LUA, 2, this.key, `${this.key}:term`, this.id, this.ttlMs));
+      if (token > 0) {
+        if (this.term !== null && this.term !== token) this.demote(); // lease arada düşmüş, yeni dönem
+        this.leaseUntil = sentAt + this.ttlMs;
+        if (this.term !== token) this.elect(token);
+      } else if (this.term !== null) {
+        this.demote();
+      }
+    } catch (e) {
+      // Redis’e ulaşılamıyor: lease yerel saatle dolana kadar lider kalınır
+      if (this.term !== null && !this.isLeader) this.demote();
+      console.error("[leader] renew error", e);
+    }
+    this.report();
+  }
+
+  private elect(token: number) {
+    this.term = token;
+    termChanges.inc({ instance_id: labels.instance_id, change: "elected" });
+    console.log(`[leader] elected id=${this.id} token=${token}`);
+    this.report();
+    for (const fn of this.electedFns) this.call(fn, token);
+  }
+
+  private demote() {
+    const token = this.term!;
+    this.term = null;
+    this.leaseUntil = 0;
+    termChanges.inc({ instance_id: labels.instance_id, change: "demoted" });
+    console.log(`[leader] demoted id=${this.id} token=${token}`);
+    this.report();
+    for (const fn of this.demotedFns) this.call(fn, token);
+  }
+
+  private call(fn: (token: number) => void | Promise<void>, token: number) {
+    try {
+      void Promise.resolve(fn(token)).catch((e) => console.error("[leader] hook error", e));
+    } catch (e) {
+      console.error("[leader] hook error", e);
+    }
+  }
+
+  private report() {
+    leaderGauge.set({ instance_id: labels.instance_id }, this.isLeader ? 1 : 0);
+    termGauge.set({ instance_id: labels.instance_id }, this.token ?? 0);
+  }
+}
+
+/**
+ * Cron görevlerini liderliğe bağlar: yalnız lider çalıştırır. elector yoksa (Redis’siz tek
+ * instance) görevler olduğu gibi çalışır.
+ */
+export function runOnLeader<T extends { start(): void; stop(): void }>(elector: LeaderElector | null, tasks: (T | undefined)[]) {
+  const live = tasks.filter((t): t is T => !!t);
+  if (!elector) return;
+  const sync = () => live.forEach((t) => (elector.isLeader ? t.start() : t.stop()));
+  sync();
+  elector.onElected(sync);
+  elector.onDemoted(sync);
+}
@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/util/requestCanonical.ts
+// İstek imzalarının ortak parçaları (requireHmac + requireSignature):
+// aynı kanonik string ve aynı nonce alanı → bir nonce iki yöntemle de tekrar kullanılamaz.
+import type { Request } from "express";
+import type { IncomingHttpHeaders } from "node:http";
+import crypto from "node:crypto";
+import { checkAndSetNonce } from "./nonceStore.js";
+
+/**
+ * Canonical String Format (shared by Zero1 and Privora):
+ * ```
+ * METHOD\nPATH\nSHA256(rawBody)\nx-ts\nx-nonce
+ * ```
+ */
+export function canonicalRequest(req: SignedRequest, ts: string, nonce: string) {
+  // Use raw body captured in server.ts (req._raw)
+  const raw = (req as any)._raw ?? Buffer.from(JSON.stringify(req.body ?? ""));
+  const bodyHash = crypto.createHash("sha256").update(raw).digest("hex");
+  const pathname = (req.originalUrl || req.url || req.path || "").split("?")[0];
+  return [String(req.method || "GET").toUpperCase(), pathname, bodyHash, ts, nonce].join("\n");
+}
+
+/** Express isteği ya da (WebSocket upgrade gibi) ham IncomingMessage */
+export type SignedRequest = Partial<Pick<Request, "method" | "originalUrl" | "url" | "path" | "body">> & {
+  headers: IncomingHttpHeaders;
+};
+
+export function headerOf(req: SignedRequest, name: string) {
+  const v = req.headers[name.toLowerCase()];
+  return String((Array.isArray(v) ? v[0] : v) || "").trim();
+}
+
+/** Nonce replay protection; false = bu keyId ile nonce daha önce kullanılmış */
+export function consumeNonce(keyId: string, nonce: string) {
+  const ttl = Number(process.env.NONCE_TTL_SEC || 600);
+  return checkAndSetNonce(`${keyId}:${nonce}`, ttl);
+}
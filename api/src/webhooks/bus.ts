@@ -0,0 +1,52 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/webhooks/bus.ts
+// Süreç içi olay yolu: store/kuyruk/anchor olay üretir, webhook dispatcher dinler.
+// Üreticiler dinleyici hatalarından etkilenmez.
+import { EventEmitter } from "node:events";
+import crypto from "node:crypto";
+import { DEFAULT_TENANT } from "../keys/scopes.js";
+
+export const WEBHOOK_EVENTS = [
+  "job.proven",
+  "job.failed",
+  "capture.recorded",
+  "dispute.opened",
+  "dispute.updated",
+  "correction.created",
+  "root.anchored",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number];
+
+export type WebhookEvent = {
+  id: string;               // evt_<hex>; teslimat tekrarlarında aynı kalır
+  type: WebhookEventType;
+  createdAt: number;
+  tenant: string;           // olayın ait olduğu tenant; yalnız o tenant’ın aboneliklerine gider
+  data: Record<string, unknown>;
+};
+
+const bus = new EventEmitter();
+bus.setMaxListeners(0);
+
+export function emitEvent(type: WebhookEventType, data: Record<string, unknown>, tenant = DEFAULT_TENANT): WebhookEvent {
+  const ev: WebhookEvent = { id: "evt_" + crypto.randomBytes(12).toString("hex"), type, createdAt: Date.now(), tenant, data };
+  for (const fn of bus.listeners("event")) {
+    try {
+      const r = (fn as (e: WebhookEvent) => unknown)(ev);
+      if (r instanceof Promise) r.catch((e) => console.error("[events] listener error", e));
+    } catch (e) {
+      // eslint-disable-next-line no-console
+      console.error("[events] listener error", e);
+    }
+  }
+  return ev;
+}
+
+/** Dinleyiciyi ekler; kaldırma fonksiyonu döner */
+export function onEvent(fn: (ev: WebhookEvent) => unknown) {
+  bus.on("event", fn);
+  return () => {
+    bus.off("event", fn);
+  };
+}
@@ -0,0 +1,146 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/webhooks/dispatcher.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { WebhookDispatcher, webhookBackoffMs } from "./dispatcher.js";
+import { FileWebhookStore, type WebhookSubscription } from "./store.js";
+import { emitEvent } from "./bus.js";
+
+async function withDir(fn: (dir: string) => Promise<void>) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "webhooks-"));
+  try { await fn(dir); } finally { fs.rmSync(dir, { recursive: true, force: true }); }
+}
+
+const sub = (over: Partial<WebhookSubscription> = {}): WebhookSubscription => ({
+  id: "wh_test",
+  url: "https://example.test/hooks/privora?x=1",
+  events: ["job.proven"],
+  secret: "whsec_" + "ab".repeat(16),
+  active: true,
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+  ...over,
+});
+
+type Call = { url: string; headers: Record<string, string>; body: string };
+function fakeFetch(statuses: number[]) {
+  const calls: Call[] = [];
+  const fn = async (url: string, init: any) => {
+    calls.push({ url, headers: init.headers, body: init.body });
+    const status = statuses.shift() ?? 200;
+    return { status, text: async () => "" };
+  };
+  return { calls, fn };
+}
+
+test("deliveries are signed in the requireHmac canonical format", () =>
+  withDir(async (dir) => {
+    const store = new FileWebhookStore(dir);
+    await store.init();
+    const s = sub();
+    await store.putSub(s);
+    await store.putSub(sub({ id: "wh_other", events: ["dispute.opened"] }));
+    const f = fakeFetch([200]);
+    const d = new WebhookDispatcher(store, f.fn).start();
+    try {
+      emitEvent("job.proven", { jobId: "j1" });
+      await new Promise((r) => setTimeout(r, 50));
+    } finally {
+      d.close();
+    }
+    assert.equal(f.calls.length, 1); // yalnız job.proven abonesi
+    const { headers, body } = f.calls[0];
+    const ev = JSON.parse(body);
+    assert.equal(ev.type, "job.proven");
+    assert.deepEqual(ev.data, { jobId: "j1" });
+    assert.equal(headers["x-key-id"], s.id);
+
+    // alıcı tarafı: METHOD\nPATH\nSHA256(rawBody)\nx-ts\nx-nonce
+    const canonical = [
+      "POST",
+      "/hooks/privora",
+      crypto.createHash("sha256").update(body).digest("hex"),
+      headers["x-ts"],
+      headers["x-nonce"],
+    ].join("\n");
+    assert.equal(headers["x-signature-256"], crypto.createHmac("sha256", s.secret).update(canonical).digest("hex"));
+
+    const log = await store.listLog(s.id, 10);
+    assert.equal(log.length, 1);
+    assert.equal(log[0].state, "delivered");
+    assert.equal(log[0].httpStatus, 200);
+    assert.equal(await store.countPending(), 0);
+  }));
+
+test("failed deliveries are retried with backoff and logged per attempt", () =>
+  withDir(async (dir) => {
+    const store = new FileWebhookStore(dir);
+    await store.init();
+    await store.putSub(sub());
+    const f = fakeFetch([500, 503, 204]);
+    const d = new WebhookDispatcher(store, f.fn);
+    const ev = { id: "evt_1", type: "job.proven" as const, createdAt: Date.now(), tenant: "default", data: {} };
+
+    const [first] = await d.dispatch(ev);
+    assert.equal(first.state, "retrying");
+    assert.ok(first.nextAt! > Date.now());
+    assert.equal((await d.processDue()).length, 0); // henüz vadesi gelmedi
+
+    // vadeyi öne çek: tekrar denemeler aynı olay gövdesini yeni imzayla yollar
+    for (let i = 0; i < 2; i++) {
+      const [p] = await store.claimDue(Number.MAX_SAFE_INTEGER, 0, 10);
+      await store.schedule({ ...p, nextAt: 0 });
+      await d.processDue();
+    }
+    assert.equal(f.calls.length, 3);
+    assert.equal(new Set(f.calls.map((c) => c.body)).size, 1);
+    assert.equal(new Set(f.calls.map((c) => c.headers["x-nonce"])).size, 3);
+
+    const log = await store.listLog("wh_test", 10);
+    assert.deepEqual(log.map((a) => [a.attempt, a.state, a.httpStatus]), [
+      [3, "delivered", 204],
+      [2, "retrying", 503],
+      [1, "retrying", 500],
+    ]);
+    assert.equal(await store.countPending(), 0);
+
+    // yeniden başlatmada günlük ve abonelik korunur
+    const again = new FileWebhookStore(dir);
+    await again.init();
+    assert.equal((await again.listLog("wh_test", 10)).length, 3);
+    assert.equal((await again.getSub("wh_test"))?.url, sub().url);
+  }));
+
+test("events reach only the subscriptions of their own tenant", () =>
+  withDir(async (dir) => {
+    const store = new FileWebhookStore(dir);
+    await store.init();
+    await store.putSub(sub({ id: "wh_legacy" })); // tenant alanı olmayan eski kayıt → default
+    await store.putSub(sub({ id: "wh_acme", tenant: "acme", events: ["job.proven", "root.anchored"] }));
+    await store.putSub(sub({ id: "wh_globex", tenant: "globex" }));
+    const f = fakeFetch([]);
+    const d = new WebhookDispatcher(store, f.fn);
+
+    const delivered = async (type: "job.proven" | "root.anchored", tenant: string) =>
+      (await d.dispatch({ id: "evt_" + tenant, type, createdAt: Date.now(), tenant, data: {} })).map((a) => a.subId);
+
+    assert.deepEqual(await delivered("job.proven", "acme"), ["wh_acme"]);
+    assert.deepEqual(await delivered("job.proven", "globex"), ["wh_globex"]);
+    assert.deepEqual(await delivered("job.proven", "default"), ["wh_legacy"]);
+    assert.deepEqual(await delivered("job.proven", "initech"), []);
+    // super-root yalnız işletmeciye (default); acme kendi root.anchored’ını alır
+    assert.deepEqual(await delivered("root.anchored", "_super"), []);
+    assert.deepEqual(await delivered("root.anchored", "acme"), ["wh_acme"]);
+    assert.equal(f.calls.length, 4);
+  }));
+
+test("backoff grows exponentially with equal jitter", () => {
+  assert.equal(webhookBackoffMs(1, () => 0), 15_000);
+  assert.equal(webhookBackoffMs(1, () => 1), 30_000);
+  assert.equal(webhookBackoffMs(3, () => 1), 120_000);
+  assert.equal(webhookBackoffMs(30, () => 1), 3_600_000);
+});
@@ -0,0 +1,177 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/webhooks/dispatcher.ts
+// Olayları eşleşen aboneliklere imzalı POST olarak iletir; başarısızları backoff ile tekrar dener.
+import crypto from "node:crypto";
+import client from "prom-client";
+import { registry } from "../metrics/registry.js";
+import { DEFAULT_TENANT } from "../keys/scopes.js";
+import { SUPER_ROOT_TENANT } from "../tenant/namespace.js";
+import { onEvent, type WebhookEvent } from "./bus.js";
+import type { DeliveryAttempt, PendingDelivery, WebhookStore, WebhookSubscription } from "./store.js";
+
+const BASE_SEC = Number(process.env.WEBHOOK_RETRY_BASE_SEC || 30);
+const MAX_SEC = Number(process.env.WEBHOOK_RETRY_MAX_SEC || 3600);
+const MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS || 8);
+const TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS || 5000);
+// gönderim sürerken instance çökerse teslimat bu süreden sonra tekrar sahiplenilir
+const CLAIM_LEASE_MS = TIMEOUT_MS * 2 + 5000;
+
+const deliveriesTotal = new client.Counter({
+  name: "privora_webhook_deliveries_total",
+  help: "Webhook delivery attempts",
+  labelNames: ["event", "result"], // result: ok | retry | failed
+  registers: [registry],
+});
+const pendingGauge = new client.Gauge({
+  name: "privora_webhook_pending",
+  help: "Webhook deliveries waiting for retry",
+  registers: [registry],
+});
+
+/** n. denemeden sonraki bekleme: base·2^(n-1), üst sınır MAX; equal jitter (bkz. anchor/dlq.ts) */
+export function webhookBackoffMs(attempts: number, rnd: () => number = Math.random) {
+  const exp = Math.min(MAX_SEC, BASE_SEC * 2 ** Math.max(0, attempts - 1)) * 1000;
+  return Math.round(exp / 2 + rnd() * (exp / 2));
+}
+
+/**
+ * requireHmac ile aynı kanonik biçim: POST\nPATH\nSHA256(rawBody)\nx-ts\nx-nonce
+ * Alıcı SDK’daki canonicalToSign ile doğrulayabilir; x-key-id abonelik kimliğidir.
+ */
+export function signDelivery(sub: Pick<WebhookSubscription, "id" | "url" | "secret">, body: string, now = Date.now()) {
+  const ts = new Date(now).toISOString();
+  const nonce = crypto.randomBytes(16).toString("hex");
+  const bodyHash = crypto.createHash("sha256").update(body).digest("hex");
+  const canonical = ["POST", new URL(sub.url).pathname, bodyHash, ts, nonce].join("\n");
+  return {
+    "x-key-id": sub.id,
+    "x-ts": ts,
+    "x-nonce": nonce,
+    "x-signature-256": crypto.createHmac("sha256", sub.secret).update(canonical).digest("hex"),
+  };
+}
+
+export class WebhookDispatcher {
+  private stop: (() => void) | null = null;
+
+  constructor(
+    private store: WebhookStore,
+    private fetchFn?: (url: string, init: any) => Promise<{ status: number; text(): Promise<string> }>
+  ) {}
+
+  /** Olay yoluna abone olur */
+  start() {
+    if (!this.stop) this.stop = onEvent((ev) => this.dispatch(ev));
+    return this;
+  }
+
+  close() {
+    this.stop?.();
+    this.stop = null;
+  }
+
+  /**
+   * Olayı aynı tenant’ın eşleşen aktif aboneliklerine iletir; ilk deneme hemen yapılır.
+   * Super-root olayları platform işletmecisinin (DEFAULT_TENANT) aboneliklerine gider.
+   */
+  async dispatch(ev: WebhookEvent) {
+    const tenant = !ev.tenant || ev.tenant === SUPER_ROOT_TENANT ? DEFAULT_TENANT : ev.tenant;
+    const subs = (await this.store.listSubs()).filter(
+      (s) => s.active && s.events.includes(ev.type) && (s.tenant ?? DEFAULT_TENANT) === tenant
+    );
+    return Promise.all(
+      subs.map(async (s) => {
+        const now = Date.now();
+        const d: PendingDelivery = {
+          id: "dlv_" + crypto.randomBytes(10).toString("hex"),
+          subId: s.id,
+          event: ev,
+          attempts: 0,
+          nextAt: now + CLAIM_LEASE_MS, // önce kalıcı kayıt: gönderim sırasında çökülürse retry alır
+          createdAt: now,
+        };
+        await this.store.schedule(d);
+        return this.attempt(d, s);
+      })
+    );
+  }
+
+  /** Vadesi gelen tekrarları işler (cron/webhook-retry.ts) */
+  async processDue(limit = 100) {
+    const due = await this.store.claimDue(Date.now(), CLAIM_LEASE_MS, limit);
+    const out: DeliveryAttempt[] = [];
+    for (const d of due) {
+      const sub = await this.store.getSub(d.subId);
+      if (!sub || !sub.active) {
+        await this.store.done(d.id); // abonelik silindi / durduruldu
+        continue;
+      }
+      out.push(await this.attempt(d, sub));
+    }
+    pendingGauge.set(await this.store.countPending());
+    return out;
+  }
+
+  private async attempt(d: PendingDelivery, sub: WebhookSubscription): Promise<DeliveryAttempt> {
+    const body = JSON.stringify(d.event);
+    const attempt = d.attempts + 1;
+    const t0 = Date.now();
+    let httpStatus: number | null = null;
+    let error: string | undefined;
+    try {
+      const fetchFn = this.fetchFn ?? ((await import("node-fetch")).default as any);
+      const ctl = new AbortController();
+      const timer = setTimeout(() => ctl.abort(), TIMEOUT_MS);
+      try {
+        const r = await fetchFn(sub.url, {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+            "user-agent": "privora-webhooks/1",
+            "x-privora-event": d.event.type,
+            "x-privora-delivery": d.id,
+            ...signDelivery(sub, body),
+          },
+          body,
+          signal: ctl.signal,
+        });
+        httpStatus = r.status;
+        await r.text().catch(() => "");
+        if (r.status < 200 || r.status >= 300) error = `http ${r.status}`;
+      } finally {
+        clearTimeout(timer);
+      }
+    } catch (e: any) {
+      error = e?.name === "AbortError" ? "timeout" : String(e?.message || e);
+    }
+
+    const base = {
+      deliveryId: d.id,
+      subId: sub.id,
+      eventId: d.event.id,
+      type: d.event.type,
+      attempt,
+      httpStatus,
+      error,
+      durationMs: Date.now() - t0,
+      at: Date.now(),
+    };
+    let rec: DeliveryAttempt;
+    if (!error) {
+      rec = { ...base, state: "delivered" };
+      await this.store.done(d.id);
+      deliveriesTotal.inc({ event: d.event.type, result: "ok" });
+    } else if (attempt >= MAX_ATTEMPTS) {
+      rec = { ...base, state: "failed" };
+      await this.store.done(d.id);
+      deliveriesTotal.inc({ event: d.event.type, result: "failed" });
+    } else {
+      const nextAt = Date.now() + webhookBackoffMs(attempt);
+      rec = { ...base, state: "retrying", nextAt };
+      await this.store.schedule({ ...d, attempts: attempt, nextAt });
+      deliveriesTotal.inc({ event: d.event.type, result: "retry" });
+    }
+    await this.store.log(rec);
+    return rec;
+  }
+}
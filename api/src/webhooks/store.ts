@@ -0,0 +1,222 @@
+// SPDX-License-Identifier: Apache-2.0
+// api/src/webhooks/store.ts
+// Webhook abonelikleri, bekleyen teslimatlar ve teslimat günlüğü.
+// Redis: privora:webhooks:{subs,pending} hash + :due zset + :log:<subId> list (LTRIM’li)
+// Yoksa <dir>/webhooks.json + <dir>/webhook-deliveries.ndjson (tek instance).
+import type { Redis } from "ioredis";
+import fs from "node:fs";
+import path from "node:path";
+import type { WebhookEvent, WebhookEventType } from "./bus.js";
+
+export type WebhookSubscription = {
+  id: string;                 // wh_<hex>; teslimatlarda x-key-id olarak gönderilir
+  url: string;
+  events: WebhookEventType[];
+  secret: string;             // HMAC anahtarı; yalnız oluşturulurken döner
+  active: boolean;
+  description?: string;
+  tenant?: string;            // yalnız bu tenant’ın olayları teslim edilir; yoksa DEFAULT_TENANT (eski kayıtlar)
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type PendingDelivery = {
+  id: string;                 // dlv_<hex>
+  subId: string;
+  event: WebhookEvent;
+  attempts: number;
+  nextAt: number;
+  createdAt: number;
+};
+
+export type DeliveryState = "delivered" | "retrying" | "failed";
+
+/** Günlükteki her satır bir deneme */
+export type DeliveryAttempt = {
+  deliveryId: string;
+  subId: string;
+  eventId: string;
+  type: WebhookEventType;
+  attempt: number;
+  state: DeliveryState;
+  httpStatus: number | null;
+  error?: string;
+  durationMs: number;
+  nextAt?: number;
+  at: number;
+};
+
+const LOG_MAX = Number(process.env.WEBHOOK_LOG_MAX || 200); // abonelik başına saklanan son deneme
+
+export interface WebhookStore {
+  init(): Promise<void>;
+  putSub(s: WebhookSubscription): Promise<void>;
+  getSub(id: string): Promise<WebhookSubscription | null>;
+  delSub(id: string): Promise<boolean>;
+  listSubs(): Promise<WebhookSubscription[]>;
+  /** Bekleyen teslimatı (yeniden) planlar */
+  schedule(d: PendingDelivery): Promise<void>;
+  done(id: string): Promise<void>;
+  /** Vadesi gelenleri sahiplenir: nextAt = now + leaseMs (çöken instance’ın işi sonra yeniden alınır) */
+  claimDue(now: number, leaseMs: number, limit: number): Promise<PendingDelivery[]>;
+  countPending(): Promise<number>;
+  log(a: DeliveryAttempt): Promise<void>;
+  listLog(subId: string, limit: number): Promise<DeliveryAttempt[]>;
+}
+
+export function createWebhookStore(redis: Redis | null, dir: string): WebhookStore {
+  return redis ? new RedisWebhookStore(redis) : new FileWebhookStore(dir);
+}
+
+// vadesi gelenleri atomik olarak ileri tarihe alıp döner (instance’lar arası çift teslimatı önler)
+const CLAIM_LUA = `
+local ids = redis.call("ZRANGEBYSCORE", KEYS[1], 0, ARGV[1], "LIMIT", 0, tonumber(ARGV[3]))
+for _, id in ipairs(ids) do redis.call("ZADD", KEYS[1], ARGV[2], id) end
+return ids`;
+
+export class RedisWebhookStore implements WebhookStore {
+  private subsKey = "privora:webhooks:subs";
+  private pendingKey = "privora:webhooks:pending";
+  private dueKey = "privora:webhooks:due";
+  private logKey(subId: string) { return `privora:webhooks:log:${subId}`; }
+
+  constructor(private redis: Redis) {}
+  async init() {}
+
+  async putSub(s: WebhookSubscription) {
+    await this.redis.hset(this.subsKey, s.id, JSON.stringify(s));
+  }
+  async getSub(id: string) {
+    const raw = await this.redis.hget(this.subsKey, id);
+    return raw ? (JSON.parse(raw) as WebhookSubscription) : null;
+  }
+  async delSub(id: string) {
+    const n = await this.redis.hdel(this.subsKey, id);
+    await this.redis.del(this.logKey(id));
+    return n > 0;
+  }
+  async listSubs() {
+    const all = await this.redis.hvals(this.subsKey);
+    return all.map((s) => JSON.parse(s) as WebhookSubscription).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async schedule(d: PendingDelivery) {
+    await this.redis.multi().hset(this.pendingKey, d.id, JSON.stringify(d)).zadd(this.dueKey, d.nextAt, d.id).exec();
+  }
+  async done(id: string) {
+    await this.redis.multi().hdel(this.pendingKey, id).zrem(this.dueKey, id).exec();
+  }
+  async claimDue(now: number, leaseMs: number, limit: number) {
+    const ids = (await this.redis.eval(CLAIM_LUA, 1, this.dueKey, now, now + leaseMs, limit)) as string[];
+    if (!ids.length) return [];
+    const raws = await this.redis.hmget(this.pendingKey, ...ids);
+    const out: PendingDelivery[] = [];
+    raws.forEach((raw, i) => {
+      if (raw) out.push(JSON.parse(raw) as PendingDelivery);
+      else this.redis.zrem(this.dueKey, ids[i]).catch(() => {});
+    });
+    return out;
+  }
+  async countPending() {
+    return this.redis.hlen(this.pendingKey);
+  }
+
+  async log(a: DeliveryAttempt) {
+    await this.redis.multi().lpush(this.logKey(a.subId), JSON.stringify(a)).ltrim(this.logKey(a.subId), 0, LOG_MAX - 1).exec();
+  }
+  async listLog(subId: string, limit: number) {
+    const raws = await this.redis.lrange(this.logKey(subId), 0, Math.min(limit, LOG_MAX) - 1);
+    return raws.map((s) => JSON.parse(s) as DeliveryAttempt);
+  }
+}
+
+type FileState = { subs: Record<string, WebhookSubscription>; pending: Record<string, PendingDelivery> };
+
+export class FileWebhookStore implements WebhookStore {
+  private tail: Promise<unknown> = Promise.resolve();
+  private state: FileState = { subs: {}, pending: {} };
+  private logs = new Map<string, DeliveryAttempt[]>();
+  private file: string;
+  private logFile: string;
+
+  constructor(private dir: string) {
+    this.file = path.join(dir, "webhooks.json");
+    this.logFile = path.join(dir, "webhook-deliveries.ndjson");
+  }
+
+  async init() {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    try {
+      const j = JSON.parse(await fs.promises.readFile(this.file, "utf8"));
+      this.state = { subs: j.subs || {}, pending: j.pending || {} };
+    } catch {}
+    const raw = await fs.promises.readFile(this.logFile, "utf8").catch(() => "");
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const a = JSON.parse(line) as DeliveryAttempt;
+        if (this.state.subs[a.subId]) this.pushLog(a);
+      } catch {}
+    }
+    // compaction: silinmiş aboneliklerin ve LOG_MAX’ı aşan eski denemeler atılır
+    const kept = [...this.logs.values()].flat().sort((x, y) => x.at - y.at);
+    await fs.promises.writeFile(this.logFile + ".tmp", kept.map((a) => JSON.stringify(a) + "\n").join(""));
+    await fs.promises.rename(this.logFile + ".tmp", this.logFile);
+  }
+
+  private pushLog(a: DeliveryAttempt) {
+    const list = this.logs.get(a.subId) ?? [];
+    list.push(a);
+    if (list.length > LOG_MAX) list.splice(0, list.length - LOG_MAX);
+    this.logs.set(a.subId, list);
+  }
+
+  private mutate(fn: (s: FileState) => void) {
+    const run = this.tail.then(async () => {
+      fn(this.state);
+      await fs.promises.writeFile(this.file + ".tmp", JSON.stringify(this.state, null, 2));
+      await fs.promises.rename(this.file + ".tmp", this.file);
+    });
+    this.tail = run.catch(() => {});
+    return run;
+  }
+
+  async putSub(s: WebhookSubscription) { await this.mutate((st) => { st.subs[s.id] = s; }); }
+  async getSub(id: string) { return this.state.subs[id] ?? null; }
+  async delSub(id: string) {
+    const had = !!this.state.subs[id];
+    await this.mutate((st) => { delete st.subs[id]; });
+    this.logs.delete(id);
+    return had;
+  }
+  async listSubs() {
+    return Object.values(this.state.subs).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async schedule(d: PendingDelivery) { await this.mutate((st) => { st.pending[d.id] = d; }); }
+  async done(id: string) { await this.mutate((st) => { delete st.pending[id]; }); }
+  async claimDue(now: number, leaseMs: number, limit: number) {
+    const out: PendingDelivery[] = [];
+    await this.mutate((st) => {
+      const due = Object.values(st.pending).filter((d) => d.nextAt <= now).sort((a, b) => a.nextAt - b.nextAt);
+      for (const d of due.slice(0, limit)) {
+        out.push({ ...d });
+        d.nextAt = now + leaseMs;
+      }
+    });
+    return out;
+  }
+  async countPending() { return Object.keys(this.state.pending).length; }
+
+  log(a: DeliveryAttempt) {
+    const run = this.tail.then(async () => {
+      await fs.promises.appendFile(this.logFile, JSON.stringify(a) + "\n");
+      this.pushLog(a);
+    });
+    this.tail = run.catch(() => {});
+    return run;
+  }
+  async listLog(subId: string, limit: number) {
+    return (this.logs.get(subId) ?? []).slice(-limit).reverse();
+  }
+}
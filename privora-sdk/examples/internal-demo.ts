@@ -1,11 +1,13 @@
 const client = new PrivoraClient({
   baseURL: "http://localhost:4000",
   keyId: "default",
-  hmacSecret: process.env.PRIVORA_HMAC_SECRET as string
+  hmacSecret: process.env.PRIVORA_HMAC_SECRET as string,
+  workerId: "prover-1"
 });
 
-const job = await client.nextJob();
-if (job.job) {
+const { jobs } = await client.nextJob({ max: 10, leaseSec: 120 });
+for (const job of jobs) {
+  // uzun süren işlerde lease’i uzat: await client.heartbeat(job.id, job.leaseToken, 120)
   // hesapladığın proofHash’i kaydet
-  await client.appendProof({ jobId: job.job.id, proofHash: "0xabc..." });
+  await client.appendProof({ jobId: job.id, proofHash: "0xabc...", leaseToken: job.leaseToken });
 }
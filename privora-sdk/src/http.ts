@@ -22,5 +22,25 @@ export class Http {
     return r.json() as Promise<T>;
   }
 
+  /** POST that hands back status + parsed body instead of throwing (for 429 challenges) */
+  async post<T>(path: string, body: unknown, headers?: Record<string, string>): Promise<{ status: number; body: T }> {
+    const r = await this.fetcher(this.baseURL + path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...(headers || {}) },
+      body: JSON.stringify(body)
+    });
+    const txt = await r.text().catch(() => "");
+    let parsed: unknown = txt;
+    try { parsed = JSON.parse(txt); } catch { /* non-JSON error body */ }
+    return { status: r.status, body: parsed as T };
+  }
+
+  /** raw GET for streaming responses (SSE); caller consumes the body */
+  async open(path: string, headers?: Record<string, string>, signal?: AbortSignal): Promise<Response> {
+    const r = await this.fetcher(this.baseURL + path, { method: "GET", headers, signal });
+    if (!r.ok || !r.body) throw new Error(`GET ${path} ${r.status}`);
+    return r;
+  }
+
   base() { return this.baseURL; }
 }
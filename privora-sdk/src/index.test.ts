@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import { verifyInclusionProof, type Inclusion } from "./index.js";
+import { leafHash, nodeHash } from "./merkle.js";
+
+const a = "0x" + "aa".repeat(32);
+const b = "0x" + "bb".repeat(32);
+const sha = (s: string) => createHash("sha256").update(s).digest("hex");
+
+// two-leaf tree: the proof for a is b's leaf hash on the right
+const inclusion = (): Inclusion => ({
+  day: "2026-01-02",
+  treeVer: 2,
+  jobId: "job-a",
+  proofHash: a,
+  leafIndex: 0,
+  treeSize: 2,
+  leafHash: leafHash(a),
+  branch: [{ hash: leafHash(b), side: "R" }],
+  merkleRoot: nodeHash(leafHash(a), leafHash(b)),
+  anchors: [],
+});
+
+test("an inclusion proof verifies against its root", () => {
+  const inc = inclusion();
+  assert.equal(verifyInclusionProof(inc), true);
+  assert.equal(verifyInclusionProof(inc, inc.merkleRoot.toUpperCase().replace("0X", "0x")), true);
+  assert.equal(verifyInclusionProof(inc, "0x" + "00".repeat(32)), false);
+});
+
+test("a proofHash that does not match the leaf hash is rejected", () => {
+  // valid leaf/branch/root from a's proof, relabelled with another proofHash
+  assert.equal(verifyInclusionProof({ ...inclusion(), proofHash: b }), false);
+  assert.equal(verifyInclusionProof({ ...inclusion(), proofHash: "0x" + "cc".repeat(32) }), false);
+});
+
+test("legacy treeVer 1 proofs recompute the leaf the v1 way", () => {
+  const inc: Inclusion = {
+    ...inclusion(),
+    treeVer: 1,
+    leafHash: "0x" + sha(a),
+    branch: [{ hash: sha(b), side: "R" }],
+    merkleRoot: sha(sha(a) + sha(b)),
+  };
+  assert.equal(verifyInclusionProof(inc), true);
+  assert.equal(verifyInclusionProof({ ...inc, proofHash: b }), false);
+});
@@ -1,65 +1,247 @@
 import { canonicalStringify } from "./canonical.js";
 import { Http } from "./http.js";
-import { canonicalToSign, hmac256Hex } from "./sign.js";
+import type { KeyObject } from "node:crypto";
+import { canonicalToSign, hmac256Hex, signCanonical } from "./sign.js";
+import { readSse, type ProofStreamEvent } from "./stream.js";
+import { leafHashFor, verifyInclusion, type MerkleBranch, type TreeVersion } from "./merkle.js";
+import type { SignedTreeHead } from "./sth.js";
+import { solvePow, type PowChallenge } from "./pow.js";
 
 export type PrivoraClientOpts = {
   baseURL?: string;                 // e.g. http://localhost:4000
   keyId?: string;                   // for HMAC (internal endpoints)
+  keyVersion?: number;              // HMAC key version (x-key-ver) while a rotation is in progress
   hmacSecret?: string;              // for HMAC (internal endpoints)
+  signingKey?: KeyObject | string;  // Ed25519 / P-256 private key (PKCS8 PEM); used instead of HMAC when set
+  workerId?: string;                // worker identity for leases (x-worker-id)
+  powMaxMs?: number;                // give up solving a /submit proof-of-work challenge after this long (default 30s); 0 = don't solve
   fetch?: typeof fetch;             // override for tests
 };
 
+export type Inclusion = {
+  day: string | null;
+  treeVer: TreeVersion;
+  jobId: string | null;
+  proofHash: string;
+  leafIndex: number;
+  treeSize: number;
+  leafHash: string;
+  branch: MerkleBranch;
+  merkleRoot: string;
+  anchors: unknown[];
+};
+
+export type JobState = "queued" | "leased" | "proven" | "failed" | "dead";
+
+export type JobStatus = {
+  id: string;
+  state: JobState;
+  createdAt: number;
+  updatedAt: number;
+  worker: string | null;
+  attempt: number;
+  leaseUntil: number | null;
+  proofHash: string | null;
+  day: string | null;
+  reason: string | null;
+  history: { state: JobState; at: number; worker?: string; attempt?: number; reason?: string }[];
+};
+
+export type LeasedJob = { id: string; payload: unknown; leaseToken: string; leaseUntil: number; attempt: number };
+
+const TERMINAL: JobState[] = ["proven", "failed", "dead"];
+
+/**
+ * Offline check of an inclusion proof; pass expectedRoot to pin it to a root you trust (e.g. an anchor).
+ * The leaf hash is recomputed from proofHash, so a valid branch cannot be reused for another proof.
+ */
+export function verifyInclusionProof(inc: Inclusion, expectedRoot?: string): boolean {
+  if (expectedRoot && expectedRoot.toLowerCase() !== inc.merkleRoot.toLowerCase()) return false;
+  const leaf = (h: string) => (h.startsWith("0x") ? h.slice(2) : h).toLowerCase();
+  if (leaf(leafHashFor(inc.treeVer, inc.proofHash)) !== leaf(inc.leafHash)) return false;
+  return verifyInclusion(inc.leafHash, inc.branch, inc.merkleRoot, inc.treeVer);
+}
+
 export class PrivoraClient {
   private http: Http;
   private keyId?: string;
+  private keyVersion?: number;
   private secret?: string;
+  private signingKey?: KeyObject | string;
+  private workerId?: string;
+  private powMaxMs: number;
 
   constructor(opts: PrivoraClientOpts = {}) {
     const base = opts.baseURL || process.env.PRIVORA_API || "http://localhost:4000";
     this.http = new Http(base, opts.fetch || fetch);
     this.keyId = opts.keyId || process.env.PRIVORA_KEY_ID || undefined;
+    this.keyVersion = opts.keyVersion ?? (process.env.PRIVORA_KEY_VER ? Number(process.env.PRIVORA_KEY_VER) : undefined);
     this.secret = opts.hmacSecret || process.env.PRIVORA_HMAC_SECRET || undefined;
+    this.signingKey = opts.signingKey || process.env.PRIVORA_SIGNING_KEY || undefined;
+    this.workerId = opts.workerId || process.env.PRIVORA_WORKER_ID || undefined;
+    this.powMaxMs = opts.powMaxMs ?? 30_000;
   }
 
   // ---------- Public: submit & read proofs ----------
-  /** Deterministic JSON + SHA-256 server-side; returns jobId */
-  async submit(payload: unknown): Promise<{ ok: boolean; jobId: string }> {
+  /**
+   * Deterministic JSON + SHA-256 server-side; returns jobId.
+   * If the server answers 429 with a proof-of-work challenge, it is solved locally and the
+   * same request is resent with X-Pow-Solution (a fresh challenge is retried once more).
+   */
+  async submit(payload: unknown, opts: { signal?: AbortSignal } = {}): Promise<{ ok: boolean; jobId: string }> {
     const canon = canonicalStringify(payload);
     // İstersen client-side hash hesaplayıp da gönderebilirsin; MVP olarak server halleder.
-    return this.http.postJSON("/submit", { payload: JSON.parse(canon) });
+    const body = { payload: JSON.parse(canon) };
+    let headers: Record<string, string> | undefined;
+    for (let attempt = 0; ; attempt++) {
+      const r = await this.http.post<{ ok: boolean; jobId: string; error?: string; challenge?: PowChallenge }>("/submit", body, headers);
+      if (r.status < 400) return r.body;
+      const challenge = r.status === 429 ? r.body?.challenge : undefined;
+      if (!challenge || challenge.type !== "pow" || !this.powMaxMs || attempt >= 2) {
+        throw new Error(`POST /submit ${r.status} ${typeof r.body === "string" ? r.body : JSON.stringify(r.body)}`);
+      }
+      headers = { "x-pow-solution": await solvePow(challenge, { maxMs: this.powMaxMs, signal: opts.signal }) };
+    }
   }
 
-  /** { day, leafCount, merkleRoot, file } */
-  async getRoot(): Promise<{ ok: boolean; info: { day?: string; leafCount: number; merkleRoot: string | null; file: string | null } }> {
+  /** job lifecycle: queued → leased → proven | failed | dead; inclusion once proven and written */
+  async getJob(jobId: string): Promise<{ ok: boolean; job: JobStatus; inclusion?: Inclusion | null }> {
+    return this.http.get(`/jobs/${encodeURIComponent(jobId)}`);
+  }
+
+  /**
+   * Poll /jobs/:id until the job reaches a terminal state. For proven jobs it keeps
+   * polling until the inclusion proof is available (the proof line may still be queued).
+   * Resolves with the final status; rejects on timeout.
+   */
+  async awaitProof(
+    jobId: string,
+    opts: { intervalMs?: number; timeoutMs?: number; signal?: AbortSignal } = {}
+  ): Promise<{ job: JobStatus; inclusion: Inclusion | null }> {
+    const interval = opts.intervalMs ?? 2000;
+    const deadline = Date.now() + (opts.timeoutMs ?? 10 * 60_000);
+    for (;;) {
+      if (opts.signal?.aborted) throw new Error("aborted");
+      const r = await this.getJob(jobId);
+      const done = TERMINAL.includes(r.job.state);
+      if (done && (r.job.state !== "proven" || r.inclusion)) return { job: r.job, inclusion: r.inclusion ?? null };
+      if (Date.now() + interval > deadline) {
+        if (done) return { job: r.job, inclusion: null };
+        throw new Error(`awaitProof timeout (state=${r.job.state})`);
+      }
+      await new Promise((res) => setTimeout(res, interval));
+    }
+  }
+
+  /** { day, leafCount, merkleRoot, file, treeVer } */
+  async getRoot(): Promise<{ ok: boolean; info: { day?: string; leafCount: number; merkleRoot: string | null; file: string | null; treeVer: number } }> {
     return this.http.get("/proofs");
   }
 
   /** verify inclusion proof (if branch logic exposed) */
-  async verifyProof(opts: { leaf: string; root: string; branch: any[] }) {
+  async verifyProof(opts: { leaf: string; root: string; branch: any[]; treeVer?: number }) {
     const q = new URLSearchParams({
       leaf: opts.leaf,
       root: opts.root,
-      branch: JSON.stringify(opts.branch)
+      branch: JSON.stringify(opts.branch),
+      ver: String(opts.treeVer ?? 2)
     });
     return this.http.get(`/proofs/verify?${q.toString()}`);
   }
 
+  /** self-contained inclusion proof by jobId (or capture contentId) */
+  async getInclusion(jobId: string, opts: { day?: string } = {}): Promise<{ ok: boolean; inclusion: Inclusion }> {
+    const q = opts.day ? `?day=${encodeURIComponent(opts.day)}` : "";
+    return this.http.get(`/proofs/${encodeURIComponent(jobId)}/inclusion${q}`);
+  }
+
+  /** self-contained inclusion proof by proofHash */
+  async getInclusionByHash(proofHash: string, opts: { day?: string } = {}): Promise<{ ok: boolean; inclusion: Inclusion }> {
+    const q = new URLSearchParams({ proofHash, ...(opts.day ? { day: opts.day } : {}) });
+    return this.http.get(`/proofs/inclusion?${q.toString()}`);
+  }
+
+  /** consistency proof between two tree sizes of a day (verify with verifyConsistency) */
+  async getConsistency(from: number, to: number, opts: { day?: string } = {}): Promise<{
+    ok: boolean; day: string; treeVer: number; from: number; to: number; oldRoot: string; newRoot: string; proof: string[];
+  }> {
+    const q = new URLSearchParams({ from: String(from), to: String(to), ...(opts.day ? { day: opts.day } : {}) });
+    return this.http.get(`/proofs/consistency?${q.toString()}`);
+  }
+
+  /** latest signed tree head (verify with verifySignedTreeHead against a pinned key) */
+  async getLatestSth(): Promise<{ ok: boolean; sth: SignedTreeHead }> {
+    return this.http.get("/proofs/sth/latest");
+  }
+
+  /** all signed tree heads published for a day */
+  async getSths(opts: { day?: string } = {}): Promise<{ ok: boolean; day: string; count: number; items: SignedTreeHead[] }> {
+    const q = opts.day ? `?day=${encodeURIComponent(opts.day)}` : "";
+    return this.http.get(`/proofs/sth${q}`);
+  }
+
+  /** server's STH key; prefer pinning it out-of-band instead of trusting this at verify time */
+  async getSthPublicKey(): Promise<{ ok: boolean; keyId: string; alg: "ed25519"; publicKey: string; pem: string }> {
+    return this.http.get("/proofs/sth/pubkey");
+  }
+
+  /**
+   * Live events from GET /proofs/stream: each chained line, root updates and anchor receipts.
+   * Reconnects on network errors and resumes after the last seen line (Last-Event-ID);
+   * stop by aborting `signal` or breaking out of the loop.
+   */
+  async *streamProofs(
+    opts: { lastEventId?: string; signal?: AbortSignal; reconnectMs?: number } = {}
+  ): AsyncGenerator<ProofStreamEvent> {
+    let lastId = opts.lastEventId;
+    while (!opts.signal?.aborted) {
+      try {
+        const r = await this.http.open(
+          "/proofs/stream",
+          { accept: "text/event-stream", ...(lastId ? { "last-event-id": lastId } : {}) },
+          opts.signal
+        );
+        for await (const ev of readSse(r.body!)) {
+          if (ev.id) lastId = ev.id;
+          yield { type: ev.event, ...(ev.id ? { id: ev.id } : {}), data: JSON.parse(ev.data) } as ProofStreamEvent;
+        }
+      } catch (e) {
+        if (opts.signal?.aborted) return;
+        // 4xx (e.g. malformed lastEventId) will not fix itself on retry
+        if (/ 4\d\d$/.test(String((e as Error)?.message))) throw e;
+      }
+      await new Promise((res) => setTimeout(res, opts.reconnectMs ?? 3000));
+    }
+  }
+
   // ---------- Optional: HMAC-protected internal endpoints ----------
-  /** next-job (requires HMAC) */
-  async nextJob(): Promise<{ ok: boolean; job: { id: string; payload: unknown } | null }> {
-    const { headers, path, body } = this.signed("/next-job", {});
+  /** lease up to `max` jobs for `leaseSec` seconds (requires HMAC) */
+  async nextJob(opts: { max?: number; leaseSec?: number } = {}): Promise<{ ok: boolean; worker: string; jobs: LeasedJob[] }> {
+    const { headers, path, body } = this.signed("/next-job", opts);
+    return this.http.postJSON(path, body, headers);
+  }
+
+  /** extend a lease; fails with 409 once the job was reassigned (requires HMAC) */
+  async heartbeat(jobId: string, leaseToken: string, leaseSec?: number): Promise<{ ok: boolean; leaseUntil: number }> {
+    const { headers, path, body } = this.signed(`/jobs/${encodeURIComponent(jobId)}/heartbeat`, { leaseToken, leaseSec });
     return this.http.postJSON(path, body, headers);
   }
 
-  /** append proof line (requires HMAC) */
-  async appendProof(input: { jobId: string; proofHash: string; manifestHash?: string }) {
+  /** append proof line and ack the lease (requires HMAC) */
+  async appendProof(input: { jobId: string; proofHash: string; manifestHash?: string; leaseToken: string }) {
     const { headers, path, body } = this.signed("/proof", input);
     return this.http.postJSON(path, body, headers);
   }
 
-  // ---------- HMAC helper ----------
+  /** report a leased job as permanently failed (requires HMAC) */
+  async failJob(jobId: string, leaseToken: string, reason: string) {
+    const { headers, path, body } = this.signed(`/jobs/${encodeURIComponent(jobId)}/fail`, { leaseToken, reason });
+    return this.http.postJSON(path, body, headers);
+  }
+
+  // ---------- HMAC / signature helper ----------
   private signed(path: string, body: unknown) {
-    if (!this.secret) throw new Error("hmacSecret not configured");
+    if (!this.secret && !this.signingKey) throw new Error("hmacSecret or signingKey not configured");
     const raw = Buffer.from(JSON.stringify(body) || "");
     const ts = String(Date.now());
     const nonce = Math.random().toString(36).slice(2) + Math.random().toString(36).slice(2);
@@ -70,12 +252,19 @@ export class PrivoraClient {
       ts,
       nonce,
     });
-    const sig = hmac256Hex(this.secret, canon);
+    // the private key never leaves this process; the server only knows the public key for keyId
+    const auth: Record<string, string> = this.signingKey
+      ? { "x-signature": signCanonical(this.signingKey, canon) }
+      : {
+          "x-signature-256": hmac256Hex(this.secret!, canon),
+          ...(this.keyVersion !== undefined ? { "x-key-ver": String(this.keyVersion) } : {}),
+        };
     const headers = {
       "x-key-id": this.keyId || "default",
       "x-ts": ts,
       "x-nonce": nonce,
-      "x-signature-256": sig,
+      ...auth,
+      ...(this.workerId ? { "x-worker-id": this.workerId } : {}),
     };
     return { headers, path, body };
   }
@@ -83,3 +272,14 @@ export class PrivoraClient {
 
 // Quick helper exports
 export { canonicalStringify } from "./canonical.js";
+export { leafHash, leafHashFor, nodeHash, merkleRoot, verifyInclusion, verifyConsistency, TREE_VERSION } from "./merkle.js";
+export type { MerkleBranch, TreeVersion } from "./merkle.js";
+export { verifySignedTreeHead, sthSigningString } from "./sth.js";
+export type { SignedTreeHead } from "./sth.js";
+export { canonicalToSign, signCanonical, publicKeyForRegistration } from "./sign.js";
+export type { RequestSigAlg } from "./sign.js";
+export { verifyWebhook } from "./webhook.js";
+export { solvePow } from "./pow.js";
+export type { PowChallenge } from "./pow.js";
+export type { ProofStreamEvent } from "./stream.js";
+export type { WebhookEvent, WebhookEventType } from "./webhook.js";
@@ -0,0 +1,95 @@
+import { createHash } from "node:crypto";
+
+// Same tree specification as api/src/crypto/merkle.ts
+//   treeVer 2: leaf = SHA256(0x00 || utf8(leaf)), node = SHA256(0x01 || L || R), odd node promoted
+//   treeVer 1: legacy hex-string tree (files written before treeVer existed)
+export const TREE_VERSION = 2;
+export type TreeVersion = 1 | 2;
+export type MerkleBranch = { hash: string; side: "L" | "R" }[];
+
+const sha = (b: Buffer) => createHash("sha256").update(b).digest();
+const hexSha = (s: string) => createHash("sha256").update(s).digest("hex");
+const strip0x = (h: string) => (h.startsWith("0x") ? h.slice(2) : h);
+
+export function leafHash(data: string | Buffer): string {
+  const d = typeof data === "string" ? Buffer.from(data, "utf8") : data;
+  return "0x" + sha(Buffer.concat([Buffer.from([0x00]), d])).toString("hex");
+}
+
+export function nodeHash(leftHex: string, rightHex: string): string {
+  const L = Buffer.from(strip0x(leftHex), "hex");
+  const R = Buffer.from(strip0x(rightHex), "hex");
+  return "0x" + sha(Buffer.concat([Buffer.from([0x01]), L, R])).toString("hex");
+}
+
+/** Leaf hash of leaf data (a proofHash string) for the given tree version */
+export function leafHashFor(treeVer: TreeVersion, data: string): string {
+  return treeVer === 1 ? "0x" + hexSha(data) : leafHash(data);
+}
+
+/** Root from leaf data (proofHash strings); null for an empty tree */
+export function merkleRoot(leaves: string[], treeVer: TreeVersion = TREE_VERSION): string | null {
+  if (!leaves.length) return null;
+  let level = leaves.map((l) => (treeVer === 1 ? hexSha(l) : leafHash(l)));
+  const combine = (a: string, b: string) => (treeVer === 1 ? hexSha(a + b) : nodeHash(a, b));
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? combine(level[i], level[i + 1]) : level[i]);
+    }
+    level = next;
+  }
+  return level[0];
+}
+
+/** Offline inclusion check: leaf = leaf hash, branch from /proofs/:jobId/inclusion */
+export function verifyInclusion(
+  leaf: string,
+  branch: MerkleBranch,
+  root: string,
+  treeVer: TreeVersion = TREE_VERSION
+): boolean {
+  let acc = strip0x(leaf);
+  for (const step of branch) {
+    const sib = strip0x(step.hash);
+    if (treeVer === 1) acc = step.side === "L" ? hexSha(sib + acc) : hexSha(acc + sib);
+    else acc = strip0x(step.side === "L" ? nodeHash(sib, acc) : nodeHash(acc, sib));
+  }
+  return acc.toLowerCase() === strip0x(root).toLowerCase();
+}
+
+/**
+ * RFC 9162 §2.1.4.2: checks that the tree of size m (oldRoot) is a prefix of the
+ * tree of size n (newRoot), using the proof from /proofs/consistency (treeVer 2 only).
+ */
+export function verifyConsistency(m: number, n: number, oldRoot: string, newRoot: string, proof: string[]): boolean {
+  if (m < 1 || m > n) return false;
+  const first = strip0x(oldRoot).toLowerCase();
+  const second = strip0x(newRoot).toLowerCase();
+  if (m === n) return proof.length === 0 && first === second;
+  if (proof.length === 0) return false;
+
+  let path = proof.map((p) => strip0x(p).toLowerCase());
+  if ((m & (m - 1)) === 0) path = [first, ...path];
+  let fn = m - 1;
+  let sn = n - 1;
+  while (fn & 1) { fn >>= 1; sn >>= 1; }
+
+  let fr = path[0];
+  let sr = path[0];
+  for (const c of path.slice(1)) {
+    if (sn === 0) return false;
+    if (fn & 1 || fn === sn) {
+      fr = strip0x(nodeHash(c, fr));
+      sr = strip0x(nodeHash(c, sr));
+      if (!(fn & 1)) {
+        while (!(fn & 1) && fn !== 0) { fn >>= 1; sn >>= 1; }
+      }
+    } else {
+      sr = strip0x(nodeHash(sr, c));
+    }
+    fn >>= 1;
+    sn >>= 1;
+  }
+  return fr === first && sr === second && sn === 0;
+}
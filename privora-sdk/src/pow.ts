@@ -0,0 +1,42 @@
+import { createHash } from "node:crypto";
+
+// Challenge returned by /submit with 429 when the request looks risky
+export type PowChallenge = {
+  type: "pow";
+  alg: "sha256-leading-zero-bits";
+  token: string;
+  difficulty: number; // required leading zero bits of sha256("<token>:<nonce>")
+  expiresAt: number;
+};
+
+function leadingZeroBits(buf: Buffer) {
+  let n = 0;
+  for (const byte of buf) {
+    if (byte !== 0) return n + Math.clz32(byte) - 24;
+    n += 8;
+  }
+  return n;
+}
+
+/**
+ * Find a nonce for a proof-of-work challenge and return the X-Pow-Solution header value ("<token>:<nonce>").
+ * Expected work is 2^difficulty hashes; the loop yields to the event loop every `batch` attempts and
+ * gives up at the challenge expiry, after `maxMs`, or when `signal` is aborted.
+ */
+export async function solvePow(
+  challenge: Pick<PowChallenge, "token" | "difficulty" | "expiresAt">,
+  opts: { maxMs?: number; batch?: number; signal?: AbortSignal } = {}
+): Promise<string> {
+  const deadline = Math.min(challenge.expiresAt, Date.now() + (opts.maxMs ?? Infinity));
+  const batch = opts.batch ?? 20_000;
+  for (let n = 0; ; ) {
+    for (const end = n + batch; n < end; n++) {
+      const nonce = n.toString(36);
+      const h = createHash("sha256").update(`${challenge.token}:${nonce}`).digest();
+      if (leadingZeroBits(h) >= challenge.difficulty) return `${challenge.token}:${nonce}`;
+    }
+    if (opts.signal?.aborted) throw new Error("aborted");
+    if (Date.now() >= deadline) throw new Error(`pow not solved before deadline (difficulty=${challenge.difficulty})`);
+    await new Promise((res) => setImmediate(res));
+  }
+}
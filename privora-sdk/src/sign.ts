@@ -1,4 +1,4 @@
-import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import { createHash, createHmac, createPrivateKey, createPublicKey, sign, timingSafeEqual, type KeyObject } from "node:crypto";
 
 export function sha256Hex(buf: Buffer | string): string {
   return createHash("sha256").update(buf).digest("hex");
@@ -25,3 +25,36 @@ export function canonicalToSign(opts: {
   const bodyHash = sha256Hex(opts.rawBody);
   return [opts.method.toUpperCase(), opts.path, bodyHash, opts.ts, opts.nonce].join("\n");
 }
+
+export type RequestSigAlg = "ed25519" | "p256";
+
+function algOf(key: KeyObject): RequestSigAlg {
+  if (key.asymmetricKeyType === "ed25519") return "ed25519";
+  if (key.asymmetricKeyType === "ec" && key.asymmetricKeyDetails?.namedCurve === "prime256v1") return "p256";
+  throw new Error(`unsupported signing key type: ${key.asymmetricKeyType}`);
+}
+
+/** Accepts a KeyObject or a PKCS8 PEM string (Ed25519 or EC P-256) */
+export function toPrivateKey(key: KeyObject | string): KeyObject {
+  return typeof key === "string" ? createPrivateKey(key) : key;
+}
+
+/**
+ * Asymmetric request signature over the canonical string, base64 (send as x-signature).
+ * Ed25519, or ECDSA P-256 / SHA-256 in r||s (IEEE P1363) form.
+ */
+export function signCanonical(privateKey: KeyObject | string, canonical: string): string {
+  const key = toPrivateKey(privateKey);
+  const data = Buffer.from(canonical);
+  const sig = algOf(key) === "ed25519"
+    ? sign(null, data, key)
+    : sign("sha256", data, { key, dsaEncoding: "ieee-p1363" });
+  return sig.toString("base64");
+}
+
+/** What to register with Privora for a key id: { alg, publicKey } (SPKI DER, base64) */
+export function publicKeyForRegistration(key: KeyObject | string): { alg: RequestSigAlg; publicKey: string } {
+  const k = typeof key === "string" ? createPrivateKey(key) : key;
+  const pub = k.type === "private" ? createPublicKey(k) : k;
+  return { alg: algOf(pub), publicKey: pub.export({ format: "der", type: "spki" }).toString("base64") };
+}
@@ -0,0 +1,36 @@
+import { createPublicKey, verify } from "node:crypto";
+import type { TreeVersion } from "./merkle.js";
+
+// Signed Tree Head as served by /proofs/sth/latest (same signing string as api/src/store/sth.ts)
+export type SignedTreeHead = {
+  day: string;
+  treeVer: TreeVersion;
+  treeSize: number;
+  rootHash: string;
+  timestamp: number;
+  keyId: string;
+  tenant?: string; // set for non-default tenants (v2 signing string)
+  alg: "ed25519";
+  signature: string; // base64
+};
+
+// DER SPKI prefix for a raw 32-byte Ed25519 public key
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+export function sthSigningString(h: Omit<SignedTreeHead, "alg" | "signature">): string {
+  const body = [h.day, h.treeVer, h.treeSize, h.rootHash, h.timestamp, h.keyId];
+  return (h.tenant ? ["privora-sth-v2", h.tenant, ...body] : ["privora-sth-v1", ...body]).join("\n");
+}
+
+/** Verify an STH against a pinned Ed25519 public key (raw 32 bytes, base64) */
+export function verifySignedTreeHead(sth: SignedTreeHead, publicKeyB64: string): boolean {
+  try {
+    if (sth.alg !== "ed25519") return false;
+    const raw = Buffer.from(publicKeyB64, "base64");
+    if (raw.length !== 32) return false;
+    const key = createPublicKey({ key: Buffer.concat([ED25519_SPKI_PREFIX, raw]), format: "der", type: "spki" });
+    return verify(null, Buffer.from(sthSigningString(sth)), key, Buffer.from(sth.signature, "base64"));
+  } catch {
+    return false;
+  }
+}
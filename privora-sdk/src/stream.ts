@@ -0,0 +1,40 @@
+// Live proof stream (GET /proofs/stream, Server-Sent Events)
+export type ProofStreamEvent =
+  | { type: "line"; id: string; data: { day: string; offset: number; line: Record<string, unknown> } }
+  | { type: "root"; data: { day: string; leafCount: number; merkleRoot: string | null; treeVer: number } }
+  | { type: "anchor"; data: Record<string, unknown> }
+  | { type: "gap"; data: { from: string; reason: string } };
+
+/** Minimal SSE parser over a fetch body: yields one record per blank-line-terminated event */
+export async function* readSse(body: ReadableStream<Uint8Array>): AsyncGenerator<{ id?: string; event: string; data: string }> {
+  const reader = body.getReader();
+  const dec = new TextDecoder();
+  let buf = "";
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buf += dec.decode(value, { stream: true });
+      let sep: number;
+      while ((sep = buf.search(/\r?\n\r?\n/)) >= 0) {
+        const block = buf.slice(0, sep);
+        buf = buf.slice(sep).replace(/^\r?\n\r?\n/, "");
+        let id: string | undefined;
+        let event = "message";
+        const data: string[] = [];
+        for (const line of block.split(/\r?\n/)) {
+          if (!line || line.startsWith(":")) continue; // comment / keep-alive
+          const i = line.indexOf(":");
+          const field = i < 0 ? line : line.slice(0, i);
+          const val = i < 0 ? "" : line.slice(i + 1).replace(/^ /, "");
+          if (field === "id") id = val;
+          else if (field === "event") event = val;
+          else if (field === "data") data.push(val);
+        }
+        if (data.length) yield { id, event, data: data.join("\n") };
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,46 @@
+import { canonicalToSign, hmac256Hex, tEqHex } from "./sign.js";
+
+export type WebhookEventType =
+  | "job.proven"
+  | "job.failed"
+  | "capture.recorded"
+  | "dispute.opened"
+  | "dispute.updated"
+  | "correction.created"
+  | "root.anchored";
+
+// Body of a webhook delivery (same id across retries)
+export type WebhookEvent<T = Record<string, unknown>> = {
+  id: string;
+  type: WebhookEventType;
+  createdAt: number;
+  tenant: string; // tenant that produced the event; subscriptions only receive their own tenant's events
+  data: T;
+};
+
+/**
+ * Verify a Privora webhook delivery. Deliveries are signed with the subscription secret
+ * in the same canonical format the API verifies (`canonicalToSign`), with x-key-id = subscription id.
+ * Pass the raw request body, not a re-serialized one. Callers should also reject repeated x-nonce values.
+ */
+export function verifyWebhook(opts: {
+  secret: string;
+  path: string;
+  rawBody: Buffer;
+  headers: Record<string, string | string[] | undefined>;
+  toleranceSec?: number;
+  now?: number;
+}): boolean {
+  const h = (k: string) => {
+    const v = opts.headers[k];
+    return String(Array.isArray(v) ? v[0] : v ?? "").trim();
+  };
+  const ts = h("x-ts");
+  const nonce = h("x-nonce");
+  const sig = h("x-signature-256");
+  if (!ts || !nonce || !/^[0-9a-f]{64}$/i.test(sig)) return false;
+  const t = Date.parse(ts);
+  if (Number.isNaN(t) || Math.abs((opts.now ?? Date.now()) - t) > (opts.toleranceSec ?? 300) * 1000) return false;
+  const canon = canonicalToSign({ method: "POST", path: opts.path, rawBody: opts.rawBody, ts, nonce });
+  return tEqHex(hmac256Hex(opts.secret, canon), sig);
+}
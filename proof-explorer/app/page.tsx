@@ -10,41 +10,143 @@ type ChainItem = {
   lineHash?: string;
 };
 
+type AnchorReceipt = {
+  target: string;
+  kind: "webhook" | "evm" | "ots" | "file";
+  ok: boolean;
+  txHash?: string;
+  blockNumber?: number;
+  chainId?: string;
+  calendarUrl?: string;
+  responseDigest?: string;
+  error?: string;
+};
+
 type AnchorItem = {
   day: string;
   merkleRoot: string | null;
   leafCount: number;
   file: string | null;
   createdAt: number;
+  receipts?: AnchorReceipt[];
+};
+
+type SignedTreeHead = {
+  day: string;
+  treeVer: number;
+  treeSize: number;
+  rootHash: string;
+  timestamp: number;
+  keyId: string;
+  tenant?: string; // varsayılan dışı tenant’ların başları (v2 imza metni)
+  alg: "ed25519";
+  signature: string;
 };
 
 const API_BASE = process.env.NEXT_PUBLIC_PRIVORA_API || "http://localhost:4000";
+// STH doğrulama anahtarı (ham Ed25519, base64); sabitlenmezse API’den alınır ve öyle etiketlenir
+const PINNED_STH_KEY = process.env.NEXT_PUBLIC_PRIVORA_STH_PUBKEY || "";
+
+type RootInfo = { day?: string; leafCount?: number; merkleRoot?: string | null };
+
+const API_KEY_STORAGE = "privora.explorer.apiKey";
+
+// Tenant seçimi: API anahtarı x-api-key başlığıyla gider; anahtarsız istekler varsayılan tenant’ı görür
+function apiFetch(apiKey: string, path: string, init: RequestInit = {}) {
+  return fetch(`${API_BASE}${path}`, { ...init, headers: { ...(apiKey ? { "x-api-key": apiKey } : {}), ...init.headers } });
+}
 
 export default function Page() {
   const [chain, setChain] = useState<ChainItem[]>([]);
   const [anchors, setAnchors] = useState<AnchorItem[]>([]);
+  const [root, setRoot] = useState<RootInfo | null>(null);
   const [loading, setLoading] = useState(true);
-  const [poll, setPoll] = useState(true);
-
-  async function load() {
-    try {
-      const [c, a] = await Promise.all([
-        fetch(`${API_BASE}/proofs/chain?n=200`).then(r => r.json()),
-        fetch(`${API_BASE}/proofs/anchors`).then(r => r.json()),
-      ]);
-      if (c?.ok) setChain(c.items || []);
-      if (a?.ok) setAnchors(a.items || []);
-    } finally {
-      setLoading(false);
-    }
+  const [live, setLive] = useState(true);
+  const [connected, setConnected] = useState(false);
+  const [apiKey, setApiKey] = useState("");
+  const [keyInput, setKeyInput] = useState("");
+  const [tenant, setTenant] = useState<string | null>(null);
+  const [reconnect, setReconnect] = useState(0);
+
+  useEffect(() => {
+    const saved = localStorage.getItem(API_KEY_STORAGE) || "";
+    setApiKey(saved);
+    setKeyInput(saved);
+  }, []);
+
+  function selectKey(k: string) {
+    const key = k.trim();
+    if (key) localStorage.setItem(API_KEY_STORAGE, key);
+    else localStorage.removeItem(API_KEY_STORAGE);
+    setApiKey(key);
+  }
+
+  async function loadChain() {
+    const c = await apiFetch(apiKey, "/proofs/chain?n=200").then(r => r.json()).catch(() => null);
+    if (c?.ok) setChain(c.items || []);
+  }
+  async function loadAnchors() {
+    const a = await apiFetch(apiKey, "/proofs/anchors").then(r => r.json()).catch(() => null);
+    if (a?.ok) setAnchors(a.items || []);
   }
 
+  // anahtar değişince görünüm o tenant’ın verisiyle baştan yüklenir
   useEffect(() => {
-    load();
-    if (!poll) return;
-    const id = setInterval(load, 10_000); // 10s polling
-    return () => clearInterval(id);
-  }, [poll]);
+    setLoading(true);
+    setChain([]);
+    setAnchors([]);
+    setRoot(null);
+    const loadRoot = apiFetch(apiKey, "/proofs").then(r => r.json()).then(j => setRoot(j?.info || null)).catch(() => {});
+    Promise.all([loadChain(), loadAnchors(), loadRoot]).finally(() => setLoading(false));
+  }, [apiKey]);
+
+  // Canlı akış (SSE): yeni satırlar, kök güncellemeleri ve anchor receipt’leri itilir; polling yok.
+  // EventSource koptuğunda Last-Event-ID ile kaldığı satırdan devam eder.
+  // EventSource başlık gönderemez: tenant, x-api-key ile alınan kısa ömürlü ?streamToken= ile seçilir.
+  useEffect(() => {
+    if (!live) return;
+    let es: EventSource | null = null;
+    let cancelled = false;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+    (async () => {
+      const t = await apiFetch(apiKey, "/proofs/stream/token", { method: "POST" }).then(r => r.json()).catch(() => null);
+      if (cancelled) return;
+      setTenant(t?.ok ? t.tenant : null);
+      if (apiKey && !t?.ok) {
+        retry = setTimeout(() => setReconnect(n => n + 1), 3000);
+        return;
+      }
+      connect(t?.ok ? `?streamToken=${encodeURIComponent(t.token)}` : "");
+    })();
+    return () => {
+      cancelled = true;
+      clearTimeout(retry);
+      es?.close();
+      setConnected(false);
+    };
+
+    function connect(query: string) {
+      es = new EventSource(`${API_BASE}/proofs/stream${query}`);
+      const cur = es;
+      es.onopen = () => setConnected(true);
+      es.onerror = () => {
+        setConnected(false);
+        // sunucu yeniden bağlanmayı reddetti (ör. token süresi doldu): yeni token ile baştan
+        if (cur.readyState === EventSource.CLOSED && !cancelled) retry = setTimeout(() => setReconnect(n => n + 1), 3000);
+      };
+      attach(cur);
+    }
+  }, [live, apiKey, reconnect]);
+
+  function attach(es: EventSource) {
+    es.addEventListener("line", (e) => {
+      const { line } = JSON.parse((e as MessageEvent).data);
+      if (line?.proofHash && line?.jobId) setChain(prev => [...prev, line].slice(-200));
+    });
+    es.addEventListener("root", (e) => setRoot(JSON.parse((e as MessageEvent).data)));
+    es.addEventListener("anchor", () => { loadAnchors(); });
+    es.addEventListener("gap", () => { loadChain(); }); // sunucu tekrar oynatmayı kesti
+  }
 
   return (
     <main style={{ padding: 24, fontFamily: "system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, sans-serif" }}>
@@ -56,7 +158,12 @@ export default function Page() {
       <div style={{ display: "flex", gap: 16, marginTop: 16, flexWrap: "wrap" }}>
         <Card>
           <h3 style={{ marginTop: 0 }}>Merkle Root (Today)</h3>
-          <RootCard apiBase={API_BASE} />
+          <RootCard root={root} />
+        </Card>
+
+        <Card>
+          <h3 style={{ marginTop: 0 }}>Signed Tree Head</h3>
+          <SthCard apiKey={apiKey} />
         </Card>
 
         <Card>
@@ -68,6 +175,15 @@ export default function Page() {
                 <div style={{ fontSize: 12, color: "#666", wordBreak: "break-all" }}>
                   root: {a.merkleRoot || "—"}
                 </div>
+                {(a.receipts || []).map(r => (
+                  <div key={r.target} style={{ fontSize: 12, wordBreak: "break-all", color: r.ok ? "#15803d" : "#b91c1c" }}>
+                    {r.ok ? "✓" : "✗"} {r.target} ({r.kind}){" "}
+                    {r.txHash ? `tx ${r.txHash}${r.blockNumber != null ? ` @${r.blockNumber}` : ""}`
+                      : r.calendarUrl ? r.calendarUrl
+                      : r.responseDigest ? `digest ${r.responseDigest}`
+                      : r.error || ""}
+                  </div>
+                ))}
               </li>
             ))}
             {!anchors.length && <div style={{ color: "#666" }}>No anchors yet.</div>}
@@ -76,10 +192,29 @@ export default function Page() {
 
         <Card>
           <h3 style={{ marginTop: 0 }}>Controls</h3>
+          <form
+            onSubmit={e => { e.preventDefault(); selectKey(keyInput); }}
+            style={{ display: "flex", gap: 8, marginBottom: 8 }}
+          >
+            <input
+              type="password"
+              placeholder="API key (x-api-key)"
+              value={keyInput}
+              onChange={e => setKeyInput(e.target.value)}
+              style={{ flex: 1 }}
+            />
+            <button type="submit">Use</button>
+          </form>
+          <div style={{ fontSize: 12, marginBottom: 8, color: "#666" }}>
+            tenant: <b>{tenant ?? "—"}</b>{!apiKey && " (no key: default tenant)"}
+          </div>
           <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
-            <input type="checkbox" checked={poll} onChange={e => setPoll(e.target.checked)} />
-            Auto-refresh every 10s
+            <input type="checkbox" checked={live} onChange={e => setLive(e.target.checked)} />
+            Live updates (GET /proofs/stream)
           </label>
+          <div style={{ fontSize: 12, marginTop: 8, color: connected ? "#15803d" : "#666" }}>
+            {live ? (connected ? "● connected" : "○ connecting…") : "paused"}
+          </div>
         </Card>
       </div>
 
@@ -142,11 +277,7 @@ function Td(props: React.PropsWithChildren<{ mono?: boolean }>) {
   }}>{props.children}</td>;
 }
 
-function RootCard({ apiBase }: { apiBase: string }) {
-  const [root, setRoot] = useState<{ day?: string; leafCount?: number; merkleRoot?: string | null } | null>(null);
-  useEffect(() => {
-    fetch(`${apiBase}/proofs`).then(r => r.json()).then(j => setRoot(j?.info || null)).catch(() => setRoot(null));
-  }, [apiBase]);
+function RootCard({ root }: { root: RootInfo | null }) {
   if (!root) return <div>Loading…</div>;
   return (
     <div>
@@ -158,3 +289,64 @@ function RootCard({ apiBase }: { apiBase: string }) {
     </div>
   );
 }
+
+function b64ToBytes(b64: string) {
+  return Uint8Array.from(atob(b64), c => c.charCodeAt(0));
+}
+
+// api/src/store/sth.ts ve privora-sdk/src/sth.ts sthSigningString ile aynı: tenant’lı başlar v2, tenant’ı metne katar
+function sthSigningString(sth: SignedTreeHead) {
+  const body = [sth.day, sth.treeVer, sth.treeSize, sth.rootHash, sth.timestamp, sth.keyId];
+  return (sth.tenant ? ["privora-sth-v2", sth.tenant, ...body] : ["privora-sth-v1", ...body]).join("\n");
+}
+
+async function verifySth(sth: SignedTreeHead, publicKeyB64: string): Promise<boolean> {
+  try {
+    if (sth.alg !== "ed25519") return false;
+    const msg = sthSigningString(sth);
+    const key = await crypto.subtle.importKey("raw", b64ToBytes(publicKeyB64), { name: "Ed25519" }, false, ["verify"]);
+    return await crypto.subtle.verify({ name: "Ed25519" }, key, b64ToBytes(sth.signature), new TextEncoder().encode(msg));
+  } catch {
+    return false;
+  }
+}
+
+function SthCard({ apiKey }: { apiKey: string }) {
+  const [sth, setSth] = useState<SignedTreeHead | null>(null);
+  const [status, setStatus] = useState<"loading" | "none" | "valid" | "invalid">("loading");
+  const [keySource, setKeySource] = useState<"pinned" | "server">("pinned");
+  useEffect(() => {
+    (async () => {
+      try {
+        setSth(null);
+        const j = await apiFetch(apiKey, "/proofs/sth/latest").then(r => r.json());
+        if (!j?.ok) return setStatus("none");
+        setSth(j.sth);
+        let pub = PINNED_STH_KEY;
+        if (!pub) {
+          const k = await apiFetch(apiKey, "/proofs/sth/pubkey").then(r => r.json());
+          pub = k?.publicKey || "";
+          setKeySource("server");
+        }
+        setStatus(pub && (await verifySth(j.sth, pub)) ? "valid" : "invalid");
+      } catch {
+        setStatus("none");
+      }
+    })();
+  }, [apiKey]);
+  if (status === "loading") return <div>Loading…</div>;
+  if (!sth) return <div style={{ color: "#666" }}>No signed tree head yet.</div>;
+  return (
+    <div>
+      <div><b>day:</b> {sth.day} • <b>size:</b> {sth.treeSize}</div>
+      <div><b>signed:</b> {new Date(sth.timestamp).toLocaleString()}</div>
+      <div style={{ fontSize: 12, color: "#666", wordBreak: "break-all" }}>
+        <b>root:</b> {sth.rootHash}
+      </div>
+      <div style={{ marginTop: 6, color: status === "valid" ? "#15803d" : "#b91c1c" }}>
+        {status === "valid" ? "✓ signature valid" : "✗ signature invalid"} ({sth.keyId}
+        {keySource === "server" ? ", key fetched from API — not pinned" : ", pinned key"})
+      </div>
+    </div>
+  );
+}
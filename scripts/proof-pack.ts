@@ -8,8 +8,11 @@
 import fs from "node:fs";
 import path from "node:path";
 import archiver from "archiver";
+import { computeDayRoot } from "../api/src/store/day-file.js";
+import { readReceipts } from "../api/src/anchor/receipts.js";
 
 const DATA_DIR = process.env.DATA_DIR || "api/.data";
+const ANCHOR_DIR = process.env.ANCHOR_DIR || ".anchors";
 
 function outPath(dayISO: string, index: number) {
   return path.join(DATA_DIR, `privora-audit-${dayISO}-${index}.zip`);
@@ -22,6 +25,20 @@ export async function main(dayISO: string, index: number) {
   const ijson = path.join(DATA_DIR, `proofs-${dayISO.replace(/-/g, "")}.index.json`);
   if (![src, rjson, rtxt, ijson].every(fs.existsSync)) throw new Error("required files missing");
 
+  // Paketlenen kök, dosyanın kendi treeVer’i ile yeniden hesaplanan kökle aynı olmalı
+  const computed = await computeDayRoot(src);
+  const published = fs.readFileSync(rtxt, "utf8").trim();
+  if ((computed.merkleRoot ?? "") !== published) {
+    throw new Error(`root mismatch: published=${published} computed=${computed.merkleRoot} (treeVer=${computed.treeVer})`);
+  }
+  const spec = {
+    treeVer: computed.treeVer,
+    leafCount: computed.leafCount,
+    merkleRoot: computed.merkleRoot,
+    leaf: computed.treeVer === 1 ? "sha256hex(leaf)" : "sha256(0x00 || utf8(leaf))",
+    node: computed.treeVer === 1 ? "sha256hex(leftHex + rightHex)" : "sha256(0x01 || left || right)",
+  };
+
   const dest = outPath(dayISO, index);
   const ws = fs.createWriteStream(dest);
   const zip = archiver("zip", { zlib: { level: 9 } });
@@ -31,12 +48,22 @@ export async function main(dayISO: string, index: number) {
   zip.file(rjson, { name: "merkle/root.json" });
   zip.file(rtxt, { name: "merkle/root.txt" });
   zip.file(ijson, { name: "merkle/index.json" });
+  zip.append(JSON.stringify(spec, null, 2), { name: "merkle/spec.json" });
 
   const eas = path.join(DATA_DIR, `eas-${dayISO}.json`);
   const ots = path.join(DATA_DIR, `ots-${dayISO}.ots`);
   if (fs.existsSync(eas)) zip.file(eas, { name: "anchors/eas.json" });
   if (fs.existsSync(ots)) zip.file(ots, { name: "anchors/root.ots" });
 
+  // Hedef başına anchor receipt’leri (sadece paketlenen köke ait olanlar) + OTS dosyaları
+  const receipts = (await readReceipts(ANCHOR_DIR, dayISO)).filter((r) => r.merkleRoot === computed.merkleRoot);
+  if (receipts.length) {
+    zip.append(JSON.stringify({ day: dayISO, receipts }, null, 2), { name: "anchors/receipts.json" });
+    for (const c of receipts.flatMap((r) => r.calendars ?? [])) {
+      if (fs.existsSync(c.otsFile)) zip.file(c.otsFile, { name: `anchors/${path.basename(c.otsFile)}` });
+    }
+  }
+
   await zip.finalize();
   await new Promise((r) => ws.on("close", r));
   console.log("[audit] saved:", dest);
@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: Apache-2.0
+// scripts/verify-chain.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { ProofStore } from "../api/src/store/proof-store.js";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "verify-chain-"));
+
+test("exits ok for an intact day file, resolved by date or path", async () => {
+  process.env.DATA_DIR = dir; // modül yüklenirken okunur
+  const { main } = await import("./verify-chain.js");
+  const store = new ProofStore(dir);
+  await store.appendBatch([1, 2, 3].map((i) => ({ jobId: `job-${i}`, proofHash: "0x" + String(i).repeat(64), createdAt: i })));
+  const file = store.currentFilePath;
+  const lines = fs.readFileSync(file, "utf8").trim().split("\n");
+  const head = JSON.parse(lines.at(-1)!).lineHash;
+  const day = path.basename(file).match(/\d{4}-\d{2}-\d{2}/)![0];
+  try {
+    assert.equal(await main(day), true);
+    assert.equal(await main(file, head), true);
+
+    // beklenen head tutmuyor (kuyruk kesilmiş) → false
+    assert.equal(await main(file, "0".repeat(64)), false);
+
+    // düzenlenmiş satır → false
+    const edited = JSON.parse(lines[2]);
+    edited.jobId = "job-x";
+    const tampered = path.join(dir, "tampered.ndjson");
+    fs.writeFileSync(tampered, [...lines.slice(0, 2), JSON.stringify(edited), ...lines.slice(3)].join("\n") + "\n");
+    assert.equal(await main(tampered), false);
+
+    await assert.rejects(main(path.join(dir, "nope.ndjson")), /file not found/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
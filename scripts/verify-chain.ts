@@ -0,0 +1,42 @@
+// SPDX-License-Identifier: Apache-2.0
+// scripts/verify-chain.ts
+/**
+ * Gün dosyasının hash-chain bütünlüğünü denetler (denetçi aracı).
+ * Kullanım:
+ *  npx tsx scripts/verify-chain.ts 2025-08-24            # DATA_DIR/proofs-2025-08-24.ndjson
+ *  npx tsx scripts/verify-chain.ts ./proofs-2025-08-24.ndjson --head <lineHash>
+ * Çıkış kodu: 0 = zincir sağlam, 1 = bozulma bulundu, 2 = kullanım/okuma hatası
+ */
+import fs from "node:fs";
+import { verifyChainFile } from "../api/src/store/integrity.js";
+import { dayFilePath } from "../api/src/store/proof-store.js";
+
+const DATA_DIR = process.env.DATA_DIR || "api/.data";
+
+export async function main(target: string, expectHead?: string) {
+  const file = /^\d{4}-\d{2}-\d{2}$/.test(target) ? dayFilePath(DATA_DIR, target) : target;
+  if (!fs.existsSync(file)) throw new Error(`file not found: ${file}`);
+  const report = await verifyChainFile(file, { expectHead });
+  console.log(JSON.stringify(report, null, 2));
+  if (!report.ok) {
+    const fb = report.firstBroken!;
+    console.error(`[verify-chain] BROKEN at line ${fb.line} (${fb.kind})`);
+  } else {
+    console.log(`[verify-chain] intact: ${report.lines} lines, head=${report.head}`);
+  }
+  return report.ok;
+}
+
+// yalnız doğrudan çalıştırıldığında (testten import edilince değil)
+if (/verify-chain\.[cm]?[jt]s$/.test(process.argv[1] ?? "")) {
+  const target = process.argv[2];
+  const hi = process.argv.indexOf("--head");
+  const head = hi > 0 ? process.argv[hi + 1] : undefined;
+  if (!target) {
+    console.error("Kullanım: npx tsx scripts/verify-chain.ts <YYYY-MM-DD|file.ndjson> [--head <hash>]");
+    process.exit(2);
+  }
+  main(target, head)
+    .then((ok) => process.exit(ok ? 0 : 1))
+    .catch((e) => { console.error(e); process.exit(2); });
+}